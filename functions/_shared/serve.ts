@@ -0,0 +1,64 @@
+// Shared by the Deno edge functions in this directory. Functions import the
+// pure pricing and ticket modules straight from src/lib; deno.json turns on
+// sloppy imports so their extensionless relative imports resolve, which means
+// those modules must not import the browser client in src/blink.
+import { createClient, type BlinkClient, type BlinkUser } from '@blinkdotnew/sdk'
+
+const PROJECT_ID = 'cinebooker-cinema-booking-platform-ztggi3vt'
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+}
+
+// Thrown by a handler to refuse a request; `code` lets the app tell failures apart
+export class HttpError extends Error {
+  status: number
+  code?: string
+
+  constructor(status: number, message: string, code?: string) {
+    super(message)
+    this.name = 'HttpError'
+    this.status = status
+    this.code = code
+  }
+}
+
+export interface FunctionRequest<T> {
+  // A client signed in as the caller, so database access has the caller's permissions
+  blink: BlinkClient
+  user: BlinkUser
+  body: T
+}
+
+/**
+ * Serves a function called by the app with the signed-in user's token. The
+ * handler returns the JSON response body, or throws an HttpError.
+ */
+export function serveFunction<T>(handler: (request: FunctionRequest<T>) => Promise<unknown>) {
+  Deno.serve(async req => {
+    if (req.method === 'OPTIONS') return new Response(null, { headers: CORS_HEADERS })
+
+    try {
+      const token = req.headers.get('authorization')?.replace('Bearer ', '')
+      if (!token) throw new HttpError(401, 'Sign in to continue')
+
+      // A client per request, so concurrent callers never share a session
+      const blink = createClient({ projectId: PROJECT_ID, authRequired: false })
+      await blink.auth.setToken(token)
+      const user = await blink.auth.me().catch(() => {
+        throw new HttpError(401, 'Your session has expired. Sign in again.')
+      })
+
+      const body = (await req.json()) as T
+      return Response.json(await handler({ blink, user, body }), { headers: CORS_HEADERS })
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return Response.json({ error: error.message, code: error.code }, { status: error.status, headers: CORS_HEADERS })
+      }
+      console.error('Error handling request:', error)
+      return Response.json({ error: 'Something went wrong. Please try again.' }, { status: 500, headers: CORS_HEADERS })
+    }
+  })
+}
@@ -0,0 +1,152 @@
+import { HttpError, serveFunction } from '../_shared/serve.ts'
+import type { Booking } from '../../src/lib/bookings.ts'
+import { ConcessionError, getOrderTotal, parseConcessionOrder, priceCart } from '../../src/lib/concession-pricing.ts'
+import type { ConcessionItem, ConcessionOrder, ConcessionSelection } from '../../src/lib/concessions.ts'
+import { calculatePriceBreakdown, parsePricingRules, type DiscountTerms } from '../../src/lib/price-breakdown.ts'
+import {
+  checkEligibility,
+  checkUsageLimits,
+  getDiscountTerms,
+  PromotionError,
+  REDEEMING_STATUSES,
+  type Redemption
+} from '../../src/lib/promotion-rules.ts'
+import type { Promotion } from '../../src/lib/promotions.ts'
+import { parseSeatLayout } from '../../src/lib/seat-layout.ts'
+import { priceSeats, SeatPricingError, type PricedShowtime } from '../../src/lib/seat-pricing.ts'
+import { parseSeats } from '../../src/lib/seats.ts'
+import { getTicketTypeRules, parseTicketTypes } from '../../src/lib/ticket-types.ts'
+
+interface PriceRequest {
+  bookingId: string
+  // Replaces the booking's food and drinks before it is priced
+  concessions?: ConcessionSelection
+}
+
+interface Showtime extends PricedShowtime {
+  id: string
+  movie_id: string
+  theater_id: string
+  screen_id: string
+  show_date: string
+}
+
+/**
+ * Prices an unpaid booking from what the database says: the showtime's
+ * category prices, the theater's ticket type discounts and fee rules, the
+ * promo code stored on the booking, checked against its rules and caps, and
+ * the food and drinks ordered, priced from the theater's catalog. The app
+ * only chooses seats, ticket types and snacks. Any price already stored on
+ * the booking is ignored and overwritten, since the app can write those
+ * columns too; checkout prices the booking again before it charges.
+ */
+serveFunction<PriceRequest>(async ({ blink, user, body }) => {
+  const bookings = await blink.db.bookings.list({ where: { id: String(body.bookingId) }, limit: 1 })
+  const booking = bookings[0] as Booking | undefined
+  if (!booking || booking.user_id !== user.id) throw new HttpError(404, 'Booking not found')
+  if (booking.booking_status !== 'pending_payment') throw new HttpError(409, 'This booking can no longer be priced')
+
+  const showtimes = await blink.db.showtimes.list({ where: { id: booking.showtime_id }, limit: 1 })
+  const showtime = showtimes[0] as Showtime | undefined
+  if (!showtime) throw new HttpError(404, 'Showtime not found')
+
+  const [screens, theaters] = await Promise.all([
+    blink.db.screens.list({ where: { id: showtime.screen_id }, limit: 1 }),
+    blink.db.theaters.list({ where: { id: showtime.theater_id }, limit: 1 })
+  ])
+  const layout = parseSeatLayout(screens[0]?.seat_layout)
+  if (!layout) throw new HttpError(409, 'This screen has no seating plan')
+
+  const seats = parseSeats(booking)
+  let seatPrices: Record<string, number>
+  try {
+    seatPrices = priceSeats(seats, parseTicketTypes(booking), showtime, layout, getTicketTypeRules(theaters[0]?.ticket_types))
+  } catch (error) {
+    if (error instanceof SeatPricingError) throw new HttpError(422, error.message)
+    throw error
+  }
+
+  let discountTerms: DiscountTerms | undefined
+  if (booking.promo_code) {
+    const promotions = await blink.db.promotions.list({ where: { code: booking.promo_code }, limit: 1 })
+    const promotion = promotions[0] as Promotion | undefined
+    if (!promotion) throw new HttpError(422, `${booking.promo_code} is not a valid promo code`, 'promotion')
+
+    // Bookings are matched on the code they were created with, not promotion_id, which is
+    // only written here, so bookings still waiting to be priced count too. Only bookings
+    // made before this one count, so racing customers agree on who got the last redemption.
+    const redemptions = promotion.usage_limit || promotion.per_user_limit
+      ? await blink.db.bookings.list({ where: { promo_code: promotion.code, booking_status: { in: REDEEMING_STATUSES } } })
+      : []
+    try {
+      checkEligibility(promotion, { ...showtime, format: screens[0]?.format || '2D' }, seats.length, new Date())
+      checkUsageLimits(promotion, user.id, redemptions as Redemption[], booking)
+    } catch (error) {
+      if (error instanceof PromotionError) throw new HttpError(422, error.message, 'promotion')
+      throw error
+    }
+    discountTerms = getDiscountTerms(promotion)
+  }
+
+  // A changed order is only accepted before checkout opens a payment; the stored one is repriced either way
+  const changingOrder = body.concessions !== undefined
+  if (changingOrder && booking.payment_intent_id) {
+    throw new HttpError(409, 'Food and drinks can no longer be changed once payment has started', 'concessions')
+  }
+  if (changingOrder && booking.exchanged_from) {
+    throw new HttpError(422, 'Food and drinks cannot be added to an exchanged booking', 'concessions')
+  }
+  const storedOrder = parseConcessionOrder(booking)
+  const selection = body.concessions ?? (storedOrder && { cart: storedOrder.lines, fulfilment: storedOrder.fulfilment })
+  let order: ConcessionOrder | null = null
+  if (selection && selection.cart.length > 0) {
+    const catalog = await blink.db.concession_items.list({ where: { theater_id: showtime.theater_id } })
+    try {
+      const lines = priceCart(selection.cart, catalog as ConcessionItem[])
+      if (lines.length > 0) {
+        order = { lines, fulfilment: selection.fulfilment === 'seat' ? 'seat' : 'pickup', status: 'pending' }
+      }
+    } catch (error) {
+      if (error instanceof ConcessionError) throw new HttpError(422, error.message, 'concessions')
+      throw error
+    }
+  }
+
+  const priceBreakdown = calculatePriceBreakdown(
+    seats.map(seatId => seatPrices[seatId]),
+    parsePricingRules(theaters[0]?.pricing_rules),
+    { discountTerms, concessions: getOrderTotal(order?.lines ?? []) }
+  )
+  const priced = {
+    concessions: order ? JSON.stringify(order) : null,
+    seat_prices: JSON.stringify(seatPrices),
+    price_breakdown: JSON.stringify(priceBreakdown),
+    total_amount: priceBreakdown.total,
+    promotion_id: discountTerms?.promotionId ?? null,
+    discount_amount: priceBreakdown.discount
+  }
+
+  // A booking paid or expired while it was being priced keeps the price it had, and
+  // matching on the missing payment intent stops an order changing under a checkout that has started
+  const updated = await blink.db.sql(
+    `UPDATE bookings
+     SET concessions = ?, seat_prices = ?, price_breakdown = ?, total_amount = ?, promotion_id = ?, discount_amount = ?
+     WHERE id = ? AND booking_status = 'pending_payment'${changingOrder ? ' AND payment_intent_id IS NULL' : ''}
+     RETURNING id`,
+    [
+      priced.concessions,
+      priced.seat_prices,
+      priced.price_breakdown,
+      priced.total_amount,
+      priced.promotion_id,
+      priced.discount_amount,
+      booking.id
+    ]
+  )
+  if (updated.rows.length === 0) {
+    throw changingOrder
+      ? new HttpError(409, 'Food and drinks can no longer be changed once payment has started', 'concessions')
+      : new HttpError(409, 'This booking can no longer be priced')
+  }
+  return { booking: { ...booking, ...priced } }
+})
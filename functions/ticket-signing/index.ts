@@ -0,0 +1,231 @@
+import type { BlinkClient, BlinkUser } from '@blinkdotnew/sdk'
+import { HttpError, serveFunction } from '../_shared/serve.ts'
+import type { Booking } from '../../src/lib/bookings.ts'
+import { parseSeats } from '../../src/lib/seats.ts'
+import {
+  fromBase64Url,
+  getTicketExpiry,
+  KEY_ALGORITHM,
+  signTicketPayload,
+  toBase64Url
+} from '../../src/lib/signed-tickets.ts'
+import type { TicketSigningKey } from '../../src/lib/ticket-signing.ts'
+
+type SigningRequest =
+  | { action: 'issue'; bookingId: string }
+  | { action: 'rotate'; theaterId: string }
+  | { action: 'keys'; theaterId: string }
+  | { action: 'revoke'; keyId: string }
+
+// Signing keys as stored; the app only sees what toPublicKey returns
+interface StoredSigningKey extends TicketSigningKey {
+  encrypted_private_key?: string | null
+  // Keys made before signing moved here kept their private half in plain JWK
+  private_key?: string | null
+  // HMAC of the key's id, theater, public key and status, written only by this function
+  seal?: string | null
+}
+
+/**
+ * Private keys are encrypted, and every key row sealed, with a secret only
+ * this function holds. The app can read and write ticket_signing_keys, so
+ * reading a row is never enough to forge a ticket, and a row the app added
+ * or changed fails its seal and is never trusted. Set the secret with the
+ * function's secrets; changing it makes every stored key unusable, and the
+ * next ticket issued creates a new one.
+ */
+function getKeySecret() {
+  const secret = Deno.env.get('TICKET_KEY_SECRET')
+  if (!secret) throw new Error('TICKET_KEY_SECRET is not set')
+  return secret
+}
+
+async function getWrappingKey() {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(getKeySecret()))
+  return crypto.subtle.importKey('raw', digest, 'AES-GCM', false, ['encrypt', 'decrypt'])
+}
+
+// Derived separately from the wrapping key, so the two are never the same key
+async function getSealingKey() {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${getKeySecret()}:seal`))
+  return crypto.subtle.importKey('raw', digest, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify'])
+}
+
+const getSealedFields = (key: Pick<StoredSigningKey, 'id' | 'theater_id' | 'public_key' | 'status'>) =>
+  new TextEncoder().encode(JSON.stringify([key.id, key.theater_id, key.public_key, key.status]))
+
+async function sealKey(key: Pick<StoredSigningKey, 'id' | 'theater_id' | 'public_key' | 'status'>) {
+  return toBase64Url(new Uint8Array(await crypto.subtle.sign('HMAC', await getSealingKey(), getSealedFields(key))))
+}
+
+async function isTrustedKey(key: StoredSigningKey) {
+  if (!key.seal) return false
+  try {
+    return await crypto.subtle.verify('HMAC', await getSealingKey(), fromBase64Url(key.seal), getSealedFields(key))
+  } catch {
+    return false
+  }
+}
+
+// Stored as <iv>.<ciphertext>, both base64url
+async function encryptPrivateKey(jwk: JsonWebKey) {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const sealed = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await getWrappingKey(),
+    new TextEncoder().encode(JSON.stringify(jwk))
+  )
+  return `${toBase64Url(iv)}.${toBase64Url(new Uint8Array(sealed))}`
+}
+
+async function decryptPrivateKey(sealed: string): Promise<CryptoKey> {
+  const [iv, data] = sealed.split('.')
+  const jwk = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64Url(iv) }, await getWrappingKey(), fromBase64Url(data))
+  return crypto.subtle.importKey('jwk', JSON.parse(new TextDecoder().decode(jwk)), KEY_ALGORITHM, false, ['sign'])
+}
+
+const toPublicKey = (key: StoredSigningKey): TicketSigningKey => ({
+  id: key.id,
+  theater_id: key.theater_id,
+  public_key: key.public_key,
+  status: key.status,
+  created_at: key.created_at,
+  retired_at: key.retired_at
+})
+
+async function createSigningKey(blink: BlinkClient, theaterId: string): Promise<StoredSigningKey> {
+  const pair = await crypto.subtle.generateKey(KEY_ALGORITHM, true, ['sign', 'verify'])
+  const [publicKey, privateKey] = await Promise.all([
+    crypto.subtle.exportKey('jwk', pair.publicKey),
+    crypto.subtle.exportKey('jwk', pair.privateKey)
+  ])
+  const fields = {
+    id: `tkey_${crypto.randomUUID()}`,
+    theater_id: theaterId,
+    public_key: JSON.stringify(publicKey),
+    status: 'active' as const
+  }
+  const key = await blink.db.ticket_signing_keys.create({
+    ...fields,
+    encrypted_private_key: await encryptPrivateKey(privateKey),
+    seal: await sealKey(fields),
+    created_at: new Date().toISOString()
+  })
+  return key as StoredSigningKey
+}
+
+// Moves keys to a new status, sealing it only for keys that were trusted before
+async function setKeyStatus(blink: BlinkClient, keys: StoredSigningKey[], status: 'retired' | 'revoked') {
+  const retiredAt = new Date().toISOString()
+  for (const key of keys) {
+    await blink.db.ticket_signing_keys.update(key.id, {
+      status,
+      retired_at: retiredAt,
+      seal: (await isTrustedKey(key)) ? await sealKey({ ...key, status }) : null,
+      // Retired keys still verify the tickets they signed; their private half is dropped if it was stored in plain
+      ...(key.private_key ? { private_key: null } : {})
+    })
+  }
+}
+
+const listKeys = async (blink: BlinkClient, where: Record<string, unknown>) =>
+  (await blink.db.ticket_signing_keys.list({ where, orderBy: { created_at: 'desc' } })) as StoredSigningKey[]
+
+async function listTrustedKeys(blink: BlinkClient, theaterId: string) {
+  const keys = await listKeys(blink, { theater_id: theaterId })
+  const trusted = await Promise.all(keys.map(isTrustedKey))
+  return keys.filter((_, index) => trusted[index])
+}
+
+// The newest active key this function can use, created on first use
+async function getActiveKey(blink: BlinkClient, theaterId: string): Promise<StoredSigningKey> {
+  const active = await listKeys(blink, { theater_id: theaterId, status: 'active' })
+  for (const key of active) {
+    if (key.encrypted_private_key && await isTrustedKey(key)) return key
+  }
+
+  // Unsealed and plain-JWK keys may have come from the app, so they are retired rather than used
+  await setKeyStatus(blink, active, 'retired')
+  return createSigningKey(blink, theaterId)
+}
+
+async function canManageTheater(blink: BlinkClient, user: BlinkUser, theaterId: string) {
+  const users = await blink.db.users.list({ where: { id: user.id }, limit: 1 })
+  const profile = users[0]
+  return profile?.role === 'platform_owner' || (profile?.role === 'theater_admin' && profile.theater_id === theaterId)
+}
+
+async function issueTicketCode(blink: BlinkClient, user: BlinkUser, bookingId: string) {
+  const bookings = await blink.db.bookings.list({ where: { id: bookingId }, limit: 1 })
+  const booking = bookings[0] as Booking | undefined
+  if (!booking) throw new HttpError(404, 'Booking not found')
+
+  const showtimes = await blink.db.showtimes.list({ where: { id: booking.showtime_id }, limit: 1 })
+  const showtime = showtimes[0]
+  if (booking.user_id !== user.id && !(showtime && await canManageTheater(blink, user, showtime.theater_id))) {
+    throw new HttpError(404, 'Booking not found')
+  }
+  // Bookings checked in before check-in became a status are still 'confirmed', with checked_in set
+  const confirmed = booking.booking_status === 'confirmed' && !(Number(booking.checked_in) > 0)
+  if (!confirmed || !showtime) return booking.qr_code
+
+  const key = await getActiveKey(blink, showtime.theater_id)
+  const code = await signTicketPayload({
+    v: 1,
+    kid: key.id,
+    bid: booking.id,
+    tid: showtime.theater_id,
+    sid: showtime.id,
+    seats: parseSeats(booking),
+    exp: getTicketExpiry(showtime)
+  }, await decryptPrivateKey(key.encrypted_private_key!))
+
+  // Matching on the old code and seats leaves the booking alone if it changed while signing
+  const updated = await blink.db.sql(
+    `UPDATE bookings SET qr_code = ? WHERE id = ? AND qr_code = ? AND seats = ? RETURNING id`,
+    [code, booking.id, booking.qr_code, booking.seats]
+  )
+  return updated.rows.length > 0 ? code : null
+}
+
+/**
+ * Holds the private half of each theater's ticket signing keys. `issue`
+ * signs a booking's ticket code for its owner or the theater's staff;
+ * `rotate` replaces a theater's key and `revoke` rejects every ticket a key
+ * signed, both for the theater's admins; `keys` lists the theater's public
+ * keys that carry a valid seal, which is the only list scanners trust. The
+ * app only ever sees public keys.
+ */
+serveFunction<SigningRequest>(async ({ blink, user, body }) => {
+  if (body.action === 'issue') {
+    return { code: await issueTicketCode(blink, user, String(body.bookingId)) }
+  }
+
+  if (body.action === 'rotate') {
+    const theaterId = String(body.theaterId)
+    if (!(await canManageTheater(blink, user, theaterId))) {
+      throw new HttpError(403, "Only the theater's admins can rotate its signing key")
+    }
+    await setKeyStatus(blink, await listKeys(blink, { theater_id: theaterId, status: 'active' }), 'retired')
+    const key = await createSigningKey(blink, theaterId)
+    return { key: toPublicKey(key) }
+  }
+
+  if (body.action === 'revoke') {
+    const [key] = await listKeys(blink, { id: String(body.keyId) })
+    if (!key || !(await isTrustedKey(key))) throw new HttpError(404, 'Signing key not found')
+    if (!(await canManageTheater(blink, user, key.theater_id))) {
+      throw new HttpError(403, "Only the theater's admins can revoke its signing keys")
+    }
+    // Revoking the active key leaves none, so the next ticket issued creates a new one
+    if (key.status !== 'revoked') await setKeyStatus(blink, [key], 'revoked')
+    const [revoked] = await listKeys(blink, { id: key.id })
+    return { key: toPublicKey(revoked) }
+  }
+
+  if (body.action === 'keys') {
+    return { keys: (await listTrustedKeys(blink, String(body.theaterId))).map(toPublicKey) }
+  }
+
+  throw new HttpError(400, 'Unknown action')
+})
@@ -7,7 +7,10 @@ import { Toaster } from './components/ui/toaster'
 import HomePage from './pages/HomePage'
 import MovieDetails from './pages/MovieDetails'
 import SeatSelection from './pages/SeatSelection'
+import AddSnacks from './pages/AddSnacks'
+import Checkout from './pages/Checkout'
 import BookingConfirmation from './pages/BookingConfirmation'
+import Invoice from './pages/Invoice'
 import UserProfile from './pages/UserProfile'
 import TheaterDashboard from './pages/TheaterDashboard'
 import PlatformDashboard from './pages/PlatformDashboard'
@@ -117,7 +120,10 @@ function App() {
             <Route path="/" element={<HomePage />} />
             <Route path="/movie/:id" element={<MovieDetails />} />
             <Route path="/book/:showtimeId" element={<SeatSelection />} />
+            <Route path="/booking/:bookingId/snacks" element={<AddSnacks />} />
+            <Route path="/checkout/:bookingId" element={<Checkout />} />
             <Route path="/booking/:bookingId" element={<BookingConfirmation />} />
+            <Route path="/booking/:bookingId/invoice" element={<Invoice />} />
             <Route path="/profile" element={<UserProfile user={user} />} />
             
             {/* Theater Admin Routes */}
@@ -130,7 +136,7 @@ function App() {
               <Route path="/platform-dashboard" element={<PlatformDashboard />} />
             )}
             
-            <Route path="/check-in" element={<CheckInInterface />} />
+            <Route path="/check-in" element={<CheckInInterface theaterId={user.theater_id} staffId={user.id} canOverride={user.role !== 'customer'} />} />
           </Routes>
         </main>
         <Toaster />
@@ -0,0 +1,40 @@
+import { blink } from './client'
+
+// Edge functions in functions/ are deployed to https://<project ID suffix>--<name>.functions.blink.new
+const getFunctionUrl = (name: string) => `https://ztggi3vt--${name}.functions.blink.new`
+
+export class FunctionError extends Error {
+  status: number
+  // Set by the function for failures the caller handles, such as 'promotion'
+  code?: string
+
+  constructor(message: string, status: number, code?: string) {
+    super(message)
+    this.name = 'FunctionError'
+    this.status = status
+    this.code = code
+  }
+}
+
+/**
+ * Calls one of the app's edge functions as the signed-in user. The function
+ * sees the user's session and throws a FunctionError with its message when
+ * it refuses the request.
+ */
+export async function callFunction<T>(name: string, body: unknown): Promise<T> {
+  const token = await blink.auth.getValidToken()
+  const response = await fetch(getFunctionUrl(name), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`
+    },
+    body: JSON.stringify(body)
+  })
+
+  const result = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new FunctionError(result.error || `The ${name} function failed`, response.status, result.code)
+  }
+  return result as T
+}
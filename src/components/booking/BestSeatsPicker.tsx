@@ -0,0 +1,59 @@
+import { useState } from 'react'
+import { Sparkles } from 'lucide-react'
+import { Button } from '../ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '../ui/select'
+import type { SeatCategory } from '../../lib/seat-layout'
+
+interface BestSeatsPickerProps {
+  categories: SeatCategory[]
+  prices: Record<string, number>
+  maxSeats: number
+  picking: boolean
+  onPick: (count: number, categoryId: string) => void
+}
+
+export default function BestSeatsPicker({ categories, prices, maxSeats, picking, onPick }: BestSeatsPickerProps) {
+  const [count, setCount] = useState(2)
+  const [categoryId, setCategoryId] = useState(categories[0]?.id || '')
+
+  if (categories.length === 0) return null
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 p-3 mb-6 rounded-lg bg-muted/50 text-sm">
+      <span className="font-medium">Pick best seats for</span>
+      <Select value={String(count)} onValueChange={(value) => setCount(Number(value))}>
+        <SelectTrigger className="w-20">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Array.from({ length: maxSeats }, (_, index) => (
+            <SelectItem key={index + 1} value={String(index + 1)}>{index + 1}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <span>{count === 1 ? 'person' : 'people'} in</span>
+      <Select value={categoryId} onValueChange={setCategoryId}>
+        <SelectTrigger className="w-44">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {categories.map(category => (
+            <SelectItem key={category.id} value={category.id}>
+              {category.name} (₹{prices[category.id] || 0})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button size="sm" onClick={() => onPick(count, categoryId)} disabled={picking || !categoryId}>
+        <Sparkles className="w-4 h-4 mr-2" />
+        {picking ? 'Picking...' : 'Pick Seats'}
+      </Button>
+    </div>
+  )
+}
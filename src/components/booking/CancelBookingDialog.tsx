@@ -0,0 +1,160 @@
+import { useState, type MouseEvent } from 'react'
+import { XCircle } from 'lucide-react'
+import { Button } from '../ui/button'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '../ui/alert-dialog'
+import { useToast } from '../../hooks/use-toast'
+import {
+  CancellationError,
+  cancelBooking,
+  getCancellationQuote,
+  type CancellationActor,
+  type CancellationQuote
+} from '../../lib/cancellations'
+import { describeRefundPolicy } from '../../lib/refund-policy'
+
+interface CancelBookingDialogProps {
+  bookingId: string
+  actor: CancellationActor
+  movieTitle: string
+  onCancelled: () => void
+}
+
+export default function CancelBookingDialog({ bookingId, actor, movieTitle, onCancelled }: CancelBookingDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [quote, setQuote] = useState<CancellationQuote | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [cancelling, setCancelling] = useState(false)
+  const { toast } = useToast()
+
+  // The refund shrinks as the show gets closer, so quote fresh every time the dialog opens
+  const handleOpenChange = async (next: boolean) => {
+    setOpen(next)
+    if (!next) return
+
+    setQuote(null)
+    setError(null)
+    try {
+      setQuote(await getCancellationQuote(bookingId, actor))
+    } catch (err) {
+      console.error('Error quoting cancellation:', err)
+      setError(err instanceof CancellationError ? err.message : 'Could not load the refund for this booking')
+    }
+  }
+
+  const handleConfirm = async (event: MouseEvent) => {
+    // Keep the dialog open until the cancellation finishes
+    event.preventDefault()
+    setCancelling(true)
+    try {
+      const result = await cancelBooking(bookingId, actor)
+      toast({
+        title: "Booking Cancelled",
+        description: !quote?.paid
+          ? "Your seats have been released"
+          : result.refunded
+            ? `₹${result.refundAmount} will be refunded to your original payment method`
+            : `Your refund of ₹${result.refundAmount} could not be processed yet. Our team will complete it shortly.`,
+        variant: result.refunded ? undefined : "destructive"
+      })
+      setOpen(false)
+      onCancelled()
+    } catch (err) {
+      console.error('Error cancelling booking:', err)
+      toast({
+        title: "Cancellation Failed",
+        description: err instanceof Error ? err.message : "Could not cancel this booking. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setCancelling(false)
+    }
+  }
+
+  const refundQuote = quote?.quote
+
+  return (
+    <AlertDialog open={open} onOpenChange={handleOpenChange}>
+      <AlertDialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <XCircle className="w-4 h-4 mr-2" />
+          Cancel Booking
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Cancel {movieTitle}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Your seats will be released and can be booked by someone else.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {error ? (
+          <div className="p-3 rounded-lg text-sm bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200">
+            {error}
+          </div>
+        ) : !quote || !refundQuote ? (
+          <div className="text-center py-6">
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto"></div>
+          </div>
+        ) : !refundQuote.allowed ? (
+          <div className="p-3 rounded-lg text-sm bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200">
+            {refundQuote.reason}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {quote.paid ? (
+              <div className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span>Amount paid</span>
+                  <span>₹{quote.booking.total_amount}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Cancellation fee ({refundQuote.feePercent}%)</span>
+                  <span>-₹{refundQuote.fee}</span>
+                </div>
+                <div className="flex justify-between font-semibold border-t pt-2">
+                  <span>You get back</span>
+                  <span>₹{refundQuote.refundAmount}</span>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                This booking has not been paid for, so there is nothing to refund.
+              </p>
+            )}
+
+            <div className="p-3 bg-muted/50 rounded-lg">
+              <p className="text-sm font-medium mb-1">Refund policy</p>
+              <ul className="space-y-1 text-xs text-muted-foreground list-disc list-inside">
+                {describeRefundPolicy(quote.policy).map(line => (
+                  <li key={line}>{line}</li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={cancelling}>Keep Booking</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleConfirm}
+            disabled={cancelling || !refundQuote?.allowed}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            {cancelling ? 'Cancelling...' : 'Cancel Booking'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
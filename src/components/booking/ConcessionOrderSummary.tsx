@@ -0,0 +1,38 @@
+import { Popcorn } from 'lucide-react'
+import { Badge } from '../ui/badge'
+import { describeOrderLine, FULFILMENT_LABELS, type ConcessionOrder } from '../../lib/concessions'
+import { formatPrice } from '../../lib/price-breakdown'
+import { formatSeatLabel } from '../../lib/seats'
+
+interface ConcessionOrderSummaryProps {
+  order: ConcessionOrder
+  seats: string[]
+  showStatus?: boolean
+}
+
+// The food and drinks on a booking, as shown on the ticket, invoice and check-in screen
+export default function ConcessionOrderSummary({ order, seats, showStatus = true }: ConcessionOrderSummaryProps) {
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-2 font-medium">
+          <Popcorn className="w-4 h-4" />
+          {order.fulfilment === 'seat'
+            ? `${FULFILMENT_LABELS.seat} ${seats.map(formatSeatLabel).join(', ')}`
+            : FULFILMENT_LABELS.pickup}
+        </span>
+        {showStatus && (
+          <Badge variant={order.status === 'fulfilled' ? 'secondary' : 'outline'}>
+            {order.status === 'fulfilled' ? 'Served' : 'To serve'}
+          </Badge>
+        )}
+      </div>
+      {order.lines.map(line => (
+        <div key={`${line.itemId}:${line.sizeId}`} className="flex justify-between text-muted-foreground">
+          <span>{describeOrderLine(line)}</span>
+          <span>{formatPrice(line.unitPrice * line.quantity)}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
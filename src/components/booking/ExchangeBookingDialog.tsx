@@ -0,0 +1,108 @@
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { ArrowRightLeft, Clock } from 'lucide-react'
+import { Button } from '../ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '../ui/dialog'
+import { ExchangeError, getExchangeOptions, type ExchangeOptions } from '../../lib/exchanges'
+
+interface ExchangeBookingDialogProps {
+  bookingId: string
+  userId: string
+}
+
+export default function ExchangeBookingDialog({ bookingId, userId }: ExchangeBookingDialogProps) {
+  const navigate = useNavigate()
+  const [options, setOptions] = useState<ExchangeOptions | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleOpenChange = async (open: boolean) => {
+    if (!open) return
+
+    setOptions(null)
+    setError(null)
+    try {
+      setOptions(await getExchangeOptions(bookingId, userId))
+    } catch (err) {
+      console.error('Error loading exchange options:', err)
+      setError(err instanceof ExchangeError ? err.message : 'Could not load other shows for this booking')
+    }
+  }
+
+  return (
+    <Dialog onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <ArrowRightLeft className="w-4 h-4 mr-2" />
+          Exchange
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Change Showtime</DialogTitle>
+          <DialogDescription>
+            Pick another show, then choose your new seats. Your current booking stays valid until the new one is confirmed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <div className="p-3 rounded-lg text-sm bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200">
+            {error}
+          </div>
+        ) : !options ? (
+          <div className="text-center py-6">
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto"></div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="p-3 bg-muted/50 rounded-lg text-sm space-y-1">
+              <div className="flex justify-between">
+                <span>Credit from this booking</span>
+                <span className="font-medium">₹{options.credit}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Exchange fee</span>
+                <span className="font-medium">₹{options.policy.fee}</span>
+              </div>
+              <p className="text-xs text-muted-foreground pt-1">
+                Exchange before {options.deadline.toLocaleString()}. Pricier seats cost the difference; cheaper ones are refunded.
+              </p>
+            </div>
+
+            {options.showtimes.length === 0 ? (
+              <p className="text-center py-4 text-muted-foreground">No other upcoming shows of this film here</p>
+            ) : (
+              <div className="grid grid-cols-2 gap-2 max-h-72 overflow-y-auto">
+                {options.showtimes.map(showtime => (
+                  <Button
+                    key={showtime.id}
+                    variant="outline"
+                    className="h-auto flex-col items-start py-2"
+                    onClick={() => navigate(`/book/${showtime.id}?exchange=${bookingId}`)}
+                  >
+                    <span className="font-medium">{new Date(showtime.show_date).toLocaleDateString()}</span>
+                    <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <Clock className="w-3 h-3" />
+                      {new Date(`2000-01-01T${showtime.show_time}`).toLocaleTimeString('en-US', {
+                        hour: 'numeric',
+                        minute: '2-digit',
+                        hour12: true
+                      })}
+                      {' • '}{showtime.available_seats} seats left
+                    </span>
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,29 @@
+import { formatPrice, type PriceBreakdown } from '../../lib/price-breakdown'
+
+interface PriceBreakdownLinesProps {
+  breakdown: PriceBreakdown
+  totalLabel?: string
+}
+
+// The itemized lines shared by the seat summary, checkout, confirmation and invoice
+export default function PriceBreakdownLines({ breakdown, totalLabel = 'Total Amount' }: PriceBreakdownLinesProps) {
+  return (
+    <div className="space-y-1 text-sm">
+      {breakdown.lines.map(line => (
+        <div
+          key={line.id}
+          className={`flex justify-between ${
+            line.kind === 'tickets' ? '' : line.kind === 'discount' ? 'text-green-600' : 'text-muted-foreground'
+          }`}
+        >
+          <span>{line.label}</span>
+          <span>{line.amount < 0 ? `-${formatPrice(-line.amount)}` : formatPrice(line.amount)}</span>
+        </div>
+      ))}
+      <div className="flex justify-between font-semibold border-t pt-2 mt-2">
+        <span>{totalLabel}</span>
+        <span>{formatPrice(breakdown.total)}</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,79 @@
+import { useState } from 'react'
+import { Tag, X } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { PromotionError } from '../../lib/promotion-rules'
+import { validatePromotion } from '../../lib/promotions'
+import type { DiscountTerms } from '../../lib/price-breakdown'
+
+interface PromoCodeInputProps {
+  showtimeId: string
+  userId: string | null
+  ticketCount: number
+  applied: DiscountTerms | null
+  onChange: (terms: DiscountTerms | null) => void
+}
+
+export default function PromoCodeInput({ showtimeId, userId, ticketCount, applied, onChange }: PromoCodeInputProps) {
+  const [code, setCode] = useState('')
+  const [checking, setChecking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const applyCode = async () => {
+    if (!userId || !code.trim()) return
+
+    setChecking(true)
+    setError(null)
+    try {
+      onChange(await validatePromotion({ code, userId, showtimeId, ticketCount }))
+      setCode('')
+    } catch (error) {
+      if (error instanceof PromotionError) {
+        setError(error.message)
+      } else {
+        console.error('Error applying promo code:', error)
+        setError('Could not check this code. Please try again.')
+      }
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  if (applied) {
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center justify-between rounded-md p-2 text-sm bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200">
+          <span className="flex items-center gap-2 font-medium">
+            <Tag className="w-4 h-4" />
+            {applied.code}
+          </span>
+          <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => onChange(null)}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+        {ticketCount < applied.minTickets && (
+          <p className="text-xs text-muted-foreground">
+            Select at least {applied.minTickets} tickets for this code to apply
+          </p>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-2">
+        <Input
+          placeholder="Promo code"
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          onKeyDown={(e) => e.key === 'Enter' && applyCode()}
+        />
+        <Button variant="outline" onClick={applyCode} disabled={checking || !code.trim() || ticketCount === 0}>
+          {checking ? 'Checking...' : 'Apply'}
+        </Button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,183 @@
+import { useState, useRef } from 'react'
+import { UserMinus } from 'lucide-react'
+import { Button } from '../ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '../ui/dialog'
+import { useToast } from '../../hooks/use-toast'
+import {
+  CancellationError,
+  getSeatRemovalQuote,
+  removeSeats,
+  type CancellationActor,
+  type SeatRemovalQuote
+} from '../../lib/cancellations'
+import { formatSeatLabel } from '../../lib/seats'
+
+interface RemoveSeatsDialogProps {
+  bookingId: string
+  seats: string[]
+  actor: CancellationActor
+  onRemoved: () => void
+}
+
+export default function RemoveSeatsDialog({ bookingId, seats, actor, onRemoved }: RemoveSeatsDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [selected, setSelected] = useState<string[]>([])
+  const [quote, setQuote] = useState<SeatRemovalQuote | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [removing, setRemoving] = useState(false)
+  const { toast } = useToast()
+
+  // Re-quote on every change, since removing one half of a couple seat pulls in the other.
+  // Only the latest request may update the dialog when the customer clicks quickly.
+  const requestRef = useRef(0)
+  const removed = new Set(quote?.removedSeats || selected)
+
+  const updateSelection = async (next: string[]) => {
+    const request = ++requestRef.current
+    setSelected(next)
+    setQuote(null)
+    setError(null)
+    if (next.length === 0) return
+
+    try {
+      const result = await getSeatRemovalQuote(bookingId, next, actor)
+      if (request === requestRef.current) setQuote(result)
+    } catch (err) {
+      if (request !== requestRef.current) return
+      console.error('Error quoting seat removal:', err)
+      setError(err instanceof CancellationError ? err.message : 'Could not work out the refund for these seats')
+    }
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next)
+    if (next) updateSelection([])
+  }
+
+  const toggleSeat = (seatId: string) => {
+    if (!removed.has(seatId)) {
+      updateSelection([...selected, seatId])
+      return
+    }
+    // Deselecting either half of a couple seat puts the whole pair back
+    const unit = quote?.units[seatId] || [seatId]
+    updateSelection(selected.filter(id => !unit.includes(id)))
+  }
+
+  const handleConfirm = async () => {
+    setRemoving(true)
+    try {
+      const result = await removeSeats(bookingId, selected, actor)
+      const labels = result.removedSeats.map(formatSeatLabel).join(', ')
+      toast({
+        title: "Seats Removed",
+        description: !quote?.paid || result.refundAmount === 0
+          ? `${labels} ${result.removedSeats.length === 1 ? 'has' : 'have'} been released. A new ticket has been issued.`
+          : result.refunded
+            ? `${labels} released and ₹${result.refundAmount} will be refunded. A new ticket has been issued.`
+            : `${labels} released, but the refund of ₹${result.refundAmount} could not be processed yet. Our team will complete it shortly.`,
+        variant: result.refunded ? undefined : "destructive"
+      })
+      setOpen(false)
+      onRemoved()
+    } catch (err) {
+      console.error('Error removing seats:', err)
+      toast({
+        title: "Could Not Remove Seats",
+        description: err instanceof Error ? err.message : "Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setRemoving(false)
+    }
+  }
+
+  const refundQuote = quote?.quote
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <UserMinus className="w-4 h-4 mr-2" />
+          Remove Seats
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Remove Seats</DialogTitle>
+          <DialogDescription>
+            Choose the seats to give up. The rest of the booking stays as it is, with a new ticket.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          {seats.map(seatId => (
+            <Button
+              key={seatId}
+              size="sm"
+              variant={removed.has(seatId) ? 'destructive' : 'outline'}
+              onClick={() => toggleSeat(seatId)}
+              disabled={removing}
+            >
+              {formatSeatLabel(seatId)}
+            </Button>
+          ))}
+        </div>
+
+        {error ? (
+          <div className="p-3 rounded-lg text-sm bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200">
+            {error}
+          </div>
+        ) : selected.length === 0 ? null : !quote || !refundQuote ? (
+          <div className="text-center py-4">
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto"></div>
+          </div>
+        ) : !refundQuote.allowed ? (
+          <div className="p-3 rounded-lg text-sm bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200">
+            {refundQuote.reason}
+          </div>
+        ) : (
+          <div className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span>New booking total ({quote.remainingSeats.length} seats)</span>
+              <span>₹{quote.newTotal}</span>
+            </div>
+            {quote.paid && (
+              <>
+                <div className="flex justify-between">
+                  <span>Cancellation fee ({refundQuote.feePercent}%)</span>
+                  <span>-₹{refundQuote.fee}</span>
+                </div>
+                <div className="flex justify-between font-semibold border-t pt-2">
+                  <span>Refund</span>
+                  <span>₹{refundQuote.refundAmount}</span>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={removing}>
+            Keep Seats
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleConfirm}
+            disabled={removing || !refundQuote?.allowed}
+          >
+            {removing ? 'Removing...' : `Remove ${quote?.removedSeats.length || ''} Seat${quote?.removedSeats.length === 1 ? '' : 's'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
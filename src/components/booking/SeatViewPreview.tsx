@@ -0,0 +1,216 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Canvas, useThree } from '@react-three/fiber'
+import { Line, OrbitControls } from '@react-three/drei'
+import { Eye, Box } from 'lucide-react'
+import { Button } from '../ui/button'
+import { formatSeatLabel } from '../../lib/seats'
+import { getCategory, type SeatLayout } from '../../lib/seat-layout'
+import {
+  buildAuditorium,
+  getSeatView,
+  MIN_SIGHTLINE_CLEARANCE,
+  ROW_SPACING,
+  type Auditorium,
+  type AuditoriumSeat
+} from '../../lib/auditorium'
+
+type Vector = [number, number, number]
+type ViewMode = 'seat' | 'overview'
+
+interface SeatViewPreviewProps {
+  layout: SeatLayout
+  // The customer's selected seats; the view is shown from one of them
+  seatIds: string[]
+}
+
+const SELECTED_COLOR = '#eab308'
+const BLOCKED_COLOR = '#4b5563'
+
+// Moves the camera when the seat or mode changes; with frameloop="demand" it also asks for a redraw
+function CameraRig({ position, target }: { position: Vector; target: Vector }) {
+  const camera = useThree(state => state.camera)
+  const invalidate = useThree(state => state.invalidate)
+
+  useEffect(() => {
+    camera.position.set(...position)
+    camera.lookAt(...target)
+    invalidate()
+  }, [camera, invalidate, position, target])
+
+  return null
+}
+
+function Seat({ seat, color }: { seat: AuditoriumSeat; color: string }) {
+  const [x, y, z] = seat.position
+  const width = seat.width - 0.08
+
+  return (
+    <group position={[x, y, z]}>
+      <mesh position={[0, 0.22, 0]}>
+        <boxGeometry args={[width, 0.44, 0.5]} />
+        <meshStandardMaterial color={color} />
+      </mesh>
+      <mesh position={[0, 0.7, 0.22]}>
+        <boxGeometry args={[width, 0.55, 0.08]} />
+        <meshStandardMaterial color={color} />
+      </mesh>
+    </group>
+  )
+}
+
+function Room({ auditorium }: { auditorium: Auditorium }) {
+  // One step of raked floor under each row
+  const steps = useMemo(() => {
+    const heights = new Map<number, number>()
+    auditorium.seats.forEach(seat => heights.set(seat.position[2], seat.position[1]))
+    return [...heights].filter(([, height]) => height > 0)
+  }, [auditorium])
+
+  const { screen } = auditorium
+  return (
+    <>
+      <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0, auditorium.depth / 2]}>
+        <planeGeometry args={[auditorium.width, auditorium.depth]} />
+        <meshStandardMaterial color="#1f2937" />
+      </mesh>
+      {steps.map(([z, height]) => (
+        <mesh key={z} position={[0, height / 2, z]}>
+          <boxGeometry args={[auditorium.width, height, ROW_SPACING]} />
+          <meshStandardMaterial color="#374151" />
+        </mesh>
+      ))}
+      <mesh position={screen.center}>
+        <planeGeometry args={[screen.width, screen.height]} />
+        <meshStandardMaterial color="#e5e7eb" emissive="#9ca3af" />
+      </mesh>
+    </>
+  )
+}
+
+/**
+ * Approximate 3D view from a selected seat, built from the screen's seat
+ * layout and room dimensions. The overview mode shows the sightline from
+ * the seat to the screen and can be orbited.
+ */
+export default function SeatViewPreview({ layout, seatIds }: SeatViewPreviewProps) {
+  const [previewSeat, setPreviewSeat] = useState<string | null>(null)
+  const [mode, setMode] = useState<ViewMode>('seat')
+
+  const seatId = previewSeat && seatIds.includes(previewSeat) ? previewSeat : seatIds[seatIds.length - 1]
+  const auditorium = useMemo(() => buildAuditorium(layout), [layout])
+  const view = useMemo(() => getSeatView(layout, auditorium, seatId), [layout, auditorium, seatId])
+
+  const camera = useMemo(() => {
+    if (!view) return null
+    if (mode === 'seat') {
+      return { position: view.eye, target: auditorium.screen.center }
+    }
+    const target: Vector = [0, 1, auditorium.depth / 2]
+    return {
+      position: [auditorium.width * 0.6, auditorium.depth * 0.6 + 4, auditorium.depth + 3] as Vector,
+      target
+    }
+  }, [mode, view, auditorium])
+
+  if (!view || !camera) return null
+
+  const { screen } = auditorium
+  const screenBottom = screen.center[1] - screen.height / 2
+  const sightlines: Vector[] = [
+    [-screen.width / 2, screenBottom, 0],
+    [screen.width / 2, screenBottom, 0],
+    screen.center
+  ]
+
+  const describeTurn = (angle: number, positive: string, negative: string) =>
+    Math.abs(angle) < 1 ? null : `${Math.round(Math.abs(angle))}° ${angle > 0 ? positive : negative}`
+  const headTurn = [describeTurn(view.sideAngle, 'right', 'left'), describeTurn(view.tiltAngle, 'up', 'down')]
+    .filter(Boolean)
+    .join(', ')
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap gap-1">
+          {seatIds.length > 1 && seatIds.map(id => (
+            <Button
+              key={id}
+              size="sm"
+              variant={id === seatId ? 'default' : 'outline'}
+              onClick={() => setPreviewSeat(id)}
+            >
+              {formatSeatLabel(id)}
+            </Button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          <Button size="sm" variant={mode === 'seat' ? 'default' : 'outline'} onClick={() => setMode('seat')}>
+            <Eye className="w-4 h-4 mr-2" />
+            From Seat
+          </Button>
+          <Button size="sm" variant={mode === 'overview' ? 'default' : 'outline'} onClick={() => setMode('overview')}>
+            <Box className="w-4 h-4 mr-2" />
+            Overview
+          </Button>
+        </div>
+      </div>
+
+      <div className="h-72 rounded-lg overflow-hidden bg-black">
+        <Canvas frameloop="demand" dpr={[1, 2]} camera={{ fov: 60, near: 0.1, far: 200 }}>
+          <color attach="background" args={['#030712']} />
+          <ambientLight intensity={0.6} />
+          <pointLight position={[0, screen.center[1], 2]} intensity={20} />
+          <CameraRig position={camera.position} target={camera.target} />
+          {mode === 'overview' && <OrbitControls target={camera.target} maxPolarAngle={Math.PI / 2.1} />}
+
+          <Room auditorium={auditorium} />
+          {auditorium.seats.map(seat => (
+            <Seat
+              key={seat.ids[0]}
+              seat={seat}
+              color={
+                seat.ids.some(id => seatIds.includes(id))
+                  ? SELECTED_COLOR
+                  : seat.blocked
+                    ? BLOCKED_COLOR
+                    : getCategory(layout, seat.category).color
+              }
+            />
+          ))}
+
+          {mode === 'overview' && sightlines.map((point, index) => (
+            <Line key={index} points={[view.eye, point]} color={SELECTED_COLOR} lineWidth={1.5} dashed dashSize={0.3} gapSize={0.2} />
+          ))}
+        </Canvas>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-center text-xs">
+        <div className="p-2 rounded-md bg-muted/50">
+          <div className="text-muted-foreground">Distance</div>
+          <div className="font-semibold">{view.distance.toFixed(1)} m</div>
+        </div>
+        <div className="p-2 rounded-md bg-muted/50">
+          <div className="text-muted-foreground">Screen fills</div>
+          <div className="font-semibold">{Math.round(view.screenAngle)}° of view</div>
+        </div>
+        <div className="p-2 rounded-md bg-muted/50">
+          <div className="text-muted-foreground">Head turn</div>
+          <div className="font-semibold">{headTurn || 'Straight ahead'}</div>
+        </div>
+        <div className="p-2 rounded-md bg-muted/50">
+          <div className="text-muted-foreground">Row in front</div>
+          <div className="font-semibold">
+            {view.clearance === null
+              ? 'None'
+              : view.clearance >= MIN_SIGHTLINE_CLEARANCE
+                ? 'Clear view'
+                : 'May block lower screen'}
+          </div>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground text-center">
+        Approximate view based on the seating plan. The actual room may differ.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,98 @@
+import { useState, useEffect, useRef } from 'react'
+import { Maximize2 } from 'lucide-react'
+import { renderQrDataUrl, type TicketCode } from '../../lib/ticket-qr'
+
+interface TicketQrCodeProps {
+  code: TicketCode
+  // Displayed width in CSS pixels
+  size?: number
+  // Greys the code out once its seats have been admitted
+  checkedIn?: boolean
+}
+
+// Sized so the full-screen code still fits a phone held upright
+const FULL_SCREEN_SIZE = 'min(88vw, 70vh)'
+
+/**
+ * A scannable ticket code. Tapping it opens a full-screen view on a white
+ * background that keeps the screen awake, so gate scanners read it easily
+ * from a dimmed phone.
+ */
+export default function TicketQrCode({ code, size = 192, checkedIn = false }: TicketQrCodeProps) {
+  const [src, setSrc] = useState<string | null>(null)
+  const [expanded, setExpanded] = useState(false)
+  const overlayRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    // Rendered at the full-screen size so the same image stays sharp when expanded
+    const pixels = Math.ceil(Math.max(size, Math.min(window.innerWidth, window.innerHeight)) * (window.devicePixelRatio || 1))
+    renderQrDataUrl(code.value, pixels)
+      .then(url => {
+        if (!cancelled) setSrc(url)
+      })
+      .catch(error => console.error('Error rendering QR code:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [code.value, size])
+
+  useEffect(() => {
+    if (!expanded) return
+
+    let wakeLock: WakeLockSentinel | null = null
+    overlayRef.current?.requestFullscreen?.().catch(() => undefined)
+    navigator.wakeLock?.request('screen')
+      .then(lock => {
+        wakeLock = lock
+      })
+      .catch(() => undefined)
+
+    const handleFullscreenExit = () => {
+      if (!document.fullscreenElement) setExpanded(false)
+    }
+    document.addEventListener('fullscreenchange', handleFullscreenExit)
+
+    return () => {
+      document.removeEventListener('fullscreenchange', handleFullscreenExit)
+      wakeLock?.release().catch(() => undefined)
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => undefined)
+    }
+  }, [expanded])
+
+  return (
+    <div className="space-y-2">
+      <button
+        type="button"
+        onClick={() => setExpanded(true)}
+        disabled={!src || checkedIn}
+        className={`relative block mx-auto bg-white rounded-lg border p-2 ${checkedIn ? 'opacity-40' : ''}`}
+        style={{ width: size + 16, height: size + 16 }}
+        aria-label={`Show ${code.label} code full screen`}
+      >
+        {src ? (
+          <img src={src} alt={`Ticket code for ${code.label}`} width={size} height={size} />
+        ) : (
+          <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto"></div>
+        )}
+        <Maximize2 className="absolute bottom-1 right-1 w-4 h-4 text-gray-400" />
+      </button>
+      <p className="text-sm font-medium">
+        {code.label}
+        {checkedIn && <span className="text-muted-foreground"> · Checked in</span>}
+      </p>
+
+      {expanded && src && (
+        <div
+          ref={overlayRef}
+          onClick={() => setExpanded(false)}
+          className="fixed inset-0 z-50 flex flex-col items-center justify-center gap-6 bg-white text-black"
+        >
+          <img src={src} alt={`Ticket code for ${code.label}`} style={{ width: FULL_SCREEN_SIZE, height: FULL_SCREEN_SIZE }} />
+          <p className="text-2xl font-semibold">{code.label}</p>
+          <p className="text-sm text-gray-500">Turn your screen brightness up • Tap anywhere to close</p>
+        </div>
+      )}
+    </div>
+  )
+}
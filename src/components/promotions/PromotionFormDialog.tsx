@@ -0,0 +1,316 @@
+import { useState, useEffect } from 'react'
+import { blink } from '../../blink/client'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Textarea } from '../ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '../ui/dialog'
+import { useToast } from '../../hooks/use-toast'
+import { DAY_NAMES, PromotionError } from '../../lib/promotion-rules'
+import { createPromotion, type PromotionInput } from '../../lib/promotions'
+import { SCREEN_FORMATS } from '../../lib/seat-layout'
+
+interface PromotionFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Set for theater admins, whose offers only run at their theater
+  theaterId: string | null
+  onCreated: () => void
+}
+
+interface Option {
+  id: string
+  name: string
+}
+
+const EMPTY_PROMOTION: PromotionInput = {
+  code: '',
+  description: '',
+  discountType: 'percent',
+  discountValue: 10,
+  maxDiscount: null,
+  minTickets: 1,
+  movieIds: [],
+  theaterIds: [],
+  daysOfWeek: [],
+  formats: [],
+  perUserLimit: 1,
+  usageLimit: null,
+  validFrom: null,
+  validUntil: null
+}
+
+const toOptionalNumber = (value: string) => (value === '' ? null : Math.max(0, Number(value) || 0))
+
+const toggle = <T,>(list: T[], item: T) =>
+  list.includes(item) ? list.filter(other => other !== item) : [...list, item]
+
+export default function PromotionFormDialog({ open, onOpenChange, theaterId, onCreated }: PromotionFormDialogProps) {
+  const [draft, setDraft] = useState<PromotionInput>(EMPTY_PROMOTION)
+  const [movies, setMovies] = useState<Option[]>([])
+  const [theaters, setTheaters] = useState<Option[]>([])
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (!open) return
+    setDraft(EMPTY_PROMOTION)
+
+    const loadOptions = async () => {
+      try {
+        const [movieList, theaterList] = await Promise.all([
+          blink.db.movies.list({ orderBy: { title: 'asc' } }),
+          theaterId ? Promise.resolve([]) : blink.db.theaters.list({ where: { status: 'approved' }, orderBy: { name: 'asc' } })
+        ])
+        setMovies(movieList.map((movie: { id: string; title: string }) => ({ id: movie.id, name: movie.title })))
+        setTheaters(theaterList.map((theater: { id: string; name: string }) => ({ id: theater.id, name: theater.name })))
+      } catch (error) {
+        console.error('Error loading promotion options:', error)
+      }
+    }
+    loadOptions()
+  }, [open, theaterId])
+
+  const update = (changes: Partial<PromotionInput>) => setDraft(current => ({ ...current, ...changes }))
+
+  const savePromotion = async () => {
+    setSaving(true)
+    try {
+      const user = await blink.auth.me()
+      const promotion = await createPromotion(draft, user.id, theaterId)
+      toast({
+        title: "Promotion Created",
+        description: `Customers can now use ${promotion.code}`
+      })
+      onOpenChange(false)
+      onCreated()
+    } catch (error) {
+      if (!(error instanceof PromotionError)) {
+        console.error('Error creating promotion:', error)
+      }
+      toast({
+        title: "Could Not Create Promotion",
+        description: error instanceof PromotionError ? error.message : "Please try again",
+        variant: "destructive"
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const renderToggles = <T extends string | number>(
+    options: { value: T; label: string }[],
+    selected: T[],
+    onChange: (next: T[]) => void,
+    emptyLabel: string
+  ) => (
+    <div className="space-y-1">
+      <div className="flex flex-wrap gap-2">
+        {options.map(option => (
+          <Button
+            key={option.value}
+            type="button"
+            size="sm"
+            variant={selected.includes(option.value) ? 'default' : 'outline'}
+            onClick={() => onChange(toggle(selected, option.value))}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+      {selected.length === 0 && <p className="text-xs text-muted-foreground">{emptyLabel}</p>}
+    </div>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Promotion</DialogTitle>
+          <DialogDescription>
+            Customers enter the code in their booking summary. Leave a restriction empty to apply it everywhere.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="promo-code">Code</Label>
+              <Input
+                id="promo-code"
+                placeholder="WEEKEND20"
+                value={draft.code}
+                onChange={(e) => update({ code: e.target.value.toUpperCase() })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promo-min-tickets">Minimum tickets</Label>
+              <Input
+                id="promo-min-tickets"
+                type="number"
+                min={1}
+                value={draft.minTickets}
+                onChange={(e) => update({ minTickets: Math.max(1, Number(e.target.value) || 1) })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="promo-description">Description</Label>
+            <Textarea
+              id="promo-description"
+              rows={2}
+              value={draft.description}
+              onChange={(e) => update({ description: e.target.value })}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Discount</Label>
+              <Select
+                value={draft.discountType}
+                onValueChange={(discountType) => update({ discountType: discountType as PromotionInput['discountType'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percent">Percent off</SelectItem>
+                  <SelectItem value="flat">Flat amount off</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promo-value">{draft.discountType === 'percent' ? 'Percent' : 'Amount (₹)'}</Label>
+              <Input
+                id="promo-value"
+                type="number"
+                min={0}
+                value={draft.discountValue}
+                onChange={(e) => update({ discountValue: Math.max(0, Number(e.target.value) || 0) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promo-max">Max discount (₹)</Label>
+              <Input
+                id="promo-max"
+                type="number"
+                min={0}
+                placeholder="No cap"
+                disabled={draft.discountType === 'flat'}
+                value={draft.maxDiscount ?? ''}
+                onChange={(e) => update({ maxDiscount: toOptionalNumber(e.target.value) })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="promo-from">Valid from</Label>
+              <Input
+                id="promo-from"
+                type="date"
+                value={draft.validFrom?.slice(0, 10) ?? ''}
+                onChange={(e) => update({ validFrom: e.target.value ? new Date(`${e.target.value}T00:00`).toISOString() : null })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promo-until">Valid until</Label>
+              <Input
+                id="promo-until"
+                type="date"
+                value={draft.validUntil?.slice(0, 10) ?? ''}
+                onChange={(e) => update({ validUntil: e.target.value ? new Date(`${e.target.value}T23:59:59`).toISOString() : null })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="promo-per-user">Uses per customer</Label>
+              <Input
+                id="promo-per-user"
+                type="number"
+                min={0}
+                placeholder="Unlimited"
+                value={draft.perUserLimit ?? ''}
+                onChange={(e) => update({ perUserLimit: toOptionalNumber(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promo-usage">Total uses</Label>
+              <Input
+                id="promo-usage"
+                type="number"
+                min={0}
+                placeholder="Unlimited"
+                value={draft.usageLimit ?? ''}
+                onChange={(e) => update({ usageLimit: toOptionalNumber(e.target.value) })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Show days</Label>
+            {renderToggles(
+              DAY_NAMES.map((label, value) => ({ value, label })),
+              draft.daysOfWeek,
+              (daysOfWeek) => update({ daysOfWeek }),
+              'Every day'
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Formats</Label>
+            {renderToggles(
+              SCREEN_FORMATS.map(format => ({ value: format, label: format })),
+              draft.formats,
+              (formats) => update({ formats }),
+              'Every format'
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Movies</Label>
+            {renderToggles(
+              movies.map(movie => ({ value: movie.id, label: movie.name })),
+              draft.movieIds,
+              (movieIds) => update({ movieIds }),
+              'Every movie'
+            )}
+          </div>
+
+          {!theaterId && (
+            <div className="space-y-2">
+              <Label>Theaters</Label>
+              {renderToggles(
+                theaters.map(theater => ({ value: theater.id, label: theater.name })),
+                draft.theaterIds,
+                (theaterIds) => update({ theaterIds }),
+                'Every theater'
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={savePromotion} disabled={saving || !draft.code.trim()}>
+            {saving ? 'Creating...' : 'Create Promotion'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,175 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Plus, Tag } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Badge } from '../ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Switch } from '../ui/switch'
+import { useToast } from '../../hooks/use-toast'
+import { DAY_NAMES, parseList } from '../../lib/promotion-rules'
+import {
+  describePromotion,
+  fetchPromotionRedemptions,
+  listPromotions,
+  setPromotionActive,
+  type Promotion,
+  type PromotionRedemptions
+} from '../../lib/promotions'
+import { formatPrice } from '../../lib/price-breakdown'
+import PromotionFormDialog from './PromotionFormDialog'
+
+interface PromotionManagerProps {
+  // A theater admin's theater; null on the platform dashboard, which manages every offer
+  theaterId?: string | null
+}
+
+function describeRestrictions(promotion: Promotion) {
+  const restrictions: string[] = []
+  const movies = parseList(promotion.movie_ids)
+  const theaters = parseList(promotion.theater_ids)
+  const days = parseList<number>(promotion.days_of_week)
+  const formats = parseList(promotion.formats)
+  if (movies.length > 0) restrictions.push(`${movies.length} movie${movies.length === 1 ? '' : 's'}`)
+  if (theaters.length > 0 && !promotion.owner_theater_id) {
+    restrictions.push(`${theaters.length} theater${theaters.length === 1 ? '' : 's'}`)
+  }
+  if (days.length > 0) restrictions.push(days.map(day => DAY_NAMES[day]).join(', '))
+  if (formats.length > 0) restrictions.push(formats.join(', '))
+  return restrictions
+}
+
+export default function PromotionManager({ theaterId }: PromotionManagerProps) {
+  const [promotions, setPromotions] = useState<Promotion[]>([])
+  const [redemptions, setRedemptions] = useState<Record<string, PromotionRedemptions>>({})
+  const [loading, setLoading] = useState(true)
+  const [formOpen, setFormOpen] = useState(false)
+  const { toast } = useToast()
+
+  const fetchPromotions = useCallback(async () => {
+    if (theaterId === undefined) return
+    try {
+      const list = await listPromotions(theaterId)
+      setPromotions(list)
+      setRedemptions(await fetchPromotionRedemptions(list.map(promotion => promotion.id)))
+    } catch (error) {
+      console.error('Error fetching promotions:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [theaterId])
+
+  useEffect(() => {
+    fetchPromotions()
+  }, [fetchPromotions])
+
+  const toggleActive = async (promotion: Promotion, active: boolean) => {
+    try {
+      await setPromotionActive(promotion.id, active)
+      setPromotions(current => current.map(other => (other.id === promotion.id ? { ...other, is_active: active } : other)))
+    } catch (error) {
+      console.error('Error updating promotion:', error)
+      toast({
+        title: "Update Failed",
+        description: "Could not update this promotion. Please try again.",
+        variant: "destructive"
+      })
+    }
+  }
+
+  if (theaterId === undefined) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Promotions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-center py-12 text-muted-foreground">No theater is linked to your account</p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Promotions</CardTitle>
+          <Button onClick={() => setFormOpen(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Promotion
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : promotions.length === 0 ? (
+          <div className="text-center py-12">
+            <Tag className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No promotions yet</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {promotions.map(promotion => {
+              const usage = redemptions[promotion.id]
+              const expired = !!promotion.valid_until && new Date(promotion.valid_until) < new Date()
+              return (
+                <div key={promotion.id} className="p-4 border rounded-lg space-y-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <h3 className="font-semibold font-mono">{promotion.code}</h3>
+                        {expired && <Badge variant="secondary">Expired</Badge>}
+                        {!promotion.owner_theater_id && !theaterId && <Badge variant="outline">Platform</Badge>}
+                      </div>
+                      <p className="text-sm">{describePromotion(promotion)}</p>
+                      {promotion.description && (
+                        <p className="text-sm text-muted-foreground">{promotion.description}</p>
+                      )}
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {[
+                          ...describeRestrictions(promotion),
+                          promotion.valid_from && `from ${new Date(promotion.valid_from).toLocaleDateString()}`,
+                          promotion.valid_until && `until ${new Date(promotion.valid_until).toLocaleDateString()}`,
+                          promotion.per_user_limit && `${promotion.per_user_limit} per customer`
+                        ].filter(Boolean).join(' • ') || 'No restrictions'}
+                      </p>
+                    </div>
+                    <Switch
+                      checked={Number(promotion.is_active) > 0}
+                      onCheckedChange={(active) => toggleActive(promotion, active)}
+                    />
+                  </div>
+                  <div className="grid grid-cols-3 gap-4 text-sm">
+                    <div>
+                      <span className="text-muted-foreground">Redeemed:</span>
+                      <p className="font-medium">
+                        {usage?.bookings || 0}{promotion.usage_limit ? ` / ${promotion.usage_limit}` : ''} bookings
+                      </p>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Discount given:</span>
+                      <p className="font-medium">{formatPrice(usage?.discount || 0)}</p>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Revenue:</span>
+                      <p className="font-medium">{formatPrice(usage?.revenue || 0)}</p>
+                    </div>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <PromotionFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        theaterId={theaterId}
+        onCreated={fetchPromotions}
+      />
+    </Card>
+  )
+}
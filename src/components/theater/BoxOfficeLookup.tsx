@@ -0,0 +1,177 @@
+import { useState } from 'react'
+import { Search, Ticket } from 'lucide-react'
+import { blink } from '../../blink/client'
+import { Button } from '../ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Input } from '../ui/input'
+import { Badge } from '../ui/badge'
+import { useToast } from '../../hooks/use-toast'
+import { BOOKING_STATUS_LABELS, getBookingStatus } from '../../lib/booking-state'
+import type { Booking } from '../../lib/bookings'
+import { getShowStart } from '../../lib/refund-policy'
+import { formatSeatLabel, parseSeats } from '../../lib/seats'
+import { decodeTicketQr } from '../../lib/ticket-qr'
+import { isSignedTicketCode } from '../../lib/signed-tickets'
+import CancelBookingDialog from '../booking/CancelBookingDialog'
+import RemoveSeatsDialog from '../booking/RemoveSeatsDialog'
+
+interface LookupResult {
+  booking: Booking
+  movieTitle: string
+  customerName: string
+  showDate: string
+  showTime: string
+}
+
+interface BoxOfficeLookupProps {
+  theaterId?: string
+}
+
+export default function BoxOfficeLookup({ theaterId }: BoxOfficeLookupProps) {
+  const [query, setQuery] = useState('')
+  const [result, setResult] = useState<LookupResult | null>(null)
+  const [searching, setSearching] = useState(false)
+  const { toast } = useToast()
+
+  const lookUp = async (reference: string) => {
+    if (!theaterId || !reference) return
+
+    setSearching(true)
+    try {
+      // Staff can search by booking ID or by a scanned ticket code, including seat tickets
+      const { qrCode } = decodeTicketQr(reference)
+      const where = qrCode.startsWith('QR_') || isSignedTicketCode(qrCode) ? { qr_code: qrCode } : { id: reference }
+      const bookings = (await blink.db.bookings.list({ where, limit: 1 })) as Booking[]
+      const booking = bookings[0]
+      const showtimes = booking
+        ? await blink.db.showtimes.list({ where: { id: booking.showtime_id }, limit: 1 })
+        : []
+      const showtime = showtimes[0]
+
+      if (!booking || !showtime || showtime.theater_id !== theaterId) {
+        setResult(null)
+        toast({
+          title: "Booking Not Found",
+          description: "No booking at this theater matches that reference",
+          variant: "destructive"
+        })
+        return
+      }
+
+      const [movies, users] = await Promise.all([
+        blink.db.movies.list({ where: { id: showtime.movie_id }, limit: 1 }),
+        blink.db.users.list({ where: { id: booking.user_id }, limit: 1 })
+      ])
+
+      setResult({
+        booking,
+        movieTitle: movies[0]?.title || 'Unknown Movie',
+        customerName: users[0]?.name || 'Unknown User',
+        showDate: showtime.show_date,
+        showTime: showtime.show_time
+      })
+    } catch (error) {
+      console.error('Error looking up booking:', error)
+      toast({
+        title: "Lookup Failed",
+        description: "Could not load the booking. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  // Re-read after a change so staff see the new seats, total and ticket
+  const refresh = () => {
+    if (result) lookUp(result.booking.id)
+  }
+
+  const status = result ? getBookingStatus(result.booking) : null
+  const seats = result ? parseSeats(result.booking) : []
+  const upcoming = result ? getShowStart({ show_date: result.showDate, show_time: result.showTime }) > new Date() : false
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Box Office</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!theaterId ? (
+          <p className="text-center py-12 text-muted-foreground">No theater is linked to your account</p>
+        ) : (
+          <>
+            <div className="flex gap-2">
+              <Input
+                placeholder="Booking ID or ticket code"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && lookUp(query.trim())}
+              />
+              <Button onClick={() => lookUp(query.trim())} disabled={searching || !query.trim()}>
+                <Search className="w-4 h-4 mr-2" />
+                {searching ? 'Searching...' : 'Find Booking'}
+              </Button>
+            </div>
+
+            {result && status ? (
+              <div className="p-4 border rounded-lg space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h3 className="font-semibold">{result.movieTitle}</h3>
+                    <p className="text-sm text-muted-foreground">
+                      {result.customerName} • {new Date(result.showDate).toLocaleDateString()} •{' '}
+                      {new Date(`2000-01-01T${result.showTime}`).toLocaleTimeString('en-US', {
+                        hour: 'numeric',
+                        minute: '2-digit',
+                        hour12: true
+                      })}
+                    </p>
+                  </div>
+                  <Badge variant="secondary">{BOOKING_STATUS_LABELS[status] || status}</Badge>
+                </div>
+
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="font-medium">Seats:</span>
+                  <div className="flex flex-wrap gap-1">
+                    {seats.map(seatId => (
+                      <Badge key={seatId} variant="outline">{formatSeatLabel(seatId)}</Badge>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span>Total</span>
+                  <span className="font-medium">₹{result.booking.total_amount}</span>
+                </div>
+
+                {upcoming && (status === 'confirmed' || status === 'pending_payment') && (
+                  <div className="flex gap-2 pt-2">
+                    {status === 'confirmed' && seats.length > 1 && (
+                      <RemoveSeatsDialog
+                        bookingId={result.booking.id}
+                        seats={seats}
+                        actor={{ theaterId }}
+                        onRemoved={refresh}
+                      />
+                    )}
+                    <CancelBookingDialog
+                      bookingId={result.booking.id}
+                      actor={{ theaterId }}
+                      movieTitle={result.movieTitle}
+                      onCancelled={refresh}
+                    />
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="text-center py-12">
+                <Ticket className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">Look up a booking to change or cancel it</p>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,162 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import QrReader, { type QrScanResult } from 'react-qr-scanner'
+import { CheckCircle, Flashlight, FlashlightOff, XCircle } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+
+interface CameraScannerProps {
+  onScan: (value: string) => void
+  // Reads are ignored while the last one is being handled or its result is on screen
+  paused: boolean
+  // Colours the viewfinder with the last scan's outcome
+  outcome: 'success' | 'failure' | null
+}
+
+// A code held in front of the camera is read many times a second; it only counts
+// again once it has been out of view this long
+const SAME_CODE_COOLDOWN_MS = 4000
+const DEFAULT_CAMERA = 'default'
+
+const getCameraError = (error: Error) =>
+  error.name === 'NotAllowedError'
+    ? 'Camera access was blocked. Allow it in your browser settings, or enter codes manually.'
+    : 'Could not start the camera. Check that one is connected, or enter codes manually.'
+
+/**
+ * A continuously running QR scanner for the check-in gate, with a camera
+ * picker and, where the camera has one, a torch toggle for dark foyers.
+ */
+export default function CameraScanner({ onScan, paused, outcome }: CameraScannerProps) {
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([])
+  const [cameraId, setCameraId] = useState(DEFAULT_CAMERA)
+  const [torchSupported, setTorchSupported] = useState(false)
+  const [torchOn, setTorchOn] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const lastReadRef = useRef<{ value: string; at: number } | null>(null)
+  // The reader restarts its camera whenever its callbacks change, so they read these refs instead
+  const onScanRef = useRef(onScan)
+  const pausedRef = useRef(paused)
+
+  useEffect(() => {
+    onScanRef.current = onScan
+    pausedRef.current = paused
+  }, [onScan, paused])
+
+  const getTrack = () => {
+    const stream = containerRef.current?.querySelector('video')?.srcObject as MediaStream | null | undefined
+    return stream?.getVideoTracks()[0]
+  }
+
+  const handleLoad = useCallback(() => {
+    setError(null)
+    setTorchOn(false)
+    const capabilities = getTrack()?.getCapabilities?.() ?? {}
+    setTorchSupported('torch' in capabilities)
+    // Camera names are only available once permission has been granted
+    navigator.mediaDevices.enumerateDevices()
+      .then(devices => setCameras(devices.filter(device => device.kind === 'videoinput' && device.deviceId)))
+      .catch(error => console.error('Error listing cameras:', error))
+  }, [])
+
+  const handleError = useCallback((error: Error) => {
+    console.error('Error starting camera:', error)
+    setError(getCameraError(error))
+  }, [])
+
+  const handleScan = useCallback((result: QrScanResult | null) => {
+    const value = result?.text?.trim()
+    if (!value) return
+
+    const now = Date.now()
+    const last = lastReadRef.current
+    lastReadRef.current = { value, at: now }
+    if (pausedRef.current || (last?.value === value && now - last.at < SAME_CODE_COOLDOWN_MS)) return
+    onScanRef.current(value)
+  }, [])
+
+  const toggleTorch = async () => {
+    const track = getTrack()
+    if (!track) return
+    try {
+      // torch is not in the DOM typings yet
+      await track.applyConstraints({ advanced: [{ torch: !torchOn } as MediaTrackConstraintSet] })
+      setTorchOn(!torchOn)
+    } catch (error) {
+      console.error('Error toggling torch:', error)
+      setTorchSupported(false)
+    }
+  }
+
+  const constraints: MediaStreamConstraints = {
+    audio: false,
+    video: cameraId === DEFAULT_CAMERA ? { facingMode: 'environment' } : { deviceId: { exact: cameraId } }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div
+        ref={containerRef}
+        className={`relative overflow-hidden rounded-lg border-4 bg-black aspect-square ${
+          outcome === 'success' ? 'border-green-500' : outcome === 'failure' ? 'border-red-500' : 'border-transparent'
+        }`}
+      >
+        {error ? (
+          <p className="absolute inset-0 flex items-center justify-center p-6 text-center text-sm text-white">{error}</p>
+        ) : (
+          <QrReader
+            constraints={constraints}
+            onScan={handleScan}
+            onLoad={handleLoad}
+            onError={handleError}
+            className="w-full h-full object-cover"
+          />
+        )}
+        {outcome && (
+          <div className={`absolute inset-0 flex items-center justify-center ${
+            outcome === 'success' ? 'bg-green-500/40' : 'bg-red-500/40'
+          }`}>
+            {outcome === 'success' ? (
+              <CheckCircle className="w-24 h-24 text-white" />
+            ) : (
+              <XCircle className="w-24 h-24 text-white" />
+            )}
+          </div>
+        )}
+        {!outcome && !error && (
+          <div className="pointer-events-none absolute inset-[15%] rounded-lg border-2 border-white/70"></div>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <Select
+          value={cameraId}
+          onValueChange={(value) => {
+            setError(null)
+            setCameraId(value)
+          }}
+        >
+          <SelectTrigger className="flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT_CAMERA}>Rear camera</SelectItem>
+            {cameras.map((camera, index) => (
+              <SelectItem key={camera.deviceId} value={camera.deviceId}>
+                {camera.label || `Camera ${index + 1}`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          onClick={toggleTorch}
+          disabled={!torchSupported}
+          aria-label={torchOn ? 'Turn torch off' : 'Turn torch on'}
+        >
+          {torchOn ? <FlashlightOff className="w-4 h-4" /> : <Flashlight className="w-4 h-4" />}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+import { useState, useEffect, useCallback } from 'react'
+import { blink } from '../../blink/client'
+import { Button } from '../ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { useToast } from '../../hooks/use-toast'
+import { DEFAULT_CHECK_IN_POLICY, parseCheckInPolicy, type CheckInPolicy } from '../../lib/check-in'
+
+interface CheckInPolicySettingsProps {
+  theaterId?: string
+}
+
+export default function CheckInPolicySettings({ theaterId }: CheckInPolicySettingsProps) {
+  const [policy, setPolicy] = useState<CheckInPolicy>(DEFAULT_CHECK_IN_POLICY)
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  const fetchPolicy = useCallback(async () => {
+    if (!theaterId) return
+    try {
+      const theaters = await blink.db.theaters.list({ where: { id: theaterId }, limit: 1 })
+      setPolicy(parseCheckInPolicy(theaters[0]?.check_in_policy))
+    } catch (error) {
+      console.error('Error fetching check-in policy:', error)
+    }
+  }, [theaterId])
+
+  useEffect(() => {
+    fetchPolicy()
+  }, [fetchPolicy])
+
+  const savePolicy = async () => {
+    if (!theaterId) return
+
+    setSaving(true)
+    try {
+      await blink.db.theaters.update(theaterId, { check_in_policy: JSON.stringify(policy) })
+      toast({
+        title: "Check-in Policy Saved",
+        description: "Scanners use the new window from their next scan"
+      })
+    } catch (error) {
+      console.error('Error saving check-in policy:', error)
+      toast({
+        title: "Save Failed",
+        description: "Could not save the check-in policy. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Check-in Window</CardTitle>
+          <Button onClick={savePolicy} disabled={saving || !theaterId}>
+            {saving ? 'Saving...' : 'Save Policy'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!theaterId ? (
+          <p className="text-center py-12 text-muted-foreground">No theater is linked to your account</p>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="check-in-opens">Check-in opens (minutes before show)</Label>
+              <Input
+                id="check-in-opens"
+                type="number"
+                min={0}
+                value={policy.opensMinutesBefore}
+                onChange={(e) => setPolicy({ ...policy, opensMinutesBefore: Math.max(0, Number(e.target.value) || 0) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="check-in-closes">Check-in closes (minutes after start)</Label>
+              <Input
+                id="check-in-closes"
+                type="number"
+                min={0}
+                value={policy.closesMinutesAfter}
+                onChange={(e) => setPolicy({ ...policy, closesMinutesAfter: Math.max(0, Number(e.target.value) || 0) })}
+              />
+            </div>
+            <p className="text-sm text-muted-foreground md:col-span-2">
+              Tickets scanned outside this window, on the wrong day, or at the wrong screen are turned away unless
+              an admin admits them with a reason. Tickets for other theaters are always rejected.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
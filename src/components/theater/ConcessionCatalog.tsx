@@ -0,0 +1,307 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Edit, Plus, Popcorn, Trash2 } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Badge } from '../ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Switch } from '../ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '../ui/dialog'
+import { useToast } from '../../hooks/use-toast'
+import {
+  CONCESSION_CATEGORIES,
+  deleteConcessionItem,
+  fetchCatalog,
+  parseComboItems,
+  saveConcessionItem,
+  setItemAvailable,
+  type ConcessionCategory,
+  type ConcessionItem,
+  type ConcessionItemInput
+} from '../../lib/concessions'
+import { ConcessionError, isItemAvailable, parseSizes } from '../../lib/concession-pricing'
+import { formatPrice } from '../../lib/price-breakdown'
+
+interface ConcessionCatalogProps {
+  theaterId?: string
+}
+
+interface ItemDraft extends ConcessionItemInput {
+  id?: string
+}
+
+const newSize = (name = '', price = 0) => ({ id: `size_${crypto.randomUUID()}`, name, price })
+
+export default function ConcessionCatalog({ theaterId }: ConcessionCatalogProps) {
+  const [items, setItems] = useState<ConcessionItem[]>([])
+  const [draft, setDraft] = useState<ItemDraft | null>(null)
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  const fetchItems = useCallback(async () => {
+    if (!theaterId) return
+    try {
+      setItems(await fetchCatalog(theaterId))
+    } catch (error) {
+      console.error('Error fetching concessions:', error)
+    }
+  }, [theaterId])
+
+  useEffect(() => {
+    fetchItems()
+  }, [fetchItems])
+
+  const openEditor = (item?: ConcessionItem) => {
+    setDraft(item
+      ? {
+          id: item.id,
+          name: item.name,
+          description: item.description || '',
+          category: item.category,
+          sizes: parseSizes(item),
+          comboItems: parseComboItems(item)
+        }
+      : { name: '', description: '', category: 'snacks', sizes: [newSize()], comboItems: [] })
+  }
+
+  const updateDraft = (changes: Partial<ItemDraft>) => setDraft(current => current && { ...current, ...changes })
+
+  const handleSave = async () => {
+    if (!draft || !theaterId) return
+
+    setSaving(true)
+    try {
+      await saveConcessionItem(theaterId, draft, draft.id)
+      toast({
+        title: "Item Saved",
+        description: `${draft.name.trim()} is on the menu`
+      })
+      setDraft(null)
+      fetchItems()
+    } catch (error) {
+      if (!(error instanceof ConcessionError)) {
+        console.error('Error saving concession item:', error)
+      }
+      toast({
+        title: "Save Failed",
+        description: error instanceof ConcessionError ? error.message : "Could not save this item. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const toggleAvailable = async (item: ConcessionItem, available: boolean) => {
+    try {
+      await setItemAvailable(item.id, available)
+      setItems(current => current.map(other => (other.id === item.id ? { ...other, is_available: available } : other)))
+    } catch (error) {
+      console.error('Error updating concession item:', error)
+    }
+  }
+
+  const handleDelete = async (item: ConcessionItem) => {
+    try {
+      await deleteConcessionItem(item.id)
+      setItems(current => current.filter(other => other.id !== item.id))
+    } catch (error) {
+      console.error('Error deleting concession item:', error)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Food &amp; Beverages</CardTitle>
+          <Button onClick={() => openEditor()} disabled={!theaterId}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Item
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!theaterId ? (
+          <p className="text-center py-12 text-muted-foreground">No theater is linked to your account</p>
+        ) : items.length === 0 ? (
+          <div className="text-center py-12">
+            <Popcorn className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No items on the menu yet</p>
+            <p className="text-sm text-muted-foreground mt-2">
+              Customers are offered snacks after choosing their seats once you add some
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {CONCESSION_CATEGORIES.map(category => {
+              const categoryItems = items.filter(item => item.category === category.id)
+              if (categoryItems.length === 0) return null
+              return (
+                <div key={category.id} className="space-y-2">
+                  <h3 className="font-semibold">{category.name}</h3>
+                  {categoryItems.map(item => (
+                    <div key={item.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+                      <div>
+                        <p className="font-medium">{item.name}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {parseSizes(item)
+                            .map(size => (size.name ? `${size.name} ${formatPrice(size.price)}` : formatPrice(size.price)))
+                            .join(' • ')}
+                        </p>
+                        {parseComboItems(item).length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {parseComboItems(item).map(content => (
+                              <Badge key={content} variant="secondary">{content}</Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs text-muted-foreground">
+                          {isItemAvailable(item) ? 'Available' : 'Sold out'}
+                        </span>
+                        <Switch
+                          checked={isItemAvailable(item)}
+                          onCheckedChange={(available) => toggleAvailable(item, available)}
+                        />
+                        <Button variant="ghost" size="sm" onClick={() => openEditor(item)}>
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(item)}>
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? 'Edit Item' : 'Add Item'}</DialogTitle>
+            <DialogDescription>Prices are before tax. Add sizes for items sold in more than one.</DialogDescription>
+          </DialogHeader>
+
+          {draft && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="concession-name">Name</Label>
+                  <Input
+                    id="concession-name"
+                    value={draft.name}
+                    onChange={(e) => updateDraft({ name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Category</Label>
+                  <Select
+                    value={draft.category}
+                    onValueChange={(category) => updateDraft({ category: category as ConcessionCategory })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CONCESSION_CATEGORIES.map(category => (
+                        <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="concession-description">Description</Label>
+                <Input
+                  id="concession-description"
+                  value={draft.description}
+                  onChange={(e) => updateDraft({ description: e.target.value })}
+                />
+              </div>
+
+              {draft.category === 'combos' && (
+                <div className="space-y-2">
+                  <Label htmlFor="concession-contents">Includes</Label>
+                  <Input
+                    id="concession-contents"
+                    placeholder="Large popcorn, 2 regular colas"
+                    value={draft.comboItems.join(', ')}
+                    onChange={(e) => updateDraft({ comboItems: e.target.value.split(',').map(part => part.trimStart()) })}
+                  />
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Sizes</Label>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateDraft({ sizes: [...draft.sizes, newSize()] })}
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add Size
+                  </Button>
+                </div>
+                {draft.sizes.map((size, index) => (
+                  <div key={size.id} className="grid grid-cols-[2fr_1fr_auto] gap-2 items-center">
+                    <Input
+                      placeholder={draft.sizes.length > 1 ? 'Regular, Large...' : 'One size'}
+                      value={size.name}
+                      onChange={(e) => updateDraft({
+                        sizes: draft.sizes.map((other, i) => (i === index ? { ...other, name: e.target.value } : other))
+                      })}
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      placeholder="Price (₹)"
+                      value={size.price || ''}
+                      onChange={(e) => updateDraft({
+                        sizes: draft.sizes.map((other, i) => (
+                          i === index ? { ...other, price: Math.max(0, Number(e.target.value) || 0) } : other
+                        ))
+                      })}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={draft.sizes.length === 1}
+                      onClick={() => updateDraft({ sizes: draft.sizes.filter((_, i) => i !== index) })}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : 'Save Item'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
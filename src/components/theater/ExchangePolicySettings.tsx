@@ -0,0 +1,99 @@
+import { useState, useEffect, useCallback } from 'react'
+import { blink } from '../../blink/client'
+import { Button } from '../ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { useToast } from '../../hooks/use-toast'
+import { DEFAULT_EXCHANGE_POLICY, parseExchangePolicy, type ExchangePolicy } from '../../lib/exchanges'
+
+interface ExchangePolicySettingsProps {
+  theaterId?: string
+}
+
+export default function ExchangePolicySettings({ theaterId }: ExchangePolicySettingsProps) {
+  const [policy, setPolicy] = useState<ExchangePolicy>(DEFAULT_EXCHANGE_POLICY)
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  const fetchPolicy = useCallback(async () => {
+    if (!theaterId) return
+    try {
+      const theaters = await blink.db.theaters.list({ where: { id: theaterId }, limit: 1 })
+      setPolicy(parseExchangePolicy(theaters[0]?.exchange_policy))
+    } catch (error) {
+      console.error('Error fetching exchange policy:', error)
+    }
+  }, [theaterId])
+
+  useEffect(() => {
+    fetchPolicy()
+  }, [fetchPolicy])
+
+  const savePolicy = async () => {
+    if (!theaterId) return
+
+    setSaving(true)
+    try {
+      await blink.db.theaters.update(theaterId, { exchange_policy: JSON.stringify(policy) })
+      toast({
+        title: "Exchange Policy Saved",
+        description: "New exchanges will use this policy"
+      })
+    } catch (error) {
+      console.error('Error saving exchange policy:', error)
+      toast({
+        title: "Save Failed",
+        description: "Could not save the exchange policy. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Showtime Exchanges</CardTitle>
+          <Button onClick={savePolicy} disabled={saving || !theaterId}>
+            {saving ? 'Saving...' : 'Save Policy'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!theaterId ? (
+          <p className="text-center py-12 text-muted-foreground">No theater is linked to your account</p>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="exchange-deadline">Exchanges close (hours before show)</Label>
+              <Input
+                id="exchange-deadline"
+                type="number"
+                min={0}
+                value={policy.deadlineHours}
+                onChange={(e) => setPolicy({ ...policy, deadlineHours: Math.max(0, Number(e.target.value) || 0) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="exchange-fee">Exchange fee (₹ per booking)</Label>
+              <Input
+                id="exchange-fee"
+                type="number"
+                min={0}
+                value={policy.fee}
+                onChange={(e) => setPolicy({ ...policy, fee: Math.max(0, Number(e.target.value) || 0) })}
+              />
+            </div>
+            <p className="text-sm text-muted-foreground md:col-span-2">
+              Customers can move a confirmed booking to another show of the same film here. They pay any price
+              difference plus the fee, or get back what the new seats cost less.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
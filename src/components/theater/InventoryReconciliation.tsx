@@ -0,0 +1,107 @@
+import { useState } from 'react'
+import { RefreshCw, CheckCircle, AlertTriangle } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Badge } from '../ui/badge'
+import { useToast } from '../../hooks/use-toast'
+import { reconcileInventory, type InventoryDrift } from '../../lib/inventory'
+
+interface InventoryReconciliationProps {
+  theaterId?: string
+}
+
+export default function InventoryReconciliation({ theaterId }: InventoryReconciliationProps) {
+  const [drifts, setDrifts] = useState<InventoryDrift[] | null>(null)
+  const [running, setRunning] = useState(false)
+  const { toast } = useToast()
+
+  const runReconciliation = async (apply: boolean) => {
+    if (!theaterId) return
+
+    setRunning(true)
+    try {
+      const result = await reconcileInventory(theaterId, { apply })
+      setDrifts(apply ? [] : result)
+      toast({
+        title: apply ? "Seat Counts Corrected" : "Reconciliation Complete",
+        description: apply
+          ? `Updated ${result.length} showtime${result.length === 1 ? '' : 's'}`
+          : `${result.length} showtime${result.length === 1 ? '' : 's'} out of sync`
+      })
+    } catch (error) {
+      console.error('Error reconciling inventory:', error)
+      toast({
+        title: "Reconciliation Failed",
+        description: "Could not recompute seat counts. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Seat Inventory</CardTitle>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => runReconciliation(false)} disabled={running || !theaterId}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${running ? 'animate-spin' : ''}`} />
+              Check Counts
+            </Button>
+            {drifts && drifts.length > 0 && (
+              <Button onClick={() => runReconciliation(true)} disabled={running}>
+                Fix All
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!theaterId ? (
+          <p className="text-center py-12 text-muted-foreground">No theater is linked to your account</p>
+        ) : drifts === null ? (
+          <div className="text-center py-12">
+            <RefreshCw className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">Compare available seat counts with actual bookings</p>
+            <p className="text-sm text-muted-foreground mt-2">
+              Recomputes each showtime from its booked seats and reports any drift
+            </p>
+          </div>
+        ) : drifts.length === 0 ? (
+          <div className="flex items-center justify-center gap-2 py-12 text-green-600">
+            <CheckCircle className="w-5 h-5" />
+            <span className="font-medium">All showtimes are in sync</span>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {drifts.map(drift => (
+              <div key={drift.showtime_id} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+                <div className="flex items-center gap-2">
+                  <AlertTriangle className="w-4 h-4 text-yellow-500" />
+                  <span className="font-medium">
+                    {new Date(drift.show_date).toLocaleDateString()} •{' '}
+                    {new Date(`2000-01-01T${drift.show_time}`).toLocaleTimeString('en-US', {
+                      hour: 'numeric',
+                      minute: '2-digit',
+                      hour12: true
+                    })}
+                  </span>
+                </div>
+                <div className="flex items-center gap-4 text-muted-foreground">
+                  <span>Booked {drift.booked_seats}/{drift.total_seats}</span>
+                  <span>Recorded {drift.recorded_available}</span>
+                  <span>Expected {drift.expected_available}</span>
+                  <Badge variant={drift.drift > 0 ? 'destructive' : 'secondary'}>
+                    {drift.drift > 0 ? '+' : ''}{drift.drift}
+                  </Badge>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,264 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { blink } from '../../blink/client'
+import { Button } from '../ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Switch } from '../ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select'
+import { useToast } from '../../hooks/use-toast'
+import {
+  calculatePriceBreakdown,
+  DEFAULT_PRICING_RULES,
+  formatPrice,
+  parsePricingRules,
+  type FeeRule,
+  type PricingRules,
+  type TaxSlab
+} from '../../lib/price-breakdown'
+
+interface PricingRulesSettingsProps {
+  theaterId?: string
+}
+
+const toAmount = (value: string) => Math.max(0, Number(value) || 0)
+
+export default function PricingRulesSettings({ theaterId }: PricingRulesSettingsProps) {
+  const [rules, setRules] = useState<PricingRules>(DEFAULT_PRICING_RULES)
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  const fetchRules = useCallback(async () => {
+    if (!theaterId) return
+    try {
+      const theaters = await blink.db.theaters.list({ where: { id: theaterId }, limit: 1 })
+      setRules(parsePricingRules(theaters[0]?.pricing_rules))
+    } catch (error) {
+      console.error('Error fetching pricing rules:', error)
+    }
+  }, [theaterId])
+
+  useEffect(() => {
+    fetchRules()
+  }, [fetchRules])
+
+  const updateFee = (index: number, changes: Partial<FeeRule>) => {
+    setRules(current => ({
+      ...current,
+      fees: current.fees.map((fee, i) => (i === index ? { ...fee, ...changes } : fee))
+    }))
+  }
+
+  const addFee = () => {
+    setRules(current => ({
+      ...current,
+      fees: [...current.fees, { id: `fee_${Date.now()}`, label: 'New fee', kind: 'flat', amount: 0, basis: 'per_ticket' }]
+    }))
+  }
+
+  const removeFee = (index: number) => {
+    setRules(current => ({ ...current, fees: current.fees.filter((_, i) => i !== index) }))
+  }
+
+  const updateSlab = (index: number, changes: Partial<TaxSlab>) => {
+    setRules(current => ({
+      ...current,
+      taxSlabs: current.taxSlabs.map((slab, i) => (i === index ? { ...slab, ...changes } : slab))
+    }))
+  }
+
+  const saveRules = async () => {
+    if (!theaterId) return
+
+    // The last slab catches every price above the others
+    const taxSlabs = [...rules.taxSlabs]
+      .sort((a, b) => (a.upTo ?? Infinity) - (b.upTo ?? Infinity))
+      .map((slab, i, slabs) => (i === slabs.length - 1 ? { ...slab, upTo: null } : slab))
+
+    setSaving(true)
+    try {
+      await blink.db.theaters.update(theaterId, { pricing_rules: JSON.stringify({ ...rules, taxSlabs }) })
+      setRules(current => ({ ...current, taxSlabs }))
+      toast({
+        title: "Pricing Saved",
+        description: "New bookings will be charged these fees and taxes"
+      })
+    } catch (error) {
+      console.error('Error saving pricing rules:', error)
+      toast({
+        title: "Save Failed",
+        description: "Could not save fees and taxes. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const example = calculatePriceBreakdown([250, 250], rules)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Fees &amp; Taxes</CardTitle>
+          <Button onClick={saveRules} disabled={saving || !theaterId}>
+            {saving ? 'Saving...' : 'Save Pricing'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!theaterId ? (
+          <p className="text-center py-12 text-muted-foreground">No theater is linked to your account</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Fees</Label>
+                <Button variant="outline" size="sm" onClick={addFee}>
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add Fee
+                </Button>
+              </div>
+              {rules.fees.length === 0 && (
+                <p className="text-sm text-muted-foreground">No fees are charged on top of the ticket price</p>
+              )}
+              {rules.fees.map((fee, index) => (
+                <div key={fee.id} className="grid grid-cols-[2fr_1fr_1fr_1fr_auto] gap-2 items-center">
+                  <Input value={fee.label} onChange={(e) => updateFee(index, { label: e.target.value })} />
+                  <Select value={fee.kind} onValueChange={(kind) => updateFee(index, { kind: kind as FeeRule['kind'] })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="flat">Flat (₹)</SelectItem>
+                      <SelectItem value="percent">Percent (%)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={fee.amount}
+                    onChange={(e) => updateFee(index, { amount: toAmount(e.target.value) })}
+                  />
+                  <Select
+                    value={fee.basis}
+                    disabled={fee.kind === 'percent'}
+                    onValueChange={(basis) => updateFee(index, { basis: basis as FeeRule['basis'] })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="per_ticket">Per ticket</SelectItem>
+                      <SelectItem value="per_booking">Per booking</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button variant="ghost" size="sm" onClick={() => removeFee(index)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>GST on tickets</Label>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setRules(current => ({
+                    ...current,
+                    taxSlabs: [...current.taxSlabs, { upTo: null, ratePercent: 18 }]
+                  }))}
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add Slab
+                </Button>
+              </div>
+              {rules.taxSlabs.map((slab, index) => (
+                <div key={index} className="grid grid-cols-[2fr_1fr_auto] gap-2 items-center">
+                  <Input
+                    type="number"
+                    min={0}
+                    placeholder="Any price"
+                    value={slab.upTo ?? ''}
+                    onChange={(e) => updateSlab(index, { upTo: e.target.value === '' ? null : toAmount(e.target.value) })}
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={slab.ratePercent}
+                    onChange={(e) => updateSlab(index, { ratePercent: Math.min(100, toAmount(e.target.value)) })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={rules.taxSlabs.length === 1}
+                    onClick={() => setRules(current => ({
+                      ...current,
+                      taxSlabs: current.taxSlabs.filter((_, i) => i !== index)
+                    }))}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                Ticket price up to (₹) and the GST rate (%). The highest slab applies to every price above the rest.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="fee-tax">GST on fees (%)</Label>
+                <Input
+                  id="fee-tax"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={rules.feeTaxPercent}
+                  onChange={(e) => setRules(current => ({
+                    ...current,
+                    feeTaxPercent: Math.min(100, toAmount(e.target.value))
+                  }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="food-tax">GST on food (%)</Label>
+                <Input
+                  id="food-tax"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={rules.foodTaxPercent}
+                  onChange={(e) => setRules(current => ({
+                    ...current,
+                    foodTaxPercent: Math.min(100, toAmount(e.target.value))
+                  }))}
+                />
+              </div>
+              <div className="flex items-center gap-3 pb-2">
+                <Switch
+                  id="rounding"
+                  checked={rules.rounding === 'nearest_rupee'}
+                  onCheckedChange={(checked) => setRules(current => ({
+                    ...current,
+                    rounding: checked ? 'nearest_rupee' : 'none'
+                  }))}
+                />
+                <Label htmlFor="rounding">Round totals to the nearest rupee</Label>
+              </div>
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              Two ₹250 tickets would cost {formatPrice(example.total)}: {formatPrice(example.fees)} in fees and {formatPrice(example.taxes)} in taxes.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
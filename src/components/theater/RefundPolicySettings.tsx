@@ -0,0 +1,180 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { blink } from '../../blink/client'
+import { Button } from '../ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { useToast } from '../../hooks/use-toast'
+import {
+  DEFAULT_REFUND_POLICY,
+  describeRefundPolicy,
+  parseRefundPolicy,
+  type RefundPolicy
+} from '../../lib/refund-policy'
+
+interface RefundPolicySettingsProps {
+  theaterId?: string
+}
+
+export default function RefundPolicySettings({ theaterId }: RefundPolicySettingsProps) {
+  const [policy, setPolicy] = useState<RefundPolicy>(DEFAULT_REFUND_POLICY)
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  const fetchPolicy = useCallback(async () => {
+    if (!theaterId) return
+    try {
+      const theaters = await blink.db.theaters.list({ where: { id: theaterId }, limit: 1 })
+      setPolicy(parseRefundPolicy(theaters[0]?.refund_policy))
+    } catch (error) {
+      console.error('Error fetching refund policy:', error)
+    }
+  }, [theaterId])
+
+  useEffect(() => {
+    fetchPolicy()
+  }, [fetchPolicy])
+
+  const updateTier = (index: number, field: 'hoursBefore' | 'feePercent', value: string) => {
+    setPolicy(current => ({
+      ...current,
+      feeTiers: current.feeTiers.map((tier, i) =>
+        i === index ? { ...tier, [field]: Math.max(0, Number(value) || 0) } : tier
+      )
+    }))
+  }
+
+  const addTier = () => {
+    setPolicy(current => ({
+      ...current,
+      feeTiers: [...current.feeTiers, { hoursBefore: 0, feePercent: 100 }]
+    }))
+  }
+
+  const removeTier = (index: number) => {
+    setPolicy(current => ({
+      ...current,
+      feeTiers: current.feeTiers.filter((_, i) => i !== index)
+    }))
+  }
+
+  const savePolicy = async () => {
+    if (!theaterId) return
+
+    const invalid = policy.feeTiers.some(tier => tier.feePercent > 100 || tier.hoursBefore >= policy.fullRefundHours)
+    if (invalid) {
+      toast({
+        title: "Invalid Policy",
+        description: "Fees must be at most 100% and start before the full-refund cutoff",
+        variant: "destructive"
+      })
+      return
+    }
+
+    setSaving(true)
+    try {
+      const feeTiers = [...policy.feeTiers].sort((a, b) => b.hoursBefore - a.hoursBefore)
+      await blink.db.theaters.update(theaterId, {
+        refund_policy: JSON.stringify({ ...policy, feeTiers })
+      })
+      setPolicy({ ...policy, feeTiers })
+      toast({
+        title: "Refund Policy Saved",
+        description: "New cancellations will use this policy"
+      })
+    } catch (error) {
+      console.error('Error saving refund policy:', error)
+      toast({
+        title: "Save Failed",
+        description: "Could not save the refund policy. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Cancellation & Refunds</CardTitle>
+          <Button onClick={savePolicy} disabled={saving || !theaterId}>
+            {saving ? 'Saving...' : 'Save Policy'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!theaterId ? (
+          <p className="text-center py-12 text-muted-foreground">No theater is linked to your account</p>
+        ) : (
+          <div className="grid gap-8 md:grid-cols-2">
+            <div className="space-y-6">
+              <div className="space-y-2">
+                <Label htmlFor="full-refund-hours">Full refund until (hours before show)</Label>
+                <Input
+                  id="full-refund-hours"
+                  type="number"
+                  min={0}
+                  value={policy.fullRefundHours}
+                  onChange={(e) => setPolicy({ ...policy, fullRefundHours: Math.max(0, Number(e.target.value) || 0) })}
+                />
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label>Cancellation fees</Label>
+                  <Button variant="outline" size="sm" onClick={addTier}>
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add Tier
+                  </Button>
+                </div>
+                {policy.feeTiers.length === 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    No fee tiers: nothing is refunded after the full-refund cutoff
+                  </p>
+                )}
+                {policy.feeTiers.map((tier, index) => (
+                  <div key={index} className="flex items-end gap-2">
+                    <div className="flex-1 space-y-1">
+                      <Label className="text-xs text-muted-foreground">From (hours before)</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={tier.hoursBefore}
+                        onChange={(e) => updateTier(index, 'hoursBefore', e.target.value)}
+                      />
+                    </div>
+                    <div className="flex-1 space-y-1">
+                      <Label className="text-xs text-muted-foreground">Fee (%)</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={tier.feePercent}
+                        onChange={(e) => updateTier(index, 'feePercent', e.target.value)}
+                      />
+                    </div>
+                    <Button variant="ghost" size="icon" onClick={() => removeTier(index)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="p-4 bg-muted/50 rounded-lg">
+              <p className="font-medium mb-2">What customers see</p>
+              <ul className="space-y-1 text-sm text-muted-foreground list-disc list-inside">
+                {describeRefundPolicy(policy).map(line => (
+                  <li key={line}>{line}</li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
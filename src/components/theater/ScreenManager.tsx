@@ -0,0 +1,270 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Plus, Settings, Pencil } from 'lucide-react'
+import { blink } from '../../blink/client'
+import { Button } from '../ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { Badge } from '../ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '../ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '../ui/select'
+import { useToast } from '../../hooks/use-toast'
+import { generateId } from '../../lib/bookings'
+import { fetchSeatsInUse } from '../../lib/inventory'
+import { formatSeatLabel } from '../../lib/seats'
+import {
+  createEmptyLayout,
+  findMovedSeats,
+  parseSeatLayout,
+  numberSeats,
+  countSeats,
+  SCREEN_FORMATS,
+  type SeatLayout
+} from '../../lib/seat-layout'
+import SeatLayoutEditor from './SeatLayoutEditor'
+
+interface Screen {
+  id: string
+  theater_id: string
+  name: string
+  format: string
+  seat_layout: string
+}
+
+interface ScreenDraft {
+  id?: string
+  name: string
+  format: string
+  layout: SeatLayout
+}
+
+interface ScreenManagerProps {
+  theaterId?: string
+}
+
+export default function ScreenManager({ theaterId }: ScreenManagerProps) {
+  const [screens, setScreens] = useState<Screen[]>([])
+  const [draft, setDraft] = useState<ScreenDraft | null>(null)
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  const fetchScreens = useCallback(async () => {
+    if (!theaterId) return
+    try {
+      const screensData = await blink.db.screens.list({
+        where: { theater_id: theaterId },
+        orderBy: { name: 'asc' }
+      })
+      setScreens(screensData as Screen[])
+    } catch (error) {
+      console.error('Error fetching screens:', error)
+    }
+  }, [theaterId])
+
+  useEffect(() => {
+    fetchScreens()
+  }, [fetchScreens])
+
+  const openEditor = (screen?: Screen) => {
+    if (!screen) {
+      setDraft({ name: '', format: '2D', layout: createEmptyLayout() })
+      return
+    }
+
+    try {
+      setDraft({
+        id: screen.id,
+        name: screen.name,
+        format: screen.format,
+        layout: parseSeatLayout(screen.seat_layout) || createEmptyLayout()
+      })
+    } catch (error) {
+      console.error('Error reading seat layout:', error)
+      toast({
+        title: "Unsupported Layout",
+        description: "This screen's seat layout cannot be edited here",
+        variant: "destructive"
+      })
+    }
+  }
+
+  const handleSave = async () => {
+    if (!draft || !theaterId) return
+    if (!draft.name.trim()) {
+      toast({
+        title: "Name Required",
+        description: "Please enter a screen name",
+        variant: "destructive"
+      })
+      return
+    }
+
+    const layout = numberSeats(draft.layout)
+    if (countSeats(layout) === 0) {
+      toast({
+        title: "Empty Layout",
+        description: "Add at least one seat to the layout",
+        variant: "destructive"
+      })
+      return
+    }
+
+    setSaving(true)
+    try {
+      const saved = draft.id ? screens.find(screen => screen.id === draft.id) : undefined
+      const savedLayout = saved ? parseSeatLayout(saved.seat_layout) : null
+      if (draft.id && savedLayout) {
+        const moved = findMovedSeats(savedLayout, layout, await fetchSeatsInUse(draft.id))
+        if (moved.length > 0) {
+          toast({
+            title: "Seats Are Booked",
+            description: `${moved.map(formatSeatLabel).join(', ')} ${moved.length === 1 ? 'is' : 'are'} booked for upcoming shows and would be removed or renumbered. Leave those seats in place.`,
+            variant: "destructive"
+          })
+          return
+        }
+      }
+
+      const data = {
+        theater_id: theaterId,
+        name: draft.name.trim(),
+        format: draft.format,
+        seat_layout: JSON.stringify(layout),
+        total_seats: countSeats(layout)
+      }
+
+      if (draft.id) {
+        await blink.db.screens.update(draft.id, data)
+      } else {
+        await blink.db.screens.create({ id: generateId('screen'), ...data })
+      }
+
+      toast({
+        title: "Screen Saved",
+        description: `${data.name} has been saved with ${data.total_seats} seats`
+      })
+      setDraft(null)
+      fetchScreens()
+    } catch (error) {
+      console.error('Error saving screen:', error)
+      toast({
+        title: "Save Failed",
+        description: "Failed to save screen. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const getSeatCount = (screen: Screen) => {
+    try {
+      const layout = parseSeatLayout(screen.seat_layout)
+      return layout ? countSeats(layout) : 0
+    } catch {
+      return 0
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Screen Management</CardTitle>
+          <Button onClick={() => openEditor()} disabled={!theaterId}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Screen
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {screens.length > 0 ? (
+          <div className="space-y-2">
+            {screens.map(screen => (
+              <div key={screen.id} className="flex items-center justify-between p-3 border rounded-lg">
+                <div className="flex items-center gap-3">
+                  <span className="font-medium">{screen.name}</span>
+                  <Badge variant="secondary">{screen.format}</Badge>
+                  <span className="text-sm text-muted-foreground">{getSeatCount(screen)} seats</span>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => openEditor(screen)}>
+                  <Pencil className="w-4 h-4 mr-2" />
+                  Edit Layout
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <Settings className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No screens configured yet</p>
+            <p className="text-sm text-muted-foreground mt-2">
+              Add a screen to design its seat layout
+            </p>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? 'Edit Screen' : 'Add Screen'}</DialogTitle>
+          </DialogHeader>
+
+          {draft && (
+            <div className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="screen-name">Screen Name</Label>
+                  <Input
+                    id="screen-name"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    placeholder="e.g. Audi 1"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Format</Label>
+                  <Select value={draft.format} onValueChange={(format) => setDraft({ ...draft, format })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SCREEN_FORMATS.map(format => (
+                        <SelectItem key={format} value={format}>{format}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <SeatLayoutEditor
+                value={draft.layout}
+                onChange={(layout) => setDraft({ ...draft, layout })}
+              />
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : 'Save Screen'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,455 @@
+import { useState } from 'react'
+import {
+  DndContext,
+  PointerSensor,
+  KeyboardSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent
+} from '@dnd-kit/core'
+import { Plus, Minus, Trash2, Copy, ArrowUpDown, Eraser, Accessibility, HeartHandshake, Sofa, Ban } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '../ui/select'
+import {
+  createEmptyLayout,
+  getCategory,
+  getRowLabel,
+  numberSeats,
+  countSeats,
+  removeCategory,
+  isCoupleSeat,
+  type LayoutCell,
+  type SeatCategory,
+  type SeatKind,
+  type SeatLayout
+} from '../../lib/seat-layout'
+import { getSeatRules, type RuleMode } from '../../lib/seat-rules'
+import { getAuditoriumDimensions, type AuditoriumDimensions } from '../../lib/auditorium'
+
+// Category tools are `category:<id>` and kind tools `kind:<kind>`; both keep
+// the rest of the seat as-is. The remaining tools paint structural cells.
+type EditorTool = `category:${string}` | `kind:${SeatKind}` | 'block' | 'aisle' | 'gap' | 'stairs' | 'erase'
+
+interface ToolOption {
+  id: EditorTool
+  label: string
+  className: string
+  color?: string
+}
+
+const SEAT_KIND_TOOLS: ToolOption[] = [
+  { id: 'kind:standard', label: 'Standard', className: 'bg-gray-600' },
+  { id: 'kind:wheelchair', label: 'Wheelchair', className: 'bg-blue-600' },
+  { id: 'kind:companion', label: 'Companion', className: 'bg-blue-400' },
+  { id: 'kind:couple', label: 'Couple', className: 'bg-pink-500' },
+  { id: 'block', label: 'Block / Unblock', className: 'seat-blocked' }
+]
+
+const STRUCTURAL_TOOLS: ToolOption[] = [
+  { id: 'aisle', label: 'Aisle', className: 'border border-dashed border-muted-foreground/40' },
+  { id: 'gap', label: 'Gap', className: 'bg-transparent border border-muted' },
+  { id: 'stairs', label: 'Stairs', className: 'seat-stairs' },
+  { id: 'erase', label: 'Remove', className: 'bg-red-500/20 border border-red-500' }
+]
+
+const applyTool = (
+  cell: LayoutCell | null,
+  tool: Exclude<EditorTool, 'erase'>,
+  defaultCategory: string
+): LayoutCell => {
+  if (tool === 'aisle' || tool === 'gap' || tool === 'stairs') {
+    return { type: tool }
+  }
+
+  const seat = cell?.type === 'seat'
+    ? cell
+    : { type: 'seat' as const, number: 0, category: defaultCategory }
+
+  if (tool === 'block') {
+    return { ...seat, blocked: !seat.blocked }
+  }
+  if (tool.startsWith('kind:')) {
+    return { ...seat, kind: tool.slice('kind:'.length) as SeatKind }
+  }
+  return { ...seat, category: tool.slice('category:'.length) }
+}
+
+const KIND_ICONS: Partial<Record<SeatKind, typeof Sofa>> = {
+  wheelchair: Accessibility,
+  companion: HeartHandshake,
+  couple: Sofa
+}
+
+function PaletteItem({ tool, active, onSelect }: {
+  tool: ToolOption
+  active: boolean
+  onSelect: () => void
+}) {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: `tool-${tool.id}`,
+    data: { tool: tool.id }
+  })
+
+  return (
+    <button
+      ref={setNodeRef}
+      type="button"
+      onClick={onSelect}
+      style={transform ? { transform: `translate3d(${transform.x}px, ${transform.y}px, 0)` } : undefined}
+      className={`flex items-center gap-2 px-3 py-2 rounded-md border text-sm touch-none ${
+        active ? 'border-primary bg-primary/10' : 'border-border'
+      } ${isDragging ? 'z-50 shadow-lg' : ''}`}
+      {...listeners}
+      {...attributes}
+    >
+      <span className={`w-4 h-4 rounded ${tool.className}`} style={tool.color ? { backgroundColor: tool.color } : undefined} />
+      {tool.label}
+    </button>
+  )
+}
+
+function EditorCell({ id, cell, category, onPaint }: {
+  id: string
+  cell: LayoutCell
+  category?: SeatCategory
+  onPaint: () => void
+}) {
+  const { setNodeRef, isOver } = useDroppable({ id })
+  const structural = STRUCTURAL_TOOLS.find(tool => tool.id === cell.type)
+  const KindIcon = cell.type === 'seat' && cell.kind ? KIND_ICONS[cell.kind] : undefined
+
+  return (
+    <button
+      ref={setNodeRef}
+      type="button"
+      onClick={onPaint}
+      title={category?.name}
+      style={category ? { backgroundColor: category.color } : undefined}
+      className={`${isCoupleSeat(cell) ? 'w-[68px]' : 'w-8'} h-8 rounded text-xs font-medium text-black flex items-center justify-center ${
+        structural?.className || ''
+      } ${cell.type === 'seat' && cell.blocked ? 'opacity-40' : ''} ${isOver ? 'ring-2 ring-primary' : ''}`}
+    >
+      {cell.type === 'seat' && (
+        cell.blocked ? <Ban className="w-3 h-3" /> : KindIcon ? <KindIcon className="w-3 h-3" /> : cell.number
+      )}
+    </button>
+  )
+}
+
+function RowEndSlot({ id, onClick }: { id: string; onClick: () => void }) {
+  const { setNodeRef, isOver } = useDroppable({ id })
+
+  return (
+    <button
+      ref={setNodeRef}
+      type="button"
+      onClick={onClick}
+      title="Add to end of row"
+      className={`w-8 h-8 rounded border border-dashed flex items-center justify-center text-muted-foreground ${
+        isOver ? 'border-primary text-primary' : 'border-muted-foreground/40'
+      }`}
+    >
+      <Plus className="w-3 h-3" />
+    </button>
+  )
+}
+
+interface SeatLayoutEditorProps {
+  value: SeatLayout
+  onChange: (layout: SeatLayout) => void
+}
+
+/**
+ * Drag tools from the palette onto a seat (or click a tool, then click
+ * seats) to change it. Dropping on a row's trailing "+" slot extends the row.
+ */
+export default function SeatLayoutEditor({ value, onChange }: SeatLayoutEditorProps) {
+  const [activeTool, setActiveTool] = useState<EditorTool>(`category:${value.categories[0]?.id}`)
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 4 } }),
+    useSensor(KeyboardSensor)
+  )
+
+  const updateRows = (rows: SeatLayout['rows']) => {
+    onChange(numberSeats({ ...value, rows }))
+  }
+
+  const paintCell = (rowIndex: number, cellIndex: number, tool: EditorTool) => {
+    updateRows(value.rows.map((row, r) => {
+      if (r !== rowIndex) return row
+      const cells = tool === 'erase'
+        ? row.cells.filter((_, c) => c !== cellIndex)
+        : row.cells.map((cell, c) => (c === cellIndex ? applyTool(cell, tool, value.categories[0].id) : cell))
+      return { cells }
+    }))
+  }
+
+  const appendCell = (rowIndex: number, tool: EditorTool) => {
+    const cell = applyTool(null, tool === 'erase' ? `category:${value.categories[0].id}` : tool, value.categories[0].id)
+    updateRows(value.rows.map((row, r) => (r === rowIndex ? { cells: [...row.cells, cell] } : row)))
+  }
+
+  const removeLastCell = (rowIndex: number) => {
+    updateRows(value.rows.map((row, r) => (r === rowIndex ? { cells: row.cells.slice(0, -1) } : row)))
+  }
+
+  const duplicateRow = (rowIndex: number) => {
+    const rows = [...value.rows]
+    rows.splice(rowIndex + 1, 0, { cells: [...value.rows[rowIndex].cells] })
+    updateRows(rows)
+  }
+
+  const deleteRow = (rowIndex: number) => {
+    updateRows(value.rows.filter((_, r) => r !== rowIndex))
+  }
+
+  const addRow = () => {
+    const lastRow = value.rows[value.rows.length - 1]
+    const template = lastRow
+      ? lastRow.cells
+      : createEmptyLayout(1).rows[0].cells.map(cell => ({ ...cell, category: value.categories[0].id }))
+    updateRows([...value.rows, { cells: [...template] }])
+  }
+
+  const updateCategory = (categoryId: string, changes: Partial<SeatCategory>) => {
+    onChange({
+      ...value,
+      categories: value.categories.map(category =>
+        category.id === categoryId ? { ...category, ...changes } : category
+      )
+    })
+  }
+
+  const addCategory = () => {
+    const category: SeatCategory = {
+      id: crypto.randomUUID().slice(0, 8),
+      name: `Category ${value.categories.length + 1}`,
+      color: '#60a5fa',
+      defaultPrice: 0
+    }
+    onChange({ ...value, categories: [...value.categories, category] })
+    setActiveTool(`category:${category.id}`)
+  }
+
+  const deleteCategory = (categoryId: string) => {
+    const replacement = value.categories.find(category => category.id !== categoryId)
+    if (!replacement) return
+    onChange(removeCategory(value, categoryId, replacement.id))
+    if (activeTool === `category:${categoryId}`) {
+      setActiveTool(`category:${replacement.id}`)
+    }
+  }
+
+  const toggleScreenPosition = () => {
+    onChange({
+      ...value,
+      screen: { position: value.screen.position === 'top' ? 'bottom' : 'top' }
+    })
+  }
+
+  const updateDimensions = (changes: Partial<AuditoriumDimensions>) => {
+    onChange({ ...value, dimensions: { ...value.dimensions, ...changes } })
+  }
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const tool = event.active.data.current?.tool as EditorTool | undefined
+    const overId = event.over?.id
+    if (!tool || typeof overId !== 'string') return
+
+    const [kind, row, cell] = overId.split(':')
+    if (kind === 'cell') {
+      paintCell(Number(row), Number(cell), tool)
+    } else if (kind === 'end') {
+      appendCell(Number(row), tool)
+    }
+  }
+
+  const screen = (
+    <div className="text-center">
+      <div className={`inline-block bg-gradient-to-b from-gray-300 to-gray-500 text-black px-8 py-2 text-sm font-medium ${
+        value.screen.position === 'top' ? 'rounded-t-3xl' : 'rounded-b-3xl'
+      }`}>
+        SCREEN
+      </div>
+    </div>
+  )
+
+  const tools: ToolOption[] = [
+    ...value.categories.map(category => ({
+      id: `category:${category.id}` as const,
+      label: category.name,
+      className: '',
+      color: category.color
+    })),
+    ...SEAT_KIND_TOOLS,
+    ...STRUCTURAL_TOOLS
+  ]
+
+  return (
+    <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium">Seat Categories</h4>
+            <Button type="button" variant="outline" size="sm" onClick={addCategory}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Category
+            </Button>
+          </div>
+          {value.categories.map(category => (
+            <div key={category.id} className="flex items-center gap-2">
+              <input
+                type="color"
+                value={category.color}
+                onChange={(e) => updateCategory(category.id, { color: e.target.value })}
+                className="w-9 h-9 rounded border bg-transparent cursor-pointer"
+                aria-label={`${category.name} color`}
+              />
+              <Input
+                value={category.name}
+                onChange={(e) => updateCategory(category.id, { name: e.target.value })}
+                className="flex-1"
+                aria-label="Category name"
+              />
+              <Input
+                type="number"
+                min={0}
+                value={category.defaultPrice}
+                onChange={(e) => updateCategory(category.id, { defaultPrice: Number(e.target.value) })}
+                className="w-28"
+                aria-label={`${category.name} default price`}
+                title="Default price (₹)"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                title="Delete category"
+                disabled={value.categories.length <= 1}
+                onClick={() => deleteCategory(category.id)}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {tools.map(tool => (
+            <PaletteItem
+              key={tool.id}
+              tool={tool}
+              active={activeTool === tool.id}
+              onSelect={() => setActiveTool(tool.id)}
+            />
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>{value.rows.length} rows • {countSeats(value)} seats</span>
+          <div className="flex items-center gap-2">
+            <span>Single-seat gaps</span>
+            <Select
+              value={getSeatRules(value).orphanSeats}
+              onValueChange={(mode) => onChange({ ...value, rules: { ...value.rules, orphanSeats: mode as RuleMode } })}
+            >
+              <SelectTrigger className="w-28 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="off">Allow</SelectItem>
+                <SelectItem value="warn">Warn</SelectItem>
+                <SelectItem value="block">Block</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button type="button" variant="outline" size="sm" onClick={toggleScreenPosition}>
+              <ArrowUpDown className="w-4 h-4 mr-2" />
+              Screen at {value.screen.position}
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-end gap-2 text-sm text-muted-foreground">
+          <span>Screen width (m)</span>
+          <Input
+            type="number"
+            min={1}
+            step={0.5}
+            value={value.dimensions?.screenWidth ?? ''}
+            placeholder={getAuditoriumDimensions({ ...value, dimensions: undefined }).screenWidth.toFixed(1)}
+            onChange={(e) => updateDimensions({ screenWidth: e.target.value ? Number(e.target.value) : undefined })}
+            className="w-24 h-8"
+            aria-label="Screen width in metres"
+          />
+          <span>Row rise (cm)</span>
+          <Input
+            type="number"
+            min={0}
+            value={Math.round(getAuditoriumDimensions(value).rowRise * 100)}
+            onChange={(e) => updateDimensions({ rowRise: Number(e.target.value) / 100 })}
+            className="w-24 h-8"
+            aria-label="Row rise in centimetres"
+            title="How much higher each row sits than the one in front, used for the 3D seat view"
+          />
+        </div>
+
+        <div className="overflow-x-auto border rounded-lg p-4 space-y-2">
+          {value.screen.position === 'top' && screen}
+
+          {value.rows.map((row, rowIndex) => (
+            <div key={rowIndex} className="flex items-center gap-1">
+              <div className="w-8 text-center text-sm font-medium text-muted-foreground">
+                {getRowLabel(rowIndex)}
+              </div>
+              <div className="flex gap-1 flex-1 justify-center">
+                {row.cells.map((cell, cellIndex) => (
+                  <EditorCell
+                    key={cellIndex}
+                    id={`cell:${rowIndex}:${cellIndex}`}
+                    cell={cell}
+                    category={cell.type === 'seat' ? getCategory(value, cell.category) : undefined}
+                    onPaint={() => paintCell(rowIndex, cellIndex, activeTool)}
+                  />
+                ))}
+                <RowEndSlot id={`end:${rowIndex}`} onClick={() => appendCell(rowIndex, activeTool)} />
+              </div>
+              <div className="flex gap-1">
+                <Button type="button" variant="ghost" size="icon" title="Remove last cell" onClick={() => removeLastCell(rowIndex)}>
+                  <Minus className="w-4 h-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="icon" title="Duplicate row" onClick={() => duplicateRow(rowIndex)}>
+                  <Copy className="w-4 h-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="icon" title="Delete row" onClick={() => deleteRow(rowIndex)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          {value.screen.position === 'bottom' && screen}
+        </div>
+
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" onClick={addRow}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Row
+          </Button>
+          <Button type="button" variant="outline" onClick={() => setActiveTool('erase')}>
+            <Eraser className="w-4 h-4 mr-2" />
+            Remove Cells
+          </Button>
+        </div>
+      </div>
+    </DndContext>
+  )
+}
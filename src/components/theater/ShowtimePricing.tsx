@@ -0,0 +1,194 @@
+import { useState, useEffect, useCallback } from 'react'
+import { blink } from '../../blink/client'
+import { Button } from '../ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '../ui/select'
+import { useToast } from '../../hooks/use-toast'
+import { formatCheckInTime } from '../../lib/check-in'
+import { getShowStart } from '../../lib/refund-policy'
+import { parseSeatLayout, type SeatLayout } from '../../lib/seat-layout'
+import { getCategoryPrices, parseCategoryPrices, type PricedShowtime } from '../../lib/seat-pricing'
+
+interface Showtime extends PricedShowtime {
+  id: string
+  movie_id: string
+  screen_id: string
+  show_date: string
+  show_time: string
+}
+
+interface ShowtimePricingProps {
+  theaterId?: string
+}
+
+/**
+ * Sets what each seat category costs for one upcoming show. A blank price
+ * falls back to the screen's default for the category.
+ */
+export default function ShowtimePricing({ theaterId }: ShowtimePricingProps) {
+  const [showtimes, setShowtimes] = useState<Showtime[]>([])
+  const [movieTitles, setMovieTitles] = useState<Record<string, string>>({})
+  const [layouts, setLayouts] = useState<Record<string, SeatLayout | null>>({})
+  const [selectedId, setSelectedId] = useState('')
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  const fetchShowtimes = useCallback(async () => {
+    if (!theaterId) return
+    try {
+      const now = new Date()
+      const [showtimesData, screensData] = await Promise.all([
+        blink.db.showtimes.list({ where: { theater_id: theaterId }, orderBy: { show_date: 'asc' } }),
+        blink.db.screens.list({ where: { theater_id: theaterId } })
+      ])
+      const upcoming = (showtimesData as Showtime[]).filter(showtime => getShowStart(showtime) > now)
+      const movieIds = [...new Set(upcoming.map(showtime => showtime.movie_id))]
+      const movies = (movieIds.length > 0
+        ? await blink.db.movies.list({ where: { id: { in: movieIds } } })
+        : []) as { id: string; title: string }[]
+      const screens = screensData as { id: string; seat_layout: string }[]
+
+      setShowtimes(upcoming)
+      setMovieTitles(Object.fromEntries(movies.map(movie => [movie.id, movie.title])))
+      setLayouts(Object.fromEntries(screens.map(screen => [screen.id, parseSeatLayout(screen.seat_layout)])))
+    } catch (error) {
+      console.error('Error fetching showtimes:', error)
+    }
+  }, [theaterId])
+
+  useEffect(() => {
+    fetchShowtimes()
+  }, [fetchShowtimes])
+
+  const showtime = showtimes.find(candidate => candidate.id === selectedId)
+  const layout = showtime ? layouts[showtime.screen_id] : null
+  // What each category costs for this show when it sets no price of its own
+  const fallbackPrices = showtime && layout ? getCategoryPrices({ ...showtime, category_prices: null }, layout.categories) : {}
+
+  const selectShowtime = (showtimeId: string) => {
+    const selected = showtimes.find(candidate => candidate.id === showtimeId)
+    setSelectedId(showtimeId)
+    setDrafts(selected
+      ? Object.fromEntries(Object.entries(parseCategoryPrices(selected)).map(([categoryId, price]) => [categoryId, String(price)]))
+      : {})
+  }
+
+  const savePrices = async () => {
+    if (!showtime || !layout) return
+
+    const prices: Record<string, number> = {}
+    for (const category of layout.categories) {
+      const draft = drafts[category.id]?.trim()
+      if (!draft) continue
+      const price = Number(draft)
+      if (!(price > 0)) {
+        toast({
+          title: "Invalid Price",
+          description: `Enter a price above zero for ${category.name}, or leave it blank to use the default`,
+          variant: "destructive"
+        })
+        return
+      }
+      prices[category.id] = price
+    }
+
+    setSaving(true)
+    try {
+      const categoryPrices = Object.keys(prices).length > 0 ? JSON.stringify(prices) : null
+      await blink.db.showtimes.update(showtime.id, { category_prices: categoryPrices })
+      setShowtimes(current => current.map(candidate =>
+        candidate.id === showtime.id ? { ...candidate, category_prices: categoryPrices } : candidate
+      ))
+      toast({
+        title: "Show Prices Saved",
+        description: "New bookings for this show use these prices"
+      })
+    } catch (error) {
+      console.error('Error saving show prices:', error)
+      toast({
+        title: "Save Failed",
+        description: "Could not save show prices. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const describeShowtime = (candidate: Showtime) =>
+    `${movieTitles[candidate.movie_id] || 'Unknown movie'} • ${new Date(candidate.show_date).toLocaleDateString()} • ${formatCheckInTime(getShowStart(candidate))}`
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Show Prices</CardTitle>
+          <Button onClick={savePrices} disabled={saving || !showtime || !layout}>
+            {saving ? 'Saving...' : 'Save Prices'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!theaterId ? (
+          <p className="text-center py-12 text-muted-foreground">No theater is linked to your account</p>
+        ) : showtimes.length === 0 ? (
+          <p className="text-center py-12 text-muted-foreground">No upcoming shows</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Show</Label>
+              <Select value={selectedId} onValueChange={selectShowtime}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a show" />
+                </SelectTrigger>
+                <SelectContent>
+                  {showtimes.map(candidate => (
+                    <SelectItem key={candidate.id} value={candidate.id}>
+                      {describeShowtime(candidate)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {showtime && !layout && (
+              <p className="text-sm text-muted-foreground">This show's screen has no seating plan yet</p>
+            )}
+
+            {layout && (
+              <div className="space-y-2">
+                {layout.categories.map(category => (
+                  <div key={category.id} className="grid grid-cols-2 gap-4 items-center p-3 border rounded-lg">
+                    <div className="flex items-center gap-2">
+                      <span className="w-3 h-3 rounded-sm border-2" style={{ borderColor: category.color }} />
+                      <span className="font-medium">{category.name}</span>
+                    </div>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={drafts[category.id] ?? ''}
+                      placeholder={`Default ₹${fallbackPrices[category.id] ?? category.defaultPrice}`}
+                      onChange={(e) => setDrafts(current => ({ ...current, [category.id]: e.target.value }))}
+                    />
+                  </div>
+                ))}
+                <p className="text-sm text-muted-foreground pt-2">
+                  Leave a price blank to charge the screen's default. Bookings already made keep what they paid.
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,141 @@
+import { useState, useEffect, useCallback } from 'react'
+import { KeyRound, RefreshCw } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Badge } from '../ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { useToast } from '../../hooks/use-toast'
+import {
+  listSigningKeys,
+  revokeSigningKey,
+  rotateSigningKey,
+  type TicketKeyStatus,
+  type TicketSigningKey
+} from '../../lib/ticket-signing'
+
+interface TicketKeySettingsProps {
+  theaterId?: string
+}
+
+const STATUS_LABELS: Record<TicketKeyStatus, string> = {
+  active: 'Signing',
+  retired: 'Verify only',
+  revoked: 'Revoked'
+}
+
+export default function TicketKeySettings({ theaterId }: TicketKeySettingsProps) {
+  const [keys, setKeys] = useState<TicketSigningKey[]>([])
+  const [working, setWorking] = useState(false)
+  const { toast } = useToast()
+
+  const fetchKeys = useCallback(async () => {
+    if (!theaterId) return
+    try {
+      setKeys(await listSigningKeys(theaterId))
+    } catch (error) {
+      console.error('Error fetching ticket keys:', error)
+    }
+  }, [theaterId])
+
+  useEffect(() => {
+    fetchKeys()
+  }, [fetchKeys])
+
+  const handleRotate = async () => {
+    if (!theaterId) return
+
+    setWorking(true)
+    try {
+      await rotateSigningKey(theaterId)
+      toast({
+        title: "Key Rotated",
+        description: "New tickets are signed with the new key. Existing tickets still scan."
+      })
+      fetchKeys()
+    } catch (error) {
+      console.error('Error rotating ticket key:', error)
+      toast({
+        title: "Rotation Failed",
+        description: "Could not rotate the signing key. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleRevoke = async (key: TicketSigningKey) => {
+    setWorking(true)
+    try {
+      await revokeSigningKey(key.id)
+      toast({
+        title: "Key Revoked",
+        description: "Tickets signed with this key are rejected once scanners sync"
+      })
+      fetchKeys()
+    } catch (error) {
+      console.error('Error revoking ticket key:', error)
+      toast({
+        title: "Revoke Failed",
+        description: "Could not revoke the key. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Ticket Signing Keys</CardTitle>
+          <Button onClick={handleRotate} disabled={working || !theaterId}>
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Rotate Key
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!theaterId ? (
+          <p className="text-center py-12 text-muted-foreground">No theater is linked to your account</p>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Ticket codes are signed so scanners can spot forged or altered tickets, even offline.
+              Rotating retires the current key; revoke a retired key if it may have leaked and
+              customers holding its tickets get a new code when they reopen their booking.
+            </p>
+            {keys.length === 0 ? (
+              <div className="text-center py-8">
+                <KeyRound className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">A key is created when the first ticket is issued</p>
+              </div>
+            ) : (
+              keys.map(key => (
+                <div key={key.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+                  <div>
+                    <p className="font-mono text-sm">{key.id}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Created {new Date(key.created_at).toLocaleString()}
+                      {key.retired_at && ` • Retired ${new Date(key.retired_at).toLocaleString()}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={key.status === 'active' ? 'default' : key.status === 'revoked' ? 'destructive' : 'secondary'}>
+                      {STATUS_LABELS[key.status]}
+                    </Badge>
+                    {key.status === 'retired' && (
+                      <Button variant="outline" size="sm" onClick={() => handleRevoke(key)} disabled={working}>
+                        Revoke
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,87 @@
+import { useState } from 'react'
+import { PieChart, RefreshCw } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { blink } from '../../blink/client'
+import { useToast } from '../../hooks/use-toast'
+import {
+  getTicketType,
+  summarizeRevenueByTicketType,
+  type RevenueBooking,
+  type TicketTypeRevenue
+} from '../../lib/ticket-types'
+
+interface TicketTypeReportProps {
+  theaterId?: string
+}
+
+export default function TicketTypeReport({ theaterId }: TicketTypeReportProps) {
+  const [rows, setRows] = useState<TicketTypeRevenue[] | null>(null)
+  const [loading, setLoading] = useState(false)
+  const { toast } = useToast()
+
+  const loadReport = async () => {
+    if (!theaterId) return
+
+    setLoading(true)
+    try {
+      // Ticket sales across all of the theater's shows, counting paid bookings only
+      const showtimes = (await blink.db.showtimes.list({ where: { theater_id: theaterId } })) as { id: string }[]
+      const bookings = showtimes.length === 0 ? [] : (await blink.db.bookings.list({
+        where: {
+          showtime_id: { in: showtimes.map(showtime => showtime.id) },
+          booking_status: { in: ['confirmed', 'checked_in'] }
+        }
+      })) as RevenueBooking[]
+      setRows(summarizeRevenueByTicketType(bookings))
+    } catch (error) {
+      console.error('Error loading ticket type report:', error)
+      toast({
+        title: "Report Failed",
+        description: "Could not load ticket sales. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const totalRevenue = rows?.reduce((sum, row) => sum + row.revenue, 0) || 0
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Revenue by Ticket Type</CardTitle>
+          <Button variant="outline" onClick={loadReport} disabled={loading || !theaterId}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            {rows ? 'Refresh' : 'Load Report'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!rows ? (
+          <div className="text-center py-12">
+            <PieChart className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">Split ticket sales into adult, child, senior and student</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {rows.map(row => (
+              <div key={row.type} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+                <span className="font-medium">{getTicketType(row.type).name}</span>
+                <div className="flex items-center gap-6 text-muted-foreground">
+                  <span>{row.tickets} tickets</span>
+                  <span className="w-24 text-right font-medium text-foreground">₹{Math.round(row.revenue)}</span>
+                  <span className="w-12 text-right">
+                    {totalRevenue > 0 ? Math.round((row.revenue / totalRevenue) * 100) : 0}%
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
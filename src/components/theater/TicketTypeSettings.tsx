@@ -0,0 +1,128 @@
+import { useState, useEffect, useCallback } from 'react'
+import { blink } from '../../blink/client'
+import { Button } from '../ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
+import { Input } from '../ui/input'
+import { Switch } from '../ui/switch'
+import { useToast } from '../../hooks/use-toast'
+import {
+  DEFAULT_TICKET_TYPE_RULES,
+  getTicketTypeRules,
+  TICKET_TYPES,
+  type TicketTypeId,
+  type TicketTypeRule,
+  type TicketTypeRules
+} from '../../lib/ticket-types'
+
+interface TicketTypeSettingsProps {
+  theaterId?: string
+}
+
+export default function TicketTypeSettings({ theaterId }: TicketTypeSettingsProps) {
+  const [rules, setRules] = useState<TicketTypeRules>(DEFAULT_TICKET_TYPE_RULES)
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  const fetchRules = useCallback(async () => {
+    if (!theaterId) return
+    try {
+      const theaters = await blink.db.theaters.list({ where: { id: theaterId }, limit: 1 })
+      setRules(getTicketTypeRules(theaters[0]?.ticket_types))
+    } catch (error) {
+      console.error('Error fetching ticket types:', error)
+    }
+  }, [theaterId])
+
+  useEffect(() => {
+    fetchRules()
+  }, [fetchRules])
+
+  const updateRule = (type: TicketTypeId, changes: Partial<TicketTypeRule>) => {
+    setRules(current => ({ ...current, [type]: { ...current[type], ...changes } }))
+  }
+
+  const saveRules = async () => {
+    if (!theaterId) return
+
+    setSaving(true)
+    try {
+      await blink.db.theaters.update(theaterId, { ticket_types: JSON.stringify(rules) })
+      toast({
+        title: "Ticket Types Saved",
+        description: "Showtimes without their own rules now use these prices"
+      })
+    } catch (error) {
+      console.error('Error saving ticket types:', error)
+      toast({
+        title: "Save Failed",
+        description: "Could not save ticket types. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Ticket Types</CardTitle>
+          <Button onClick={saveRules} disabled={saving || !theaterId}>
+            {saving ? 'Saving...' : 'Save Ticket Types'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!theaterId ? (
+          <p className="text-center py-12 text-muted-foreground">No theater is linked to your account</p>
+        ) : (
+          <div className="space-y-2">
+            <div className="grid grid-cols-4 gap-4 text-xs font-medium text-muted-foreground px-3">
+              <span>Type</span>
+              <span>On sale</span>
+              <span>Discount (%)</span>
+              <span>Check ID at entry</span>
+            </div>
+            {TICKET_TYPES.map(type => {
+              const rule = rules[type.id]
+              // Adult is the full-price ticket every seat falls back to
+              const fixed = type.id === 'adult'
+              return (
+                <div key={type.id} className="grid grid-cols-4 gap-4 items-center p-3 border rounded-lg">
+                  <div>
+                    <p className="font-medium">{type.name}</p>
+                    <p className="text-xs text-muted-foreground">{type.description}</p>
+                  </div>
+                  <Switch
+                    checked={rule.enabled}
+                    disabled={fixed}
+                    onCheckedChange={(enabled) => updateRule(type.id, { enabled })}
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={rule.discountPercent}
+                    disabled={fixed || !rule.enabled}
+                    onChange={(e) => updateRule(type.id, {
+                      discountPercent: Math.min(100, Math.max(0, Number(e.target.value) || 0))
+                    })}
+                  />
+                  <Switch
+                    checked={rule.requiresId}
+                    disabled={fixed || !rule.enabled}
+                    onCheckedChange={(requiresId) => updateRule(type.id, { requiresId })}
+                  />
+                </div>
+              )
+            })}
+            <p className="text-sm text-muted-foreground pt-2">
+              Discounts apply to each seat's category price. A showtime can override these with its own rules.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
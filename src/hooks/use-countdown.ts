@@ -0,0 +1,29 @@
+import { useEffect, useState } from "react"
+
+// Milliseconds left until `target`, re-rendering every second. Null when there is no target.
+export function useCountdown(target: string | null) {
+  const [remaining, setRemaining] = useState<number | null>(null)
+
+  useEffect(() => {
+    if (!target) {
+      setRemaining(null)
+      return
+    }
+
+    const end = new Date(target).getTime()
+    const tick = () => setRemaining(Math.max(0, end - Date.now()))
+    tick()
+
+    const interval = setInterval(tick, 1000)
+    return () => clearInterval(interval)
+  }, [target])
+
+  return remaining
+}
+
+export function formatCountdown(ms: number) {
+  const totalSeconds = Math.ceil(ms / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`
+}
@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import { blink } from "../blink/client"
+import { fetchActiveHolds } from "../lib/seat-holds"
+import { parseSeats } from "../lib/seats"
+import { SEAT_CONSUMING_STATUSES } from "../lib/inventory"
+import { isPaymentOverdue, type Booking } from "../lib/bookings"
+import { subscribeToSeatEvents, type SeatEvent } from "../lib/seat-events"
+
+// Without realtime the seat map polls on this interval
+const POLL_INTERVAL_MS = 5000
+// With realtime a slow poll still picks up expired holds and any missed messages
+const RECONCILE_INTERVAL_MS = 30000
+// How long a seat that someone else just took stays highlighted
+const CHANGE_HIGHLIGHT_MS = 1500
+
+interface SeatSnapshot {
+  occupied: string[]
+  held: string[]
+}
+
+/**
+ * Booked and held seats for a showtime, kept current through realtime seat
+ * events with polling as a fallback. Seats held by `userId` are left out of
+ * `heldSeats`. `changedSeats` lists seats that were just taken, for animating.
+ */
+export function useLiveSeats(showtimeId: string | undefined, userId: string | null) {
+  const [occupiedSeats, setOccupiedSeats] = useState<string[]>([])
+  const [heldSeats, setHeldSeats] = useState<string[]>([])
+  const [changedSeats, setChangedSeats] = useState<Set<string>>(new Set())
+  const [live, setLive] = useState(false)
+  const [ready, setReady] = useState(false)
+
+  const snapshotRef = useRef<SeatSnapshot>({ occupied: [], held: [] })
+  const initialisedRef = useRef(false)
+
+  const applySnapshot = useCallback((next: SeatSnapshot) => {
+    const previous = snapshotRef.current
+    snapshotRef.current = next
+    setOccupiedSeats(next.occupied)
+    setHeldSeats(next.held)
+
+    // Everything is "new" on the first load, so only animate later changes
+    if (!initialisedRef.current) {
+      initialisedRef.current = true
+      return
+    }
+    const taken = [...next.occupied, ...next.held].filter(
+      id => !previous.occupied.includes(id) && !previous.held.includes(id)
+    )
+    if (taken.length === 0) return
+
+    setChangedSeats(prev => new Set([...prev, ...taken]))
+    setTimeout(() => {
+      setChangedSeats(prev => new Set([...prev].filter(id => !taken.includes(id))))
+    }, CHANGE_HIGHLIGHT_MS)
+  }, [])
+
+  const refresh = useCallback(async () => {
+    if (!showtimeId || !userId) return
+    try {
+      const [bookings, holds] = await Promise.all([
+        blink.db.bookings.list({
+          where: { showtime_id: showtimeId, booking_status: { in: SEAT_CONSUMING_STATUSES } }
+        }) as Promise<Booking[]>,
+        fetchActiveHolds(showtimeId)
+      ])
+      applySnapshot({
+        // Unpaid bookings past their deadline are expired on the next booking attempt, so show them as free
+        occupied: bookings.filter(booking => !isPaymentOverdue(booking)).flatMap(booking => parseSeats(booking)),
+        held: holds.filter(hold => hold.user_id !== userId).map(hold => hold.seat_id)
+      })
+    } catch (error) {
+      console.error("Error fetching seat availability:", error)
+    } finally {
+      setReady(true)
+    }
+  }, [showtimeId, userId, applySnapshot])
+
+  const applyEvent = useCallback((event: SeatEvent) => {
+    const { occupied, held } = snapshotRef.current
+    const without = (seats: string[]) => seats.filter(id => !event.seatIds.includes(id))
+
+    switch (event.type) {
+      case "held":
+        if (event.userId === userId) return
+        applySnapshot({ occupied, held: [...without(held), ...event.seatIds] })
+        break
+      case "released":
+        applySnapshot({ occupied, held: without(held) })
+        break
+      case "booked":
+        applySnapshot({ occupied: [...without(occupied), ...event.seatIds], held: without(held) })
+        break
+      case "freed":
+        applySnapshot({ occupied: without(occupied), held })
+        break
+    }
+  }, [userId, applySnapshot])
+
+  useEffect(() => {
+    if (!showtimeId || !userId) return
+
+    let cancelled = false
+    let unsubscribe: (() => void) | null = null
+    let interval: ReturnType<typeof setInterval> | null = null
+
+    const startPolling = (ms: number) => {
+      if (interval) clearInterval(interval)
+      interval = setInterval(() => {
+        // Don't poll for a tab nobody is looking at
+        if (!document.hidden) refresh()
+      }, ms)
+    }
+
+    refresh()
+    startPolling(POLL_INTERVAL_MS)
+
+    subscribeToSeatEvents(showtimeId, applyEvent)
+      .then(stop => {
+        if (cancelled) {
+          stop()
+          return
+        }
+        unsubscribe = stop
+        setLive(true)
+        startPolling(RECONCILE_INTERVAL_MS)
+      })
+      .catch(error => {
+        console.error("Realtime seat updates unavailable, falling back to polling:", error)
+      })
+
+    const handleVisibility = () => {
+      if (!document.hidden) refresh()
+    }
+    document.addEventListener("visibilitychange", handleVisibility)
+
+    return () => {
+      cancelled = true
+      unsubscribe?.()
+      if (interval) clearInterval(interval)
+      document.removeEventListener("visibilitychange", handleVisibility)
+      setLive(false)
+    }
+  }, [showtimeId, userId, refresh, applyEvent])
+
+  return { occupiedSeats, heldSeats, changedSeats, live, ready, refresh }
+}
@@ -0,0 +1,153 @@
+import { getCellSeatIds, type LayoutCell, type SeatLayout } from './seat-layout'
+
+// Real-world sizes in metres, used to turn a seat layout into a 3D room
+export interface AuditoriumDimensions {
+  screenWidth: number
+  // How much higher each row sits than the one in front of it
+  rowRise: number
+}
+
+export const SEAT_WIDTH = 0.6
+export const ROW_SPACING = 1.0
+export const FRONT_ROW_DISTANCE = 4
+export const EYE_HEIGHT = 1.15
+export const SCREEN_BOTTOM = 1.2
+export const SCREEN_ASPECT = 1.85
+// Below this, heads in the row in front start cutting into the bottom of the screen
+export const MIN_SIGHTLINE_CLEARANCE = 0.12
+
+const DEFAULT_ROW_RISE = 0.18
+
+export interface AuditoriumSeat {
+  // Every seat ID the cell covers; couple seats cover two
+  ids: string[]
+  row: number
+  category: string
+  blocked: boolean
+  width: number
+  position: [number, number, number]
+}
+
+export interface Auditorium {
+  dimensions: AuditoriumDimensions
+  seats: AuditoriumSeat[]
+  screen: { width: number; height: number; center: [number, number, number] }
+  // Depth of the room from the screen to the back row, for the floor and camera
+  depth: number
+  width: number
+}
+
+export interface SeatView {
+  eye: [number, number, number]
+  // Straight-line distance from the eye to the middle of the screen
+  distance: number
+  // How much of the horizontal field of view the screen fills
+  screenAngle: number
+  // Head turn needed to face the middle of the screen, in degrees: right is +, up is +
+  sideAngle: number
+  tiltAngle: number
+  // How far the line to the bottom of the screen passes above the eyes of the row in front
+  clearance: number | null
+}
+
+const cellWidth = (cell: LayoutCell) => (cell.type === 'seat' && cell.kind === 'couple' ? 2 : 1)
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI
+
+const widestRow = (layout: SeatLayout) =>
+  Math.max(0, ...layout.rows.map(row => row.cells.reduce((sum, cell) => sum + cellWidth(cell), 0)))
+
+export function getAuditoriumDimensions(layout: SeatLayout): AuditoriumDimensions {
+  return {
+    // Most rooms have a screen a little narrower than the seating block
+    screenWidth: layout.dimensions?.screenWidth || Math.max(6, widestRow(layout) * SEAT_WIDTH * 0.8),
+    rowRise: layout.dimensions?.rowRise ?? DEFAULT_ROW_RISE
+  }
+}
+
+// Rows counted from the screen, wherever the layout draws it
+const getRowDepth = (layout: SeatLayout, rowIndex: number) =>
+  layout.screen.position === 'top' ? rowIndex : layout.rows.length - 1 - rowIndex
+
+/**
+ * Places every seat in a room with the screen at z = 0 and rows stepping
+ * back (+z) and up (+y). With the screen drawn at the bottom of the map the
+ * audience faces down it, so left and right are mirrored.
+ */
+export function buildAuditorium(layout: SeatLayout): Auditorium {
+  const dimensions = getAuditoriumDimensions(layout)
+  const mirror = layout.screen.position === 'bottom' ? -1 : 1
+  const seats: AuditoriumSeat[] = []
+
+  layout.rows.forEach((row, rowIndex) => {
+    const depth = getRowDepth(layout, rowIndex)
+    const rowWidth = row.cells.reduce((sum, cell) => sum + cellWidth(cell), 0)
+    let position = 0
+
+    row.cells.forEach(cell => {
+      const width = cellWidth(cell)
+      if (cell.type === 'seat') {
+        seats.push({
+          ids: getCellSeatIds(rowIndex, cell),
+          row: rowIndex,
+          category: cell.category,
+          blocked: !!cell.blocked,
+          width: width * SEAT_WIDTH,
+          position: [
+            mirror * (position + width / 2 - rowWidth / 2) * SEAT_WIDTH,
+            depth * dimensions.rowRise,
+            FRONT_ROW_DISTANCE + depth * ROW_SPACING
+          ]
+        })
+      }
+      position += width
+    })
+  })
+
+  const screenHeight = dimensions.screenWidth / SCREEN_ASPECT
+  return {
+    dimensions,
+    seats,
+    screen: {
+      width: dimensions.screenWidth,
+      height: screenHeight,
+      center: [0, SCREEN_BOTTOM + screenHeight / 2, 0]
+    },
+    depth: FRONT_ROW_DISTANCE + Math.max(0, layout.rows.length - 1) * ROW_SPACING + 2,
+    width: Math.max(dimensions.screenWidth, widestRow(layout) * SEAT_WIDTH) + 2
+  }
+}
+
+export function getSeatView(layout: SeatLayout, auditorium: Auditorium, seatId: string): SeatView | null {
+  const seat = auditorium.seats.find(candidate => candidate.ids.includes(seatId))
+  if (!seat) return null
+
+  // Sit in the matching half of a couple seat
+  const half = seat.ids.length > 1 ? (seat.ids.indexOf(seatId) - 0.5) * SEAT_WIDTH : 0
+  const mirror = layout.screen.position === 'bottom' ? -1 : 1
+  const [x, floor, z] = seat.position
+  const eye: [number, number, number] = [x + mirror * half, floor + EYE_HEIGHT, z]
+
+  const { width: screenWidth, center } = auditorium.screen
+  const left = Math.atan2(-screenWidth / 2 - eye[0], z)
+  const right = Math.atan2(screenWidth / 2 - eye[0], z)
+  const dy = center[1] - eye[1]
+
+  // The row directly in front, measured where the sightline passes over it
+  const depth = getRowDepth(layout, seat.row)
+  let clearance: number | null = null
+  if (depth > 0) {
+    const frontEye = (depth - 1) * auditorium.dimensions.rowRise + EYE_HEIGHT
+    const lineHeight = eye[1] + (SCREEN_BOTTOM - eye[1]) * (ROW_SPACING / z)
+    clearance = lineHeight - frontEye
+  }
+
+  return {
+    eye,
+    distance: Math.hypot(eye[0], dy, z),
+    screenAngle: toDegrees(right - left),
+    sideAngle: toDegrees(Math.atan2(-eye[0], z)),
+    tiltAngle: toDegrees(Math.atan2(dy, z)),
+    clearance
+  }
+}
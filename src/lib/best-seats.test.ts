@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { pickBestSeats } from './best-seats'
+import { createEmptyLayout, numberSeats, type LayoutCell, type SeatLayout } from './seat-layout'
+
+// One string per row: R regular seat, G gold seat, X blocked regular seat, | aisle
+function layoutFromRows(...rows: string[]): SeatLayout {
+  const toCell = (char: string): LayoutCell =>
+    char === '|'
+      ? { type: 'aisle' }
+      : { type: 'seat', number: 0, category: char === 'G' ? 'gold' : 'regular', blocked: char === 'X' }
+  return numberSeats({ ...createEmptyLayout(0, 0), rows: rows.map(row => ({ cells: [...row].map(toCell) })) })
+}
+
+const pick = (layout: SeatLayout, count: number, unavailable: string[] = []) =>
+  pickBestSeats(layout, { count, categoryId: 'regular', unavailable: new Set(unavailable) })
+
+describe('pickBestSeats', () => {
+  it('picks a centered block in the sweet-spot row', () => {
+    expect(pick(createEmptyLayout(5, 10), 2)).toEqual({ seats: ['4-5', '4-6'], split: false })
+  })
+
+  it('never picks taken or blocked seats', () => {
+    const result = pick(layoutFromRows('RRXRR'), 2, ['1-1'])
+    expect(result).toEqual({ seats: ['1-4', '1-5'], split: false })
+  })
+
+  it('keeps a block on one side of an aisle', () => {
+    const result = pick(layoutFromRows('RR|RR'), 3)
+    expect(result?.split).toBe(true)
+  })
+
+  it('splits the party when no single block fits', () => {
+    expect(pick(layoutFromRows('RRRR'), 3, ['1-2'])).toEqual({ seats: ['1-3', '1-4', '1-1'], split: true })
+  })
+
+  it('returns null when there are not enough free seats', () => {
+    expect(pick(layoutFromRows('RRR'), 3, ['1-2'])).toBeNull()
+  })
+
+  it('prefers a block that does not strand a single seat', () => {
+    // 3-4 is more central but would leave seat 2 alone between it and the taken seat 1
+    expect(pick(layoutFromRows('RRRRRR'), 2, ['1-1'])).toEqual({ seats: ['1-2', '1-3'], split: false })
+  })
+
+  it('treats a free seat of another category as open, not as an edge', () => {
+    expect(pick(layoutFromRows('GRRRRG'), 2)).toEqual({ seats: ['1-3', '1-4'], split: false })
+  })
+
+  it('counts a taken seat of another category as an edge', () => {
+    // With both gold seats taken, 3-4 would strand seats 2 and 5
+    expect(pick(layoutFromRows('GRRRRG'), 2, ['1-1', '1-6'])?.seats).toEqual(['1-2', '1-3'])
+  })
+})
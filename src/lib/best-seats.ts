@@ -0,0 +1,174 @@
+import { getCellSeatIds, getSeatId, type LayoutSeatCell, type SeatLayout } from './seat-layout'
+
+export interface BestSeatsOptions {
+  count: number
+  categoryId: string
+  // Seats that are booked or held and cannot be picked
+  unavailable: Set<string>
+  // How far back from the screen the best rows sit, 0 = front row, 1 = back row
+  sweetSpot?: number
+}
+
+export interface BestSeatsResult {
+  seats: string[]
+  // True when no single block fits the party and it had to be split up
+  split: boolean
+}
+
+// A seat cell in a stretch of row between aisles, gaps or stairs, whatever its category or kind
+interface SegmentSeat {
+  ids: string[]
+  blocked: boolean
+}
+
+interface RunSeat {
+  id: string
+  // Horizontal offset from the row's center line, in seat widths
+  offset: number
+  // Where the seat sits among its physical neighbours, for orphan checks
+  segment: SegmentSeat[]
+  slot: number
+}
+
+interface Candidate {
+  seats: string[]
+  score: number
+}
+
+const DEFAULT_SWEET_SPOT = 0.65
+// A stranded single seat is worth this many seats of distance from the center
+const ORPHAN_PENALTY = 4
+
+const cellWidth = (cell: SeatLayout['rows'][number]['cells'][number]) =>
+  cell.type === 'seat' && cell.kind === 'couple' ? 2 : 1
+
+/**
+ * Splits each row into runs of adjacent seats the customer could sit in
+ * together. Aisles, gaps, stairs and seats of other categories or kinds
+ * break a run. Runs keep unavailable seats so orphan checks can see them.
+ */
+function buildRuns(layout: SeatLayout, categoryId: string) {
+  return layout.rows.map((row, rowIndex) => {
+    const width = row.cells.reduce((sum, cell) => sum + cellWidth(cell), 0)
+    const runs: RunSeat[][] = [[]]
+    let segment: SegmentSeat[] = []
+    let position = 0
+
+    row.cells.forEach(cell => {
+      if (cell.type !== 'seat') {
+        segment = []
+      } else {
+        segment.push({ ids: getCellSeatIds(rowIndex, cell), blocked: !!cell.blocked })
+      }
+
+      const isPickable = cell.type === 'seat'
+        && !cell.blocked
+        && (cell.kind || 'standard') === 'standard'
+        && cell.category === categoryId
+
+      if (isPickable) {
+        const seat = cell as LayoutSeatCell
+        runs[runs.length - 1].push({
+          id: getSeatId(rowIndex, seat.number),
+          offset: Math.abs(position + 0.5 - width / 2),
+          segment,
+          slot: segment.length - 1
+        })
+      } else if (runs[runs.length - 1].length > 0) {
+        runs.push([])
+      }
+      position += cellWidth(cell)
+    })
+
+    return runs.filter(run => run.length > 0)
+  })
+}
+
+/**
+ * True if taking the block strands one free seat beside it. Only aisles,
+ * row ends and blocked or taken seats close off a seat; a free seat of
+ * another category is still there for someone to book.
+ */
+function leavesOrphan(block: RunSeat[], unavailable: Set<string>) {
+  const isOpen = (segment: SegmentSeat[], slot: number) => {
+    const cell = segment[slot]
+    return !!cell && !cell.blocked && !cell.ids.some(id => unavailable.has(id))
+  }
+  // Couple seats cannot be stranded: they are only ever booked whole
+  const isOpenSingle = (segment: SegmentSeat[], slot: number) =>
+    isOpen(segment, slot) && segment[slot].ids.length === 1
+
+  const first = block[0]
+  const last = block[block.length - 1]
+  return (isOpenSingle(first.segment, first.slot - 1) && !isOpen(first.segment, first.slot - 2)) ||
+    (isOpenSingle(last.segment, last.slot + 1) && !isOpen(last.segment, last.slot + 2))
+}
+
+function findBlocks(
+  layout: SeatLayout,
+  runsByRow: RunSeat[][][],
+  count: number,
+  unavailable: Set<string>,
+  sweetSpot: number
+): Candidate[] {
+  const rowCount = layout.rows.length
+  const candidates: Candidate[] = []
+
+  runsByRow.forEach((runs, rowIndex) => {
+    // Depth is measured from the screen, wherever the layout puts it
+    const depth = rowCount > 1
+      ? (layout.screen.position === 'top' ? rowIndex : rowCount - 1 - rowIndex) / (rowCount - 1)
+      : sweetSpot
+    const rowPenalty = Math.abs(depth - sweetSpot) * rowCount
+
+    runs.forEach(run => {
+      for (let start = 0; start + count <= run.length; start++) {
+        const block = run.slice(start, start + count)
+        if (block.some(seat => unavailable.has(seat.id))) continue
+
+        const centerPenalty = block.reduce((sum, seat) => sum + seat.offset, 0) / count
+        const orphanPenalty = leavesOrphan(block, unavailable) ? ORPHAN_PENALTY : 0
+        candidates.push({
+          seats: block.map(seat => seat.id),
+          score: centerPenalty + rowPenalty + orphanPenalty
+        })
+      }
+    })
+  })
+
+  return candidates.sort((a, b) => a.score - b.score)
+}
+
+/**
+ * Picks the best seats for a party: a single contiguous block in the chosen
+ * category closest to the center line and the sweet-spot rows, preferring
+ * blocks that don't strand a single empty seat. When no block fits, the
+ * party is split into the largest blocks available.
+ */
+export function pickBestSeats(layout: SeatLayout, options: BestSeatsOptions): BestSeatsResult | null {
+  const { count, categoryId, sweetSpot = DEFAULT_SWEET_SPOT } = options
+  const unavailable = new Set(options.unavailable)
+  const runsByRow = buildRuns(layout, categoryId)
+
+  const [best] = findBlocks(layout, runsByRow, count, unavailable, sweetSpot)
+  if (best) {
+    return { seats: best.seats, split: false }
+  }
+
+  const picked: string[] = []
+  let remaining = count
+  let blockSize = count - 1
+
+  while (remaining > 0 && blockSize > 0) {
+    const [block] = findBlocks(layout, runsByRow, Math.min(blockSize, remaining), unavailable, sweetSpot)
+    if (!block) {
+      blockSize--
+      continue
+    }
+    picked.push(...block.seats)
+    block.seats.forEach(id => unavailable.add(id))
+    remaining -= block.seats.length
+  }
+
+  return remaining === 0 ? { seats: picked, split: true } : null
+}
@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { canTransition, getBookingStatus, InvalidTransitionError, transitionBooking } from './booking-state'
+
+const { sql, update, adjustAvailableSeats, publishSeatEvent } = vi.hoisted(() => ({
+  sql: vi.fn(),
+  update: vi.fn(),
+  adjustAvailableSeats: vi.fn(),
+  publishSeatEvent: vi.fn()
+}))
+
+vi.mock('../blink/client', () => ({ blink: { db: { sql, bookings: { update } } } }))
+vi.mock('./inventory', async importOriginal => ({
+  ...(await importOriginal<typeof import('./inventory')>()),
+  adjustAvailableSeats
+}))
+vi.mock('./seat-events', () => ({ publishSeatEvent }))
+
+const booking = (status: string, extra: Record<string, unknown> = {}) => ({
+  id: 'bk_1',
+  showtime_id: 'st_1',
+  seats: JSON.stringify(['1-1', '1-2']),
+  booking_status: status,
+  ...extra
+})
+
+describe('canTransition', () => {
+  it('follows the booking lifecycle', () => {
+    expect(canTransition('held', 'pending_payment')).toBe(true)
+    expect(canTransition('pending_payment', 'confirmed')).toBe(true)
+    expect(canTransition('confirmed', 'checked_in')).toBe(true)
+    expect(canTransition('cancelled', 'refunded')).toBe(true)
+  })
+
+  it('rejects skipped and backward steps', () => {
+    expect(canTransition('held', 'confirmed')).toBe(false)
+    expect(canTransition('confirmed', 'pending_payment')).toBe(false)
+    expect(canTransition('pending_payment', 'refunded')).toBe(false)
+  })
+
+  it('treats checked in, refunded and expired as final', () => {
+    for (const to of ['confirmed', 'cancelled', 'refunded'] as const) {
+      expect(canTransition('checked_in', to)).toBe(false)
+      expect(canTransition('refunded', to)).toBe(false)
+      expect(canTransition('expired', to)).toBe(false)
+    }
+  })
+})
+
+describe('getBookingStatus', () => {
+  it('reads legacy check-ins from the checked_in flag', () => {
+    expect(getBookingStatus({ booking_status: 'confirmed', checked_in: 1 })).toBe('checked_in')
+    expect(getBookingStatus({ booking_status: 'confirmed', checked_in: 0 })).toBe('confirmed')
+    expect(getBookingStatus({ booking_status: 'cancelled', checked_in: true })).toBe('cancelled')
+  })
+})
+
+describe('transitionBooking', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    sql.mockResolvedValue({ rows: [{ id: 'bk_1' }] })
+  })
+
+  it('updates only while the booking keeps the status that was read', async () => {
+    const result = await transitionBooking(booking('pending_payment'), 'confirmed', { reason: 'paid' })
+
+    const [query, params] = sql.mock.calls[0]
+    expect(query).toContain('WHERE id = ? AND booking_status = ?')
+    expect(params.slice(-2)).toEqual(['bk_1', 'pending_payment'])
+    expect(result.booking_status).toBe('confirmed')
+    expect(JSON.parse(result.status_history)).toEqual([
+      expect.objectContaining({ from: 'pending_payment', to: 'confirmed', reason: 'paid' })
+    ])
+  })
+
+  it('throws without writing when the move is not allowed', async () => {
+    await expect(transitionBooking(booking('expired'), 'confirmed')).rejects.toBeInstanceOf(InvalidTransitionError)
+    expect(sql).not.toHaveBeenCalled()
+  })
+
+  it('throws when another client changed the booking first', async () => {
+    sql.mockResolvedValue({ rows: [] })
+    await expect(transitionBooking(booking('confirmed'), 'cancelled')).rejects.toThrow('updated by someone else')
+    expect(adjustAvailableSeats).not.toHaveBeenCalled()
+  })
+
+  it('treats a legacy checked-in booking as checked in', async () => {
+    await expect(transitionBooking(booking('confirmed', { checked_in: 1 }), 'cancelled'))
+      .rejects.toMatchObject({ from: 'checked_in', to: 'cancelled' })
+  })
+
+  it('releases seats when a booking stops holding them', async () => {
+    await transitionBooking(booking('confirmed'), 'cancelled')
+    expect(adjustAvailableSeats).toHaveBeenCalledWith('st_1', 2)
+    expect(publishSeatEvent).toHaveBeenCalledWith('st_1', 'freed', ['1-1', '1-2'])
+  })
+
+  it('takes seats when a booking starts holding them', async () => {
+    await transitionBooking(booking('held'), 'pending_payment')
+    expect(adjustAvailableSeats).toHaveBeenCalledWith('st_1', -2)
+    expect(publishSeatEvent).toHaveBeenCalledWith('st_1', 'booked', ['1-1', '1-2'])
+  })
+
+  it('leaves inventory alone between seat-consuming statuses', async () => {
+    await transitionBooking(booking('confirmed'), 'checked_in')
+    expect(adjustAvailableSeats).not.toHaveBeenCalled()
+  })
+
+  it('writes set columns in the same update and extra columns after it', async () => {
+    await transitionBooking(booking('confirmed'), 'cancelled', { set: { refund_amount: 10 }, extra: { note: 'x' } })
+    expect(sql.mock.calls[0][0]).toContain(', refund_amount = ?')
+    expect(update).toHaveBeenCalledWith('bk_1', { note: 'x' })
+  })
+})
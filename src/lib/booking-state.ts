@@ -0,0 +1,140 @@
+import { blink } from '../blink/client'
+import { adjustAvailableSeats, consumesSeats } from './inventory'
+import { publishSeatEvent } from './seat-events'
+import { parseSeats } from './seats'
+
+/**
+ * Values of bookings.booking_status:
+ * - held: seats reserved in seat_holds, before the booking row exists
+ * - pending_payment: booking created, waiting for the payment to be captured
+ * - confirmed: paid
+ * - checked_in: admitted at the venue
+ * - cancelled: cancelled after confirmation; a refund may follow
+ * - refunded: cancelled and the payment returned
+ * - expired: the hold or payment window ran out
+ */
+export type BookingStatus =
+  | 'held'
+  | 'pending_payment'
+  | 'confirmed'
+  | 'checked_in'
+  | 'cancelled'
+  | 'refunded'
+  | 'expired'
+
+export const BOOKING_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  held: ['pending_payment', 'expired'],
+  pending_payment: ['confirmed', 'cancelled', 'expired'],
+  confirmed: ['checked_in', 'cancelled'],
+  checked_in: [],
+  cancelled: ['refunded'],
+  refunded: [],
+  expired: []
+}
+
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+  held: 'Held',
+  pending_payment: 'Awaiting Payment',
+  confirmed: 'Confirmed',
+  checked_in: 'Checked In',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded',
+  expired: 'Expired'
+}
+
+export interface StatusChange {
+  from: BookingStatus
+  to: BookingStatus
+  at: string
+  reason?: string
+}
+
+export interface StatefulBooking {
+  id: string
+  showtime_id: string
+  seats: string
+  booking_status: string
+  checked_in?: boolean | number
+  status_history?: string
+}
+
+export class InvalidTransitionError extends Error {
+  from: BookingStatus
+  to: BookingStatus
+
+  constructor(from: BookingStatus, to: BookingStatus, message = `Cannot move a booking from ${from} to ${to}`) {
+    super(message)
+    this.name = 'InvalidTransitionError'
+    this.from = from
+    this.to = to
+  }
+}
+
+export const canTransition = (from: BookingStatus, to: BookingStatus) =>
+  BOOKING_TRANSITIONS[from]?.includes(to) ?? false
+
+// Bookings checked in before check-in became a status kept 'confirmed' with the checked_in flag set
+export function getBookingStatus(booking: Pick<StatefulBooking, 'booking_status' | 'checked_in'>): BookingStatus {
+  if (booking.booking_status === 'confirmed' && Number(booking.checked_in) > 0) return 'checked_in'
+  return booking.booking_status as BookingStatus
+}
+
+export const parseStatusHistory = (booking: Pick<StatefulBooking, 'status_history'>): StatusChange[] =>
+  booking.status_history ? JSON.parse(booking.status_history) : []
+
+// The history entry recorded when a booking row is first written
+export const createStatusHistory = (to: BookingStatus, from: BookingStatus = 'held') =>
+  JSON.stringify([{ from, to, at: new Date().toISOString() }])
+
+/**
+ * Moves a booking to a new status, recording the change in its
+ * status_history. The UPDATE only matches while the booking still has the
+ * status we read, so when two transitions race only one of them wins.
+ * Seat inventory follows the booking in and out of seat-consuming states.
+ * Columns in `set` are written by that same UPDATE, for values other
+ * clients must never see apart from the status; `extra` is written after.
+ */
+export async function transitionBooking<T extends StatefulBooking>(
+  booking: T,
+  to: BookingStatus,
+  {
+    reason,
+    set = {},
+    extra = {}
+  }: { reason?: string; set?: Record<string, string | number>; extra?: Record<string, unknown> } = {}
+) {
+  const from = getBookingStatus(booking)
+  if (!canTransition(from, to)) {
+    throw new InvalidTransitionError(from, to)
+  }
+
+  const at = new Date().toISOString()
+  const change: StatusChange = reason ? { from, to, at, reason } : { from, to, at }
+  const history = [...parseStatusHistory(booking), change]
+
+  const columns = Object.keys(set)
+  const result = await blink.db.sql(
+    `UPDATE bookings
+     SET booking_status = ?, status_history = ?, status_updated_at = ?${columns.map(column => `, ${column} = ?`).join('')}
+     WHERE id = ? AND booking_status = ?
+     RETURNING id`,
+    [to, JSON.stringify(history), at, ...Object.values(set), booking.id, booking.booking_status]
+  )
+  if (result.rows.length === 0) {
+    throw new InvalidTransitionError(from, to, 'This booking was updated by someone else. Please refresh and try again.')
+  }
+
+  if (Object.keys(extra).length > 0) {
+    await blink.db.bookings.update(booking.id, extra)
+  }
+
+  const wasConsuming = consumesSeats(from)
+  const isConsuming = consumesSeats(to)
+  if (wasConsuming !== isConsuming) {
+    const seats = parseSeats(booking)
+    await adjustAvailableSeats(booking.showtime_id, isConsuming ? -seats.length : seats.length)
+    await publishSeatEvent(booking.showtime_id, isConsuming ? 'booked' : 'freed', seats)
+  }
+
+  return { ...booking, ...set, booking_status: to, status_history: JSON.stringify(history), status_updated_at: at }
+}
@@ -0,0 +1,242 @@
+import { blink } from '../blink/client'
+import { callFunction, FunctionError } from '../blink/functions'
+import { formatSeatLabel, parseSeats } from './seats'
+import { consumeInventory, SEAT_CONSUMING_STATUSES } from './inventory'
+import { createStatusHistory, InvalidTransitionError, transitionBooking } from './booking-state'
+import { publishSeatEvent } from './seat-events'
+import { findLostHolds, HoldExpiredError } from './seat-holds'
+import { normalizePromoCode, PromotionError } from './promotion-rules'
+import { ConcessionError } from './concession-pricing'
+import type { ConcessionSelection } from './concessions'
+import type { TicketTypeId } from './ticket-types'
+
+export interface Booking {
+  id: string
+  user_id: string
+  showtime_id: string
+  seats: string
+  // JSON object of seat ID to the price charged for it
+  seat_prices?: string
+  // JSON object of seat ID to its ticket type
+  ticket_types?: string
+  // JSON PriceBreakdown: the itemized fees and taxes making up total_amount
+  price_breakdown?: string
+  total_amount: number
+  booking_status: string
+  payment_status: string
+  qr_code: string
+  checked_in: boolean
+  // JSON object of seat ID to when it was admitted; the booking is checked_in once every seat is
+  checked_in_seats?: string
+  check_in_time?: string
+  // JSON CheckInOverride: set when staff admitted seats the check-in rules rejected
+  check_in_override?: string
+  idempotency_key?: string
+  payment_provider?: string
+  payment_intent_id?: string
+  amount_refunded?: number
+  // Set on cancellation: what the refund policy allowed and what it kept
+  refund_amount?: number
+  cancellation_fee?: number
+  // Exchanges: the booking this one replaced and the credit carried over from it,
+  // or the booking this one was exchanged for
+  exchanged_from?: string
+  exchanged_to?: string
+  exchange_credit?: number
+  exchange_fee?: number
+  // What checkout charges when it differs from total_amount, as after an exchange
+  amount_due?: number
+  // JSON ConcessionOrder: food and drinks ordered with the tickets
+  concessions?: string
+  // The promo code applied at booking and what it took off
+  promo_code?: string
+  promotion_id?: string
+  discount_amount?: number
+  status_history?: string
+  status_updated_at?: string
+  created_at: string
+}
+
+export interface CreateBookingInput {
+  userId: string
+  showtimeId: string
+  seats: string[]
+  ticketTypes: Record<string, TicketTypeId>
+  promoCode?: string
+  // Generated once per checkout attempt; retries with the same key return the original booking
+  idempotencyKey: string
+}
+
+export class SeatConflictError extends Error {
+  seats: string[]
+
+  constructor(seats: string[]) {
+    super(`Seats ${seats.map(formatSeatLabel).join(', ')} have already been booked`)
+    this.name = 'SeatConflictError'
+    this.seats = seats
+  }
+}
+
+export const generateId = (prefix: string) => `${prefix}_${crypto.randomUUID()}`
+
+export const createIdempotencyKey = () => crypto.randomUUID()
+
+// A random placeholder until the booking is confirmed and issued a signed ticket code
+// (see ticket-signing.ts); replaced whenever its seats change, so old tickets stop scanning
+export const generateQrCode = () => `QR_${crypto.randomUUID()}`
+
+// How long a customer has to pay before an unpaid booking expires and its seats are released
+export const PAYMENT_WINDOW_MS = 15 * 60 * 1000
+
+export const getPaymentDeadline = (booking: Pick<Booking, 'created_at'>) =>
+  new Date(new Date(booking.created_at).getTime() + PAYMENT_WINDOW_MS).toISOString()
+
+export const isPaymentOverdue = (booking: Pick<Booking, 'booking_status' | 'created_at'>, now = Date.now()) =>
+  booking.booking_status === 'pending_payment' && new Date(getPaymentDeadline(booking)).getTime() <= now
+
+async function fetchSeatConsumingBookings(showtimeId: string): Promise<Booking[]> {
+  const bookings = await blink.db.bookings.list({
+    where: {
+      showtime_id: showtimeId,
+      booking_status: { in: SEAT_CONSUMING_STATUSES }
+    }
+  })
+  return bookings as Booking[]
+}
+
+// Releases the seats of bookings whose payment window has run out
+export async function expireUnpaidBookings(showtimeId: string) {
+  const cutoff = new Date(Date.now() - PAYMENT_WINDOW_MS).toISOString()
+  const overdue = (await blink.db.bookings.list({
+    where: {
+      showtime_id: showtimeId,
+      booking_status: 'pending_payment',
+      created_at: { lte: cutoff }
+    }
+  })) as Booking[]
+
+  for (const booking of overdue) {
+    try {
+      await transitionBooking(booking, 'expired', { reason: 'Payment window elapsed' })
+    } catch (error) {
+      // Paid or expired by another client in the meantime
+      if (!(error instanceof InvalidTransitionError)) throw error
+    }
+  }
+}
+
+async function findByIdempotencyKey(userId: string, idempotencyKey: string): Promise<Booking | null> {
+  const existing = await blink.db.bookings.list({
+    where: { user_id: userId, idempotency_key: idempotencyKey },
+    limit: 1
+  })
+  return (existing[0] as Booking | undefined) ?? null
+}
+
+function findConflicts(bookings: Booking[], seats: string[]): string[] {
+  const taken = new Set(bookings.flatMap(parseSeats))
+  return seats.filter(seat => taken.has(seat))
+}
+
+// Earlier bookings win; ties on timestamp are broken by ID so every client agrees
+const bookedBefore = (a: Booking, b: Booking) =>
+  a.created_at === b.created_at ? a.id < b.id : a.created_at < b.created_at
+
+/**
+ * Has the price-booking edge function price an unpaid booking from the
+ * showtime's category prices, the theater's ticket type and fee rules, the
+ * booking's promo code and its food and drinks from the catalog, replacing
+ * whatever price it had. Passing `concessions` replaces the food and drinks
+ * order first. A code that fails its checks there throws a PromotionError,
+ * and an order that cannot be filled a ConcessionError.
+ */
+export async function priceBooking(bookingId: string, concessions?: ConcessionSelection): Promise<Booking> {
+  try {
+    const { booking } = await callFunction<{ booking: Booking }>('price-booking', { bookingId, concessions })
+    return booking
+  } catch (error) {
+    if (error instanceof FunctionError && error.code === 'promotion') throw new PromotionError(error.message)
+    if (error instanceof FunctionError && error.code === 'concessions') throw new ConcessionError(error.message)
+    throw error
+  }
+}
+
+// A retry can find its first attempt before that attempt was priced
+const withPrice = (booking: Booking) => (booking.price_breakdown ? booking : priceBooking(booking.id))
+
+/**
+ * Creates a pending_payment booking after checking the customer still
+ * holds every seat and the seats are still free; the seats stay taken until it is paid or expires. The database
+ * has no multi-row transactions, so the seats are re-checked after the
+ * write and the booking is rolled back if a concurrent booking claimed
+ * them first. The booking is then priced by trusted code, and rolled back
+ * if that fails.
+ */
+export async function createBooking(input: CreateBookingInput): Promise<Booking> {
+  const { userId, showtimeId, seats, ticketTypes, promoCode, idempotencyKey } = input
+
+  const existing = await findByIdempotencyKey(userId, idempotencyKey)
+  if (existing) return withPrice(existing)
+
+  // Only seats the customer still holds can be booked
+  const lostSeats = await findLostHolds(showtimeId, userId, seats)
+  if (lostSeats.length > 0) {
+    // A double submit can find the holds already released by its first copy
+    const original = await findByIdempotencyKey(userId, idempotencyKey)
+    if (original) return withPrice(original)
+    throw new HoldExpiredError(lostSeats)
+  }
+
+  await expireUnpaidBookings(showtimeId)
+  const conflicts = findConflicts(await fetchSeatConsumingBookings(showtimeId), seats)
+  if (conflicts.length > 0) {
+    // A double submit whose first copy landed after our lookup conflicts with itself
+    const original = await findByIdempotencyKey(userId, idempotencyKey)
+    if (original) return withPrice(original)
+    throw new SeatConflictError(conflicts)
+  }
+
+  const createdAt = new Date().toISOString()
+  const booking = (await blink.db.bookings.create({
+    id: generateId('booking'),
+    user_id: userId,
+    showtime_id: showtimeId,
+    seats: JSON.stringify(seats),
+    ticket_types: JSON.stringify(ticketTypes),
+    // Set by priceBooking below
+    total_amount: 0,
+    promo_code: promoCode ? normalizePromoCode(promoCode) : null,
+    booking_status: 'pending_payment',
+    payment_status: 'pending',
+    qr_code: generateQrCode(),
+    checked_in: false,
+    idempotency_key: idempotencyKey,
+    status_history: createStatusHistory('pending_payment'),
+    status_updated_at: createdAt,
+    created_at: createdAt
+  })) as Booking
+
+  const competing = (await fetchSeatConsumingBookings(showtimeId)).filter(
+    other => other.id !== booking.id && bookedBefore(other, booking)
+  )
+  const lateConflicts = findConflicts(competing, seats)
+  if (lateConflicts.length > 0) {
+    await blink.db.bookings.delete(booking.id)
+    const original = competing.find(other => other.user_id === userId && other.idempotency_key === idempotencyKey)
+    if (original) return withPrice(original)
+    throw new SeatConflictError(lateConflicts)
+  }
+
+  let priced: Booking
+  try {
+    priced = await priceBooking(booking.id)
+  } catch (error) {
+    await blink.db.bookings.delete(booking.id)
+    throw error
+  }
+
+  await consumeInventory(showtimeId, seats.length)
+  await publishSeatEvent(showtimeId, 'booked', seats, userId)
+
+  return priced
+}
@@ -0,0 +1,275 @@
+import { blink } from '../blink/client'
+import { BOOKING_STATUS_LABELS, getBookingStatus, transitionBooking } from './booking-state'
+import { parseCheckedInSeats } from './check-in'
+import { adjustAvailableSeats } from './inventory'
+import { refundBooking } from './exchanges'
+import { hasCapturedPayment } from './payments'
+import { calculatePriceBreakdown, getBookingBreakdown, type PriceBreakdown } from './price-breakdown'
+import { getShowStart, parseRefundPolicy, quoteRefund, type RefundPolicy, type RefundQuote } from './refund-policy'
+import { publishSeatEvent } from './seat-events'
+import { listSeats, parseSeatLayout } from './seat-layout'
+import { getBookedSeatPrices } from './seat-pricing'
+import { formatSeatLabel, parseSeats } from './seats'
+import { issueTicketCode } from './ticket-signing'
+import { parseTicketTypes } from './ticket-types'
+import { generateQrCode, type Booking } from './bookings'
+
+export class CancellationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CancellationError'
+  }
+}
+
+// Customers manage their own bookings; box-office staff any booking at their theater
+export type CancellationActor = { userId: string } | { theaterId: string }
+
+export interface CancellationQuote {
+  booking: Booking
+  policy: RefundPolicy
+  quote: RefundQuote
+  // Unpaid bookings can be cancelled but have nothing to refund
+  paid: boolean
+}
+
+export interface SeatRemovalQuote extends CancellationQuote {
+  // The requested seats plus any seats that can only be booked together with them
+  removedSeats: string[]
+  remainingSeats: string[]
+  // Seats that are sold together, keyed by each of their seat IDs
+  units: Record<string, string[]>
+  seatPrices: Record<string, number>
+  // Recalculated for the remaining seats with the rules the booking was priced under
+  priceBreakdown: PriceBreakdown | null
+  newTotal: number
+}
+
+export interface CancellationResult {
+  refundAmount: number
+  fee: number
+  // False when the booking was cancelled but the provider refund failed and needs a retry
+  refunded: boolean
+}
+
+const CANCELLABLE_STATUSES = ['pending_payment', 'confirmed']
+
+async function loadBooking(bookingId: string, actor: CancellationActor) {
+  const bookings = (await blink.db.bookings.list({ where: { id: bookingId }, limit: 1 })) as Booking[]
+  const booking = bookings[0]
+  if (!booking || ('userId' in actor && booking.user_id !== actor.userId)) {
+    throw new CancellationError('Booking not found')
+  }
+
+  const showtimes = await blink.db.showtimes.list({ where: { id: booking.showtime_id }, limit: 1 })
+  const showtime = showtimes[0]
+  if (!showtime || ('theaterId' in actor && showtime.theater_id !== actor.theaterId)) {
+    throw new CancellationError(showtime ? 'Booking not found' : 'Showtime not found')
+  }
+
+  const theaters = await blink.db.theaters.list({ where: { id: showtime.theater_id }, limit: 1 })
+  return { booking, showtime, policy: parseRefundPolicy(theaters[0]?.refund_policy) }
+}
+
+const cancelledBy = (actor: CancellationActor) =>
+  'userId' in actor ? 'customer' : 'box office'
+
+/**
+ * Looks up what cancelling the booking right now would refund under its
+ * theater's policy. Throws a CancellationError if the booking cannot be
+ * cancelled by this actor at all.
+ */
+export async function getCancellationQuote(bookingId: string, actor: CancellationActor): Promise<CancellationQuote> {
+  const { booking, showtime, policy } = await loadBooking(bookingId, actor)
+
+  const status = getBookingStatus(booking)
+  if (!CANCELLABLE_STATUSES.includes(status)) {
+    throw new CancellationError(`This booking is ${BOOKING_STATUS_LABELS[status].toLowerCase()} and cannot be cancelled`)
+  }
+  if (Object.keys(parseCheckedInSeats(booking)).length > 0) {
+    throw new CancellationError('Some seats on this booking have been checked in, so it can no longer be cancelled')
+  }
+
+  const paid = hasCapturedPayment(booking)
+  return {
+    booking,
+    policy,
+    quote: quoteRefund(policy, paid ? Number(booking.total_amount) : 0, getShowStart(showtime)),
+    paid
+  }
+}
+
+/**
+ * Cancels the booking, which releases its seats, then refunds the amount
+ * the policy allows. The quote is recomputed here rather than trusted from
+ * the dialog, since time has passed since it was shown.
+ */
+export async function cancelBooking(bookingId: string, actor: CancellationActor): Promise<CancellationResult> {
+  const { booking, quote, paid } = await getCancellationQuote(bookingId, actor)
+  if (!quote.allowed) {
+    throw new CancellationError(quote.reason)
+  }
+
+  const cancelled = await transitionBooking(booking, 'cancelled', {
+    reason: `Cancelled by ${cancelledBy(actor)}`,
+    extra: {
+      refund_amount: (booking.refund_amount || 0) + quote.refundAmount,
+      cancellation_fee: (booking.cancellation_fee || 0) + quote.fee
+    }
+  })
+
+  const result = { refundAmount: quote.refundAmount, fee: quote.fee, refunded: true }
+  if (!paid || quote.refundAmount === 0) return result
+
+  try {
+    await refundBooking(booking, quote.refundAmount)
+    await transitionBooking(cancelled, 'refunded', { reason: `Refunded ₹${quote.refundAmount}` })
+  } catch (error) {
+    console.error('Error refunding cancelled booking:', error)
+    return { ...result, refunded: false }
+  }
+  return result
+}
+
+/**
+ * Works out the effect of dropping some seats from a confirmed booking:
+ * the remaining total from each seat's price, and the refund the policy
+ * allows on the difference.
+ */
+export async function getSeatRemovalQuote(
+  bookingId: string,
+  seatIds: string[],
+  actor: CancellationActor
+): Promise<SeatRemovalQuote> {
+  const { booking, showtime, policy } = await loadBooking(bookingId, actor)
+
+  if (getBookingStatus(booking) !== 'confirmed') {
+    throw new CancellationError('Seats can only be removed from a confirmed booking that has not been checked in')
+  }
+
+  const bookedSeats = parseSeats(booking)
+  const unknown = seatIds.filter(seatId => !bookedSeats.includes(seatId))
+  if (unknown.length > 0) {
+    throw new CancellationError(`${unknown.map(formatSeatLabel).join(', ')} ${unknown.length === 1 ? 'is' : 'are'} not part of this booking`)
+  }
+
+  const screens = await blink.db.screens.list({ where: { id: showtime.screen_id }, limit: 1 })
+  const layout = parseSeatLayout(screens[0]?.seat_layout)
+
+  // Couple seats are sold as a pair, so removing either half removes both
+  const units = new Map(
+    layout
+      ? listSeats(layout)
+          .filter(seat => bookedSeats.includes(seat.id))
+          .map(seat => [seat.id, seat.unit])
+      : []
+  )
+  const removing = new Set(seatIds.flatMap(seatId => units.get(seatId) || [seatId]))
+  const removedSeats = bookedSeats.filter(seatId => removing.has(seatId))
+  const remainingSeats = bookedSeats.filter(seatId => !removing.has(seatId))
+
+  if (removedSeats.length === 0) {
+    throw new CancellationError('Choose at least one seat to remove')
+  }
+  const admitted = parseCheckedInSeats(booking)
+  const removingAdmitted = removedSeats.filter(seatId => admitted[seatId])
+  if (removingAdmitted.length > 0) {
+    throw new CancellationError(`${removingAdmitted.map(formatSeatLabel).join(', ')} ${removingAdmitted.length === 1 ? 'has' : 'have'} already been checked in`)
+  }
+  if (remainingSeats.length === 0) {
+    throw new CancellationError('To give up every seat, cancel the whole booking instead')
+  }
+
+  const seatPrices = getBookedSeatPrices(booking, showtime, layout)
+  const remainingPrices = remainingSeats.map(seatId => seatPrices[seatId] || 0)
+  const charged = getBookingBreakdown(booking)
+  const priceBreakdown = booking.price_breakdown
+    ? calculatePriceBreakdown(remainingPrices, charged.rules, {
+        discountTerms: charged.discountTerms,
+        concessions: charged.concessions
+      })
+    : null
+  const newTotal = priceBreakdown?.total ?? remainingPrices.reduce((total, price) => total + price, 0)
+  const removedAmount = Math.max(0, Number(booking.total_amount) - newTotal)
+
+  const paid = hasCapturedPayment(booking)
+  return {
+    booking,
+    policy,
+    quote: quoteRefund(policy, paid ? removedAmount : 0, getShowStart(showtime)),
+    paid,
+    removedSeats,
+    remainingSeats,
+    units: Object.fromEntries(units),
+    seatPrices,
+    priceBreakdown,
+    newTotal
+  }
+}
+
+/**
+ * Drops seats from a confirmed booking. The seats go back on sale, the
+ * booking gets a new signed ticket code, and the removed seats' share of the payment
+ * is refunded under the cancellation policy.
+ */
+export async function removeSeats(
+  bookingId: string,
+  seatIds: string[],
+  actor: CancellationActor
+): Promise<CancellationResult & { removedSeats: string[] }> {
+  const { booking, quote, paid, removedSeats, remainingSeats, seatPrices, priceBreakdown, newTotal } =
+    await getSeatRemovalQuote(bookingId, seatIds, actor)
+  const ticketTypes = parseTicketTypes(booking)
+  if (!quote.allowed) {
+    throw new CancellationError(quote.reason)
+  }
+
+  // Matching on the old seats means a concurrent change to the booking makes this a no-op
+  const updated = await blink.db.sql(
+    `UPDATE bookings
+     SET seats = ?, seat_prices = ?, ticket_types = ?, price_breakdown = ?, total_amount = ?, qr_code = ?,
+         refund_amount = ?, cancellation_fee = ?
+     WHERE id = ? AND seats = ? AND booking_status = 'confirmed' AND COALESCE(checked_in_seats, '') = ?
+     RETURNING id`,
+    [
+      JSON.stringify(remainingSeats),
+      JSON.stringify(Object.fromEntries(remainingSeats.map(seatId => [seatId, seatPrices[seatId] || 0]))),
+      JSON.stringify(Object.fromEntries(remainingSeats.map(seatId => [seatId, ticketTypes[seatId]]))),
+      priceBreakdown ? JSON.stringify(priceBreakdown) : null,
+      newTotal,
+      generateQrCode(),
+      (booking.refund_amount || 0) + quote.refundAmount,
+      (booking.cancellation_fee || 0) + quote.fee,
+      booking.id,
+      booking.seats,
+      booking.checked_in_seats || ''
+    ]
+  )
+  if (updated.rows.length === 0) {
+    throw new CancellationError('This booking was updated by someone else. Please refresh and try again.')
+  }
+
+  await adjustAvailableSeats(booking.showtime_id, removedSeats.length)
+  await publishSeatEvent(booking.showtime_id, 'freed', removedSeats)
+  // Dropping the last seats still to come in leaves a booking whose whole group is inside
+  const admitted = parseCheckedInSeats(booking)
+  if (Object.keys(admitted).length > 0 && remainingSeats.every(seatId => admitted[seatId])) {
+    await transitionBooking(
+      { ...booking, seats: JSON.stringify(remainingSeats) },
+      'checked_in',
+      { reason: 'Remaining seats all checked in', extra: { checked_in: true } }
+    )
+  }
+  // The booking page signs a new code if this fails
+  await issueTicketCode(booking.id).catch(error => console.error('Error issuing ticket code:', error))
+
+  const result = { refundAmount: quote.refundAmount, fee: quote.fee, refunded: true, removedSeats }
+  if (!paid || quote.refundAmount === 0) return result
+
+  try {
+    await refundBooking(booking, quote.refundAmount)
+  } catch (error) {
+    console.error('Error refunding removed seats:', error)
+    return { ...result, refunded: false }
+  }
+  return result
+}
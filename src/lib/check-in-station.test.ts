@@ -0,0 +1,32 @@
+import { describe, expect, it, vi } from 'vitest'
+import { MAX_SYNC_ATTEMPTS, recordSyncFailure, type QueuedCheckIn } from './check-in-station'
+
+vi.mock('../blink/client', () => ({ blink: {} }))
+
+const entry: QueuedCheckIn = {
+  id: 'checkin_1',
+  bookingId: 'bk_1',
+  seats: ['1-1'],
+  scannedAt: '2026-10-19T18:00:00.000Z',
+  stationId: 'station_1'
+}
+
+describe('recordSyncFailure', () => {
+  it('keeps a check-in queued while it has attempts left', () => {
+    const attempted = recordSyncFailure(entry, new Error('Seat changed mid-write'))
+    expect(attempted).toMatchObject({ attempts: 1, error: 'Seat changed mid-write' })
+    expect(attempted.failedAt).toBeUndefined()
+  })
+
+  it('marks a check-in failed once it runs out of attempts', () => {
+    let attempted = entry
+    for (let attempt = 0; attempt < MAX_SYNC_ATTEMPTS; attempt++) {
+      attempted = recordSyncFailure(attempted, 'not an error', '2026-10-19T18:05:00.000Z')
+    }
+    expect(attempted).toMatchObject({
+      attempts: MAX_SYNC_ATTEMPTS,
+      error: 'Unknown error',
+      failedAt: '2026-10-19T18:05:00.000Z'
+    })
+  })
+})
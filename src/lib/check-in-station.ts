@@ -0,0 +1,472 @@
+import { blink } from '../blink/client'
+import { BOOKING_STATUS_LABELS, getBookingStatus, InvalidTransitionError, transitionBooking } from './booking-state'
+import { generateId, type Booking } from './bookings'
+import {
+  admitSeats,
+  assertAdmissible,
+  CheckInError,
+  formatCheckInTime,
+  parseCheckedInSeats,
+  parseCheckInPolicy,
+  type CheckInOverride,
+  type CheckInPolicy,
+  type CheckInShowtime
+} from './check-in'
+import { getShowStart } from './refund-policy'
+import { formatSeatLabel, parseSeats } from './seats'
+import { getTicketTypeRules, type TicketTypeRules } from './ticket-types'
+
+// Everything a check-in station needs to check a ticket without the database
+export interface TicketRecord {
+  booking: Booking
+  showtime: CheckInShowtime & { id: string }
+  movieTitle: string
+  theaterName: string
+  customerName: string
+  policy: CheckInPolicy
+  ticketTypeRules: TicketTypeRules
+}
+
+// A check-in made while offline, waiting to be written to the database
+export interface QueuedCheckIn {
+  id: string
+  bookingId: string
+  seats: string[]
+  // When the ticket was scanned; it becomes the seats' admission time once synced
+  scannedAt: string
+  stationId: string
+  override?: CheckInOverride
+  // Syncs that hit an unexpected error on this check-in
+  attempts?: number
+  // Set once it has failed MAX_SYNC_ATTEMPTS times; it then waits for staff to retry or discard it
+  failedAt?: string
+  error?: string
+}
+
+// A queued check-in that kept failing to sync, as shown to staff
+export interface FailedCheckIn {
+  id: string
+  bookingId: string
+  customerName: string
+  movieTitle: string
+  seats: string[]
+  error: string
+  failedAt: string
+}
+
+// A queued check-in the database did not take as it was, kept until staff dismiss it
+export interface SyncConflict {
+  id: string
+  bookingId: string
+  customerName: string
+  movieTitle: string
+  message: string
+  detectedAt: string
+}
+
+export interface StationStatus {
+  // When today's bookings were last saved to this device
+  preloadedAt: string | null
+  // Check-ins waiting to sync, not counting failed ones
+  pending: number
+}
+
+interface StationShowtime extends CheckInShowtime {
+  id: string
+  movie_id: string
+}
+
+interface StationMeta {
+  theaterId: string
+  preloadedAt: string
+}
+
+type StationStore = 'tickets' | 'queue' | 'conflicts' | 'meta'
+
+const DB_NAME = 'cinebooker-check-in'
+const DB_VERSION = 1
+const STATION_ID_STORAGE_KEY = 'cinebooker:check-in-station'
+
+// How many syncs a check-in may fail with an unexpected error before it stops being retried
+export const MAX_SYNC_ATTEMPTS = 5
+
+let stationDb: Promise<IDBDatabase> | null = null
+
+function openStationDb(): Promise<IDBDatabase> {
+  stationDb ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      db.createObjectStore('tickets', { keyPath: 'booking.id' })
+        .createIndex('qr_code', 'booking.qr_code')
+      db.createObjectStore('queue', { keyPath: 'id' })
+      db.createObjectStore('conflicts', { keyPath: 'id' })
+      db.createObjectStore('meta', { keyPath: 'theaterId' })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  }).catch(error => {
+    stationDb = null
+    throw error
+  })
+  return stationDb
+}
+
+// Runs requests in one transaction, resolving with the last one's result once it commits
+async function runTransaction<T>(
+  stores: StationStore[],
+  mode: IDBTransactionMode,
+  run: (transaction: IDBTransaction) => IDBRequest<T> | void
+): Promise<T> {
+  const db = await openStationDb()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(stores, mode)
+    const request = run(transaction)
+    transaction.oncomplete = () => resolve(request ? request.result : (undefined as T))
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+// Whether a failed call means the connection is down, rather than the request being refused
+export const isOfflineError = (error: unknown) =>
+  !navigator.onLine || (error as { code?: string } | null)?.code === 'NETWORK_ERROR'
+
+// Tells apart the devices whose queued check-ins end up in the same booking
+function getStationId() {
+  let stationId = localStorage.getItem(STATION_ID_STORAGE_KEY)
+  if (!stationId) {
+    stationId = generateId('station')
+    localStorage.setItem(STATION_ID_STORAGE_KEY, stationId)
+  }
+  return stationId
+}
+
+// The booking with seats admitted, moved to checked_in once every seat is
+function withAdmittedSeats(booking: Booking, admitted: Record<string, string>, at: string): Booking {
+  const complete = parseSeats(booking).every(seatId => admitted[seatId])
+  return {
+    ...booking,
+    checked_in_seats: JSON.stringify(admitted),
+    check_in_time: at,
+    ...(complete && { booking_status: 'checked_in', checked_in: true })
+  }
+}
+
+function buildTicketRecord(
+  booking: Booking,
+  showtime: StationShowtime,
+  theater: { name?: string; check_in_policy?: string; ticket_types?: string } | undefined,
+  movie: { title?: string } | undefined,
+  customer: { name?: string } | undefined
+): TicketRecord {
+  return {
+    booking,
+    showtime: {
+      id: showtime.id,
+      theater_id: showtime.theater_id,
+      screen_id: showtime.screen_id,
+      show_date: showtime.show_date,
+      show_time: showtime.show_time
+    },
+    movieTitle: movie?.title || 'Unknown Movie',
+    theaterName: theater?.name || 'Unknown Theater',
+    customerName: customer?.name || 'Unknown User',
+    policy: parseCheckInPolicy(theater?.check_in_policy),
+    ticketTypeRules: getTicketTypeRules(theater?.ticket_types)
+  }
+}
+
+// Looks a ticket up in the database; null if no booking has this code
+export async function fetchTicketRecord(qrCode: string): Promise<TicketRecord | null> {
+  const bookings = await blink.db.bookings.list({ where: { qr_code: qrCode }, limit: 1 })
+  if (bookings.length === 0) return null
+  const booking = bookings[0] as Booking
+
+  const [showtimes, users] = await Promise.all([
+    blink.db.showtimes.list({ where: { id: booking.showtime_id }, limit: 1 }),
+    blink.db.users.list({ where: { id: booking.user_id }, limit: 1 })
+  ])
+  if (showtimes.length === 0) {
+    throw new CheckInError('Showtime not found.')
+  }
+
+  const showtime = showtimes[0] as StationShowtime
+  const [movies, theaters] = await Promise.all([
+    blink.db.movies.list({ where: { id: showtime.movie_id }, limit: 1 }),
+    blink.db.theaters.list({ where: { id: showtime.theater_id }, limit: 1 })
+  ])
+  return buildTicketRecord(booking, showtime, theaters[0], movies[0], users[0])
+}
+
+// Looks a ticket up in the bookings saved on this device
+export async function findSavedTicket(qrCode: string): Promise<TicketRecord | null> {
+  const record = await runTransaction<TicketRecord | undefined>(['tickets'], 'readonly', transaction =>
+    transaction.objectStore('tickets').index('qr_code').get(qrCode)
+  )
+  return record ?? null
+}
+
+// Keeps the saved copy of a ticket in step with a check-in made online
+export async function saveCheckIn(record: TicketRecord, admitted: Record<string, string>, at: string) {
+  await runTransaction(['tickets'], 'readwrite', transaction => {
+    transaction.objectStore('tickets').put({ ...record, booking: withAdmittedSeats(record.booking, admitted, at) })
+  })
+}
+
+const listQueue = () =>
+  runTransaction<QueuedCheckIn[]>(['queue'], 'readonly', transaction => transaction.objectStore('queue').getAll())
+
+/**
+ * Saves every confirmed or checked-in booking for the theater's shows today
+ * to this device, replacing the last copy, so tickets can still be checked
+ * when the connection drops. Check-ins still waiting to sync are applied on
+ * top, so a ticket scanned offline stays used. Returns how many bookings
+ * were saved.
+ */
+export async function preloadDay(theaterId: string, now = new Date()): Promise<number> {
+  const [theaters, allShowtimes] = await Promise.all([
+    blink.db.theaters.list({ where: { id: theaterId }, limit: 1 }),
+    blink.db.showtimes.list({ where: { theater_id: theaterId } })
+  ])
+  const showtimes = (allShowtimes as StationShowtime[])
+    .filter(showtime => getShowStart(showtime).toDateString() === now.toDateString())
+
+  const bookings = showtimes.length === 0 ? [] : (await blink.db.bookings.list({
+    where: {
+      showtime_id: { in: showtimes.map(showtime => showtime.id) },
+      booking_status: { in: ['confirmed', 'checked_in'] }
+    }
+  })) as Booking[]
+
+  const movieIds = [...new Set(showtimes.map(showtime => showtime.movie_id))]
+  const userIds = [...new Set(bookings.map(booking => booking.user_id))]
+  const [movies, users, queue] = await Promise.all([
+    movieIds.length > 0 ? blink.db.movies.list({ where: { id: { in: movieIds } } }) as Promise<{ id: string; title?: string }[]> : [],
+    userIds.length > 0 ? blink.db.users.list({ where: { id: { in: userIds } } }) as Promise<{ id: string; name?: string }[]> : [],
+    listQueue()
+  ])
+
+  const showtimesById = new Map(showtimes.map(showtime => [showtime.id, showtime]))
+  const moviesById = new Map(movies.map(movie => [movie.id, movie]))
+  const usersById = new Map(users.map(user => [user.id, user]))
+
+  const records = bookings.map(saved => {
+    let booking = saved
+    for (const entry of queue.filter(entry => entry.bookingId === booking.id)) {
+      const admitted = parseCheckedInSeats(booking)
+      const seats = entry.seats.filter(seatId => !admitted[seatId])
+      booking = withAdmittedSeats(booking, {
+        ...admitted,
+        ...Object.fromEntries(seats.map(seatId => [seatId, entry.scannedAt]))
+      }, entry.scannedAt)
+    }
+    const showtime = showtimesById.get(booking.showtime_id)!
+    return buildTicketRecord(booking, showtime, theaters[0], moviesById.get(showtime.movie_id), usersById.get(booking.user_id))
+  })
+
+  const meta: StationMeta = { theaterId, preloadedAt: now.toISOString() }
+  await runTransaction(['tickets', 'meta'], 'readwrite', transaction => {
+    const tickets = transaction.objectStore('tickets')
+    tickets.clear()
+    records.forEach(record => tickets.put(record))
+    transaction.objectStore('meta').put(meta)
+  })
+  return records.length
+}
+
+/**
+ * Checks seats in against the saved copy of their booking and queues the
+ * check-in to be written once the connection is back. The saved copy is
+ * updated straight away, so a second scan of the ticket at this station is
+ * caught. Returns every seat admitted so far.
+ */
+export async function queueCheckIn(
+  record: TicketRecord,
+  seatIds: string[],
+  { override, at = new Date().toISOString() }: { override?: CheckInOverride; at?: string } = {}
+): Promise<Record<string, string>> {
+  assertAdmissible(record.booking, seatIds)
+
+  const admitted = {
+    ...parseCheckedInSeats(record.booking),
+    ...Object.fromEntries(seatIds.map(seatId => [seatId, at]))
+  }
+  const entry: QueuedCheckIn = {
+    id: generateId('checkin'),
+    bookingId: record.booking.id,
+    seats: seatIds,
+    scannedAt: at,
+    stationId: getStationId(),
+    ...(override && { override })
+  }
+  await runTransaction(['tickets', 'queue'], 'readwrite', transaction => {
+    transaction.objectStore('tickets').put({ ...record, booking: withAdmittedSeats(record.booking, admitted, at) })
+    transaction.objectStore('queue').put(entry)
+  })
+  return admitted
+}
+
+export async function getStationStatus(theaterId: string): Promise<StationStatus> {
+  const [meta, queue] = await Promise.all([
+    runTransaction<StationMeta | undefined>(['meta'], 'readonly', transaction => transaction.objectStore('meta').get(theaterId)),
+    listQueue()
+  ])
+  return { preloadedAt: meta?.preloadedAt ?? null, pending: queue.filter(entry => !entry.failedAt).length }
+}
+
+// The check-in after a sync attempt that failed unexpectedly, marked failed once it runs out of attempts
+export function recordSyncFailure(entry: QueuedCheckIn, error: unknown, at = new Date().toISOString()): QueuedCheckIn {
+  const attempts = (entry.attempts ?? 0) + 1
+  const message = error instanceof Error && error.message ? error.message : 'Unknown error'
+  return {
+    ...entry,
+    attempts,
+    error: message,
+    ...(attempts >= MAX_SYNC_ATTEMPTS && { failedAt: at })
+  }
+}
+
+export async function listFailedCheckIns(): Promise<FailedCheckIn[]> {
+  const failed = (await listQueue()).filter(entry => entry.failedAt)
+  return Promise.all(failed.map(async entry => {
+    const record = await runTransaction<TicketRecord | undefined>(['tickets'], 'readonly', transaction =>
+      transaction.objectStore('tickets').get(entry.bookingId)
+    )
+    return {
+      id: entry.id,
+      bookingId: entry.bookingId,
+      customerName: record?.customerName || 'Unknown User',
+      movieTitle: record?.movieTitle || 'Unknown Movie',
+      seats: entry.seats,
+      error: entry.error || 'Unknown error',
+      failedAt: entry.failedAt!
+    }
+  }))
+}
+
+// Puts a failed check-in back in the queue with its attempts reset, for the next sync to try again
+export async function retryFailedCheckIn(entryId: string) {
+  const entry = (await listQueue()).find(candidate => candidate.id === entryId)
+  if (!entry) return
+  await runTransaction(['queue'], 'readwrite', transaction => {
+    transaction.objectStore('queue').put({ ...entry, attempts: 0, failedAt: undefined, error: undefined })
+  })
+}
+
+// Drops a failed check-in; its seats stay admitted on this device until the next preload
+export async function discardFailedCheckIn(entryId: string) {
+  await runTransaction(['queue'], 'readwrite', transaction => {
+    transaction.objectStore('queue').delete(entryId)
+  })
+}
+
+export const listConflicts = () =>
+  runTransaction<SyncConflict[]>(['conflicts'], 'readonly', transaction => transaction.objectStore('conflicts').getAll())
+
+export async function dismissConflict(conflictId: string) {
+  await runTransaction(['conflicts'], 'readwrite', transaction => {
+    transaction.objectStore('conflicts').delete(conflictId)
+  })
+}
+
+const listSeatLabels = (seatIds: string[]) => seatIds.map(formatSeatLabel).join(', ')
+
+// Writes one queued check-in, returning what it could not write as it was
+async function syncEntry(entry: QueuedCheckIn): Promise<string | null> {
+  const bookings = await blink.db.bookings.list({ where: { id: entry.bookingId }, limit: 1 })
+  if (bookings.length === 0) return 'This booking no longer exists.'
+
+  const booking = bookings[0] as Booking
+  const status = getBookingStatus(booking)
+  const seats = parseSeats(booking)
+  const admitted = parseCheckedInSeats(booking)
+  const problems: string[] = []
+
+  const removed = entry.seats.filter(seatId => !seats.includes(seatId))
+  if (removed.length > 0) {
+    problems.push(`${listSeatLabels(removed)} ${removed.length === 1 ? 'was' : 'were'} removed from the booking`)
+  }
+
+  // A seat already in at this scan's time was written before the connection dropped
+  const elsewhere = entry.seats.filter(seatId => admitted[seatId] && admitted[seatId] !== entry.scannedAt)
+  if (elsewhere.length > 0) {
+    const otherScan = formatCheckInTime(new Date(admitted[elsewhere[0]]))
+    problems.push(`${listSeatLabels(elsewhere)} also checked in at another gate at ${otherScan}`)
+  }
+
+  const fresh = entry.seats.filter(seatId => seats.includes(seatId) && !admitted[seatId])
+  if (fresh.length > 0 && status !== 'confirmed') {
+    problems.push(`${listSeatLabels(fresh)} could not be checked in as the booking is ${BOOKING_STATUS_LABELS[status].toLowerCase()}`)
+  } else if (fresh.length > 0) {
+    await admitSeats(booking, fresh, { override: entry.override, at: entry.scannedAt })
+  } else if (status === 'confirmed' && seats.every(seatId => admitted[seatId])) {
+    // The last seat was written but the connection dropped before the booking moved on
+    await transitionBooking(booking, 'checked_in', { extra: { checked_in: true } })
+  }
+
+  if (problems.length === 0) return null
+  return `Scanned here at ${formatCheckInTime(new Date(entry.scannedAt))}, but ${problems.join(' and ')}.`
+}
+
+/**
+ * Writes check-ins queued while offline, oldest first, re-reading each
+ * booking so changes made elsewhere in the meantime are respected. When
+ * the same ticket was scanned at two stations, the admission already
+ * recorded stands and this station's duplicate is kept as a conflict for
+ * staff to follow up, as is a scan of a booking cancelled meanwhile.
+ * A check-in that fails unexpectedly is retried on later syncs, and marked
+ * failed for staff after MAX_SYNC_ATTEMPTS. Stops at the first network
+ * error, leaving the rest queued.
+ */
+export async function syncQueue(): Promise<{ synced: number; conflicts: number; failed: number }> {
+  const queue = (await listQueue())
+    .filter(entry => !entry.failedAt)
+    .sort((a, b) => a.scannedAt.localeCompare(b.scannedAt))
+  let synced = 0
+  let conflicts = 0
+  let failed = 0
+
+  for (const entry of queue) {
+    let message: string | null
+    try {
+      message = await syncEntry(entry)
+    } catch (error) {
+      if (isOfflineError(error)) throw error
+      if (error instanceof InvalidTransitionError) {
+        // Another gate finished the booking at the same moment; the seats are written
+        message = null
+      } else {
+        // Usually another gate changed the booking mid-write; retried on the next sync until it runs out of attempts
+        if (!(error instanceof CheckInError)) console.error('Error syncing check-in:', error)
+        const attempted = recordSyncFailure(entry, error)
+        await runTransaction(['queue'], 'readwrite', transaction => {
+          transaction.objectStore('queue').put(attempted)
+        })
+        if (attempted.failedAt) failed++
+        continue
+      }
+    }
+
+    const record = await runTransaction<TicketRecord | undefined>(['tickets'], 'readonly', transaction =>
+      transaction.objectStore('tickets').get(entry.bookingId)
+    )
+    const conflict: SyncConflict | null = message
+      ? {
+          id: entry.id,
+          bookingId: entry.bookingId,
+          customerName: record?.customerName || 'Unknown User',
+          movieTitle: record?.movieTitle || 'Unknown Movie',
+          message,
+          detectedAt: new Date().toISOString()
+        }
+      : null
+    await runTransaction(['queue', 'conflicts'], 'readwrite', transaction => {
+      transaction.objectStore('queue').delete(entry.id)
+      if (conflict) transaction.objectStore('conflicts').put(conflict)
+    })
+    if (conflict) conflicts++
+    else synced++
+  }
+  return { synced, conflicts, failed }
+}
@@ -0,0 +1,234 @@
+import { blink } from '../blink/client'
+import { getBookingStatus, InvalidTransitionError, transitionBooking } from './booking-state'
+import type { Booking } from './bookings'
+import { getShowStart } from './refund-policy'
+import { formatSeatLabel, parseSeats } from './seats'
+
+// Stored as JSON in theaters.check_in_policy
+export interface CheckInPolicy {
+  // Gates open this many minutes before the show starts
+  opensMinutesBefore: number
+  // Latecomers are admitted until this many minutes after the start
+  closesMinutesAfter: number
+}
+
+export const DEFAULT_CHECK_IN_POLICY: CheckInPolicy = {
+  opensMinutesBefore: 45,
+  closesMinutesAfter: 30
+}
+
+export type CheckInRule = 'venue' | 'screen' | 'date' | 'too_early' | 'too_late'
+
+export interface CheckInViolation {
+  rule: CheckInRule
+  message: string
+  // Staff with override rights can admit the ticket anyway, giving a reason
+  overridable: boolean
+}
+
+// Stored as JSON in bookings.check_in_override when staff admit a ticket the rules rejected
+export interface CheckInOverride {
+  rule: CheckInRule
+  reason: string
+  by: string
+  at: string
+}
+
+export interface CheckInShowtime {
+  theater_id: string
+  screen_id: string
+  show_date: string
+  show_time: string
+}
+
+export interface CheckInContext {
+  // Where the scanner is: its theater and, when set up for one door, its screen
+  theaterId?: string
+  screenId?: string
+  policy: CheckInPolicy
+  now?: Date
+}
+
+export class CheckInError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CheckInError'
+  }
+}
+
+const MINUTE_MS = 60 * 1000
+
+export function parseCheckInPolicy(raw: string | null | undefined): CheckInPolicy {
+  if (!raw) return DEFAULT_CHECK_IN_POLICY
+  try {
+    return { ...DEFAULT_CHECK_IN_POLICY, ...(JSON.parse(raw) as Partial<CheckInPolicy>) }
+  } catch {
+    return DEFAULT_CHECK_IN_POLICY
+  }
+}
+
+export const formatCheckInTime = (date: Date) =>
+  date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true })
+
+export function getCheckInWindow(showtime: Pick<CheckInShowtime, 'show_date' | 'show_time'>, policy: CheckInPolicy) {
+  const start = getShowStart(showtime)
+  return {
+    opens: new Date(start.getTime() - policy.opensMinutesBefore * MINUTE_MS),
+    closes: new Date(start.getTime() + policy.closesMinutesAfter * MINUTE_MS)
+  }
+}
+
+/**
+ * Checks a ticket's show against where and when it is being scanned.
+ * Returns the first rule it breaks, or null if it can be admitted. A ticket
+ * for another theater can never be overridden; the rest can, for cases
+ * like a delayed show or a customer sent to the wrong door.
+ */
+export function checkCheckInRules(showtime: CheckInShowtime, context: CheckInContext): CheckInViolation | null {
+  const { theaterId, screenId, policy, now = new Date() } = context
+
+  if (theaterId && showtime.theater_id !== theaterId) {
+    return { rule: 'venue', message: 'This ticket is for a different theater.', overridable: false }
+  }
+  if (screenId && showtime.screen_id !== screenId) {
+    return { rule: 'screen', message: 'This ticket is for a different screen.', overridable: true }
+  }
+
+  const { opens, closes } = getCheckInWindow(showtime, policy)
+  if (now >= opens && now <= closes) return null
+
+  // Only reported outside the window, so a show just after midnight still scans
+  const start = getShowStart(showtime)
+  if (start.toDateString() !== now.toDateString()) {
+    return {
+      rule: 'date',
+      message: `This ticket is for ${start.toLocaleDateString()}, not today.`,
+      overridable: true
+    }
+  }
+  if (now < opens) {
+    return {
+      rule: 'too_early',
+      message: `Check-in for this show opens at ${formatCheckInTime(opens)}.`,
+      overridable: true
+    }
+  }
+  return {
+    rule: 'too_late',
+    message: `Check-in for this show closed at ${formatCheckInTime(closes)}.`,
+    overridable: true
+  }
+}
+
+// Seat ID to when it was admitted. Bookings checked in before seats were tracked were admitted whole.
+export function parseCheckedInSeats(
+  booking: Pick<Booking, 'seats' | 'booking_status' | 'checked_in' | 'checked_in_seats' | 'check_in_time' | 'status_updated_at'>
+): Record<string, string> {
+  if (booking.checked_in_seats) {
+    try {
+      return JSON.parse(booking.checked_in_seats)
+    } catch {
+      return {}
+    }
+  }
+  if (getBookingStatus(booking) !== 'checked_in') return {}
+  const at = booking.check_in_time || booking.status_updated_at || ''
+  return Object.fromEntries(parseSeats(booking).map(seatId => [seatId, at]))
+}
+
+export const getOutstandingSeats = (booking: Booking) => {
+  const admitted = parseCheckedInSeats(booking)
+  return parseSeats(booking).filter(seatId => !admitted[seatId])
+}
+
+const listSeatLabels = (seatIds: string[]) => seatIds.map(formatSeatLabel).join(', ')
+
+// What one admission did to each seat a scan asked for
+export interface AdmissionOutcome {
+  admitted: string[]
+  // Admitted at another gate or scan before this one
+  alreadyIn: string[]
+  // Seats on the booking still to come in afterwards
+  remaining: string[]
+}
+
+/**
+ * The result staff see after a scan, built seat by seat: which went in,
+ * and whether by override, which were in already, and who is still to
+ * come.
+ */
+export function describeAdmission({ admitted, alreadyIn, remaining }: AdmissionOutcome, override = false) {
+  const parts: string[] = []
+  if (admitted.length > 0) {
+    parts.push(`${override ? 'Admitted by override' : 'Checked in'}: ${listSeatLabels(admitted)}.`)
+  }
+  if (alreadyIn.length > 0) {
+    parts.push(`${listSeatLabels(alreadyIn)} ${alreadyIn.length === 1 ? 'was' : 'were'} already checked in.`)
+  }
+  if (admitted.length > 0) {
+    parts.push(remaining.length > 0
+      ? `${remaining.length} still to come: ${listSeatLabels(remaining)}.`
+      : 'The whole booking is now checked in.')
+  }
+  return parts.join(' ')
+}
+
+// Throws if any of the seats is not on the booking or has already been admitted
+export function assertAdmissible(booking: Booking, seatIds: string[]) {
+  const admitted = parseCheckedInSeats(booking)
+  const seats = parseSeats(booking)
+
+  if (seatIds.length === 0) {
+    throw new CheckInError('Choose at least one seat to admit.')
+  }
+  const unknown = seatIds.filter(seatId => !seats.includes(seatId))
+  if (unknown.length > 0) {
+    throw new CheckInError(`${listSeatLabels(unknown)} ${unknown.length === 1 ? 'is' : 'are'} not part of this booking.`)
+  }
+  const repeated = seatIds.filter(seatId => admitted[seatId])
+  if (repeated.length > 0) {
+    throw new CheckInError(`${listSeatLabels(repeated)} ${repeated.length === 1 ? 'has' : 'have'} already been checked in.`)
+  }
+}
+
+/**
+ * Admits some of a booking's seats, so a group arriving separately can go
+ * in one at a time. The booking stays confirmed until its last seat is in,
+ * then moves to checked_in. Matching on the seats admitted so far means two
+ * gates admitting from the same booking at once cannot both succeed.
+ * `at` is when the ticket was scanned, for admissions synced from an
+ * offline station. Returns every admitted seat.
+ */
+export async function admitSeats(
+  booking: Booking,
+  seatIds: string[],
+  { override, at = new Date().toISOString() }: { override?: CheckInOverride; at?: string } = {}
+): Promise<Record<string, string>> {
+  assertAdmissible(booking, seatIds)
+
+  const admitted = parseCheckedInSeats(booking)
+  const next = { ...admitted, ...Object.fromEntries(seatIds.map(seatId => [seatId, at])) }
+  const updated = await blink.db.sql(
+    `UPDATE bookings
+     SET checked_in_seats = ?, check_in_time = ?, check_in_override = COALESCE(?, check_in_override)
+     WHERE id = ? AND booking_status = 'confirmed' AND COALESCE(checked_in_seats, '') = ?
+     RETURNING id`,
+    [JSON.stringify(next), at, override ? JSON.stringify(override) : null, booking.id, booking.checked_in_seats || '']
+  )
+  if (updated.rows.length === 0) {
+    throw new CheckInError('This booking was just updated at another gate. Scan it again.')
+  }
+
+  if (parseSeats(booking).every(seatId => next[seatId])) {
+    try {
+      await transitionBooking({ ...booking, checked_in_seats: JSON.stringify(next) }, 'checked_in', {
+        reason: override ? `Admitted by override: ${override.reason}` : undefined,
+        extra: { checked_in: true }
+      })
+    } catch (error) {
+      // The seats are in; a sync of the same group moved the booking on first
+      if (!(error instanceof InvalidTransitionError)) throw error
+    }
+  }
+  return next
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { ConcessionError, getOrderTotal, priceCart } from './concession-pricing'
+import type { ConcessionItem } from './concessions'
+
+const item = (overrides: Partial<ConcessionItem> = {}): ConcessionItem => ({
+  id: 'popcorn',
+  theater_id: 'theater_1',
+  name: 'Popcorn',
+  description: '',
+  category: 'snacks',
+  sizes: JSON.stringify([
+    { id: 'regular', name: 'Regular', price: 150 },
+    { id: 'large', name: 'Large', price: 220 }
+  ]),
+  is_available: 1,
+  created_at: '2026-01-01T00:00:00Z',
+  ...overrides
+})
+
+describe('priceCart', () => {
+  it('prices each line from the catalog', () => {
+    const lines = priceCart([{ itemId: 'popcorn', sizeId: 'large', quantity: 2 }], [item()])
+    expect(lines).toEqual([
+      { itemId: 'popcorn', sizeId: 'large', quantity: 2, name: 'Popcorn', sizeName: 'Large', unitPrice: 220 }
+    ])
+    expect(getOrderTotal(lines)).toBe(440)
+  })
+
+  it('ignores any price sent with the cart', () => {
+    const cart = [{ itemId: 'popcorn', sizeId: 'regular', quantity: 1, unitPrice: 1 }]
+    expect(priceCart(cart, [item()])[0].unitPrice).toBe(150)
+  })
+
+  it('drops empty lines', () => {
+    expect(priceCart([{ itemId: 'popcorn', sizeId: 'regular', quantity: 0 }], [item()])).toEqual([])
+  })
+
+  it('rejects items that are missing, unavailable or in an unknown size', () => {
+    expect(() => priceCart([{ itemId: 'nachos', sizeId: 'regular', quantity: 1 }], [item()])).toThrow(ConcessionError)
+    expect(() => priceCart([{ itemId: 'popcorn', sizeId: 'regular', quantity: 1 }], [item({ is_available: 0 })]))
+      .toThrow('Popcorn is no longer available')
+    expect(() => priceCart([{ itemId: 'popcorn', sizeId: 'jumbo', quantity: 1 }], [item()])).toThrow('Choose a size for Popcorn')
+  })
+
+  it('caps the quantity of each item', () => {
+    expect(() => priceCart([{ itemId: 'popcorn', sizeId: 'regular', quantity: 11 }], [item()])).toThrow('up to 10')
+  })
+})
@@ -0,0 +1,52 @@
+import type { CartLine, ConcessionItem, ConcessionOrder, ConcessionOrderLine, ConcessionSize } from './concessions'
+
+export class ConcessionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ConcessionError'
+  }
+}
+
+// How many of one item a booking can order
+export const MAX_ITEM_QUANTITY = 10
+
+export const parseSizes = (item: Pick<ConcessionItem, 'sizes'>): ConcessionSize[] =>
+  item.sizes ? JSON.parse(item.sizes) : []
+
+export const isItemAvailable = (item: Pick<ConcessionItem, 'is_available'>) => Number(item.is_available) > 0
+
+export const parseConcessionOrder = (booking: { concessions?: string | null }): ConcessionOrder | null =>
+  booking.concessions ? JSON.parse(booking.concessions) : null
+
+export const getOrderTotal = (lines: Pick<ConcessionOrderLine, 'unitPrice' | 'quantity'>[]) =>
+  lines.reduce((total, line) => total + line.unitPrice * line.quantity, 0)
+
+/**
+ * Prices a cart from the theater's catalog. The price-booking function
+ * runs this on what the customer picked, so the app never sends a price.
+ */
+export function priceCart(cart: CartLine[], catalog: ConcessionItem[]): ConcessionOrderLine[] {
+  return cart
+    .filter(line => line.quantity > 0)
+    .map(line => {
+      const item = catalog.find(other => other.id === line.itemId)
+      if (!item || !isItemAvailable(item)) {
+        throw new ConcessionError(`${item?.name || 'An item in your order'} is no longer available`)
+      }
+      const size = parseSizes(item).find(other => other.id === line.sizeId)
+      if (!size) {
+        throw new ConcessionError(`Choose a size for ${item.name}`)
+      }
+      if (line.quantity > MAX_ITEM_QUANTITY) {
+        throw new ConcessionError(`You can order up to ${MAX_ITEM_QUANTITY} of ${item.name}`)
+      }
+      return {
+        itemId: item.id,
+        sizeId: size.id,
+        quantity: Math.floor(line.quantity),
+        name: item.name,
+        sizeName: parseSizes(item).length > 1 ? size.name : '',
+        unitPrice: size.price
+      }
+    })
+}
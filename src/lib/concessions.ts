@@ -0,0 +1,146 @@
+import { blink } from '../blink/client'
+import { generateId, priceBooking } from './bookings'
+import { ConcessionError, isItemAvailable, parseConcessionOrder } from './concession-pricing'
+
+export type ConcessionCategory = 'snacks' | 'drinks' | 'combos'
+
+export const CONCESSION_CATEGORIES: { id: ConcessionCategory; name: string }[] = [
+  { id: 'combos', name: 'Combos' },
+  { id: 'snacks', name: 'Snacks' },
+  { id: 'drinks', name: 'Drinks' }
+]
+
+export interface ConcessionSize {
+  id: string
+  name: string
+  price: number
+}
+
+// A theater's concessions catalog, one row per item in concession_items
+export interface ConcessionItem {
+  id: string
+  theater_id: string
+  name: string
+  description: string
+  category: ConcessionCategory
+  // JSON ConcessionSize[]; items sold in one size have a single entry
+  sizes: string
+  // JSON string[] of what a combo includes
+  combo_items?: string | null
+  is_available: boolean | number
+  created_at: string
+}
+
+export interface ConcessionItemInput {
+  name: string
+  description: string
+  category: ConcessionCategory
+  sizes: ConcessionSize[]
+  comboItems: string[]
+}
+
+export type FulfilmentMethod = 'pickup' | 'seat'
+
+export const FULFILMENT_LABELS: Record<FulfilmentMethod, string> = {
+  pickup: 'Pick up at the counter',
+  seat: 'Deliver to seat'
+}
+
+// What the customer picked, before it is priced from the catalog
+export interface CartLine {
+  itemId: string
+  sizeId: string
+  quantity: number
+}
+
+// What the app sends the price-booking function to change a booking's food and drinks
+export interface ConcessionSelection {
+  cart: CartLine[]
+  fulfilment: FulfilmentMethod
+}
+
+export interface ConcessionOrderLine extends CartLine {
+  name: string
+  sizeName: string
+  unitPrice: number
+}
+
+// Stored as JSON in bookings.concessions
+export interface ConcessionOrder {
+  lines: ConcessionOrderLine[]
+  fulfilment: FulfilmentMethod
+  status: 'pending' | 'fulfilled'
+  fulfilledAt?: string
+}
+
+export const parseComboItems = (item: Pick<ConcessionItem, 'combo_items'>): string[] =>
+  item.combo_items ? JSON.parse(item.combo_items) : []
+
+export const describeOrderLine = (line: ConcessionOrderLine) =>
+  `${line.quantity} × ${line.name}${line.sizeName ? ` (${line.sizeName})` : ''}`
+
+export async function fetchCatalog(theaterId: string, { availableOnly = false } = {}): Promise<ConcessionItem[]> {
+  const items = (await blink.db.concession_items.list({
+    where: { theater_id: theaterId },
+    orderBy: { name: 'asc' }
+  })) as ConcessionItem[]
+  return availableOnly ? items.filter(isItemAvailable) : items
+}
+
+export async function saveConcessionItem(theaterId: string, input: ConcessionItemInput, itemId?: string) {
+  const sizes = input.sizes.map(size => ({ ...size, name: size.name.trim() }))
+  if (!input.name.trim()) {
+    throw new ConcessionError('Give the item a name')
+  }
+  if (sizes.length === 0 || sizes.some(size => !(size.price > 0))) {
+    throw new ConcessionError('Every size needs a price')
+  }
+  if (sizes.length > 1 && sizes.some(size => !size.name)) {
+    throw new ConcessionError('Name each size, such as Regular or Large')
+  }
+
+  const values = {
+    name: input.name.trim(),
+    description: input.description.trim(),
+    category: input.category,
+    sizes: JSON.stringify(sizes),
+    combo_items: input.category === 'combos' ? JSON.stringify(input.comboItems.map(content => content.trim()).filter(Boolean)) : null
+  }
+  if (itemId) {
+    await blink.db.concession_items.update(itemId, values)
+    return
+  }
+  await blink.db.concession_items.create({
+    id: generateId('concession'),
+    theater_id: theaterId,
+    ...values,
+    is_available: true,
+    created_at: new Date().toISOString()
+  })
+}
+
+export const setItemAvailable = (itemId: string, available: boolean) =>
+  blink.db.concession_items.update(itemId, { is_available: available })
+
+export const deleteConcessionItem = (itemId: string) => blink.db.concession_items.delete(itemId)
+
+/**
+ * Sets the food and drinks on an unpaid booking. An empty cart removes the
+ * order. The price-booking function prices the cart from the catalog and
+ * reprices the booking; once checkout has opened a payment the amount is
+ * fixed, so the order can no longer change.
+ */
+export async function setBookingConcessions(
+  bookingId: string,
+  cart: CartLine[],
+  fulfilment: FulfilmentMethod
+): Promise<ConcessionOrder | null> {
+  return parseConcessionOrder(await priceBooking(bookingId, { cart, fulfilment }))
+}
+
+// Marks a booking's food and drinks as handed over or delivered
+export async function markOrderFulfilled(bookingId: string, order: ConcessionOrder) {
+  const fulfilled: ConcessionOrder = { ...order, status: 'fulfilled', fulfilledAt: new Date().toISOString() }
+  await blink.db.bookings.update(bookingId, { concessions: JSON.stringify(fulfilled) })
+  return fulfilled
+}
@@ -0,0 +1,228 @@
+import { blink } from '../blink/client'
+import { getBookingStatus, InvalidTransitionError, transitionBooking } from './booking-state'
+import { createBooking, type Booking, type CreateBookingInput } from './bookings'
+import { refundPayment } from './payments'
+import { getShowStart } from './refund-policy'
+import { issueTicketCode } from './ticket-signing'
+
+// Stored as JSON in theaters.exchange_policy
+export interface ExchangePolicy {
+  // Exchanges close this many hours before the original show starts
+  deadlineHours: number
+  // Flat fee in rupees charged per exchanged booking
+  fee: number
+}
+
+export const DEFAULT_EXCHANGE_POLICY: ExchangePolicy = {
+  deadlineHours: 2,
+  fee: 30
+}
+
+export class ExchangeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ExchangeError'
+  }
+}
+
+export interface ExchangeShowtime {
+  id: string
+  show_date: string
+  show_time: string
+  available_seats: number
+}
+
+export interface ExchangeOptions {
+  booking: Booking
+  showtime: ExchangeShowtime
+  policy: ExchangePolicy
+  // What the original booking is worth towards the new one
+  credit: number
+  deadline: Date
+  // Other upcoming shows of the same film at the same theater
+  showtimes: ExchangeShowtime[]
+}
+
+export type StartExchangeInput = Omit<CreateBookingInput, 'userId'> & {
+  bookingId: string
+  userId: string
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+export function parseExchangePolicy(raw: string | null | undefined): ExchangePolicy {
+  if (!raw) return DEFAULT_EXCHANGE_POLICY
+  try {
+    return { ...DEFAULT_EXCHANGE_POLICY, ...(JSON.parse(raw) as Partial<ExchangePolicy>) }
+  } catch {
+    return DEFAULT_EXCHANGE_POLICY
+  }
+}
+
+// Positive when the customer pays extra, negative when they get money back
+export const getExchangeDifference = (credit: number, newTotal: number, fee: number) =>
+  Math.round((newTotal + fee - credit) * 100) / 100
+
+async function fetchBooking(bookingId: string): Promise<Booking | null> {
+  const bookings = await blink.db.bookings.list({ where: { id: bookingId }, limit: 1 })
+  return (bookings[0] as Booking) || null
+}
+
+/**
+ * Checks the booking can still be exchanged and lists the shows it can
+ * move to. Throws an ExchangeError explaining why when it cannot.
+ */
+export async function getExchangeOptions(bookingId: string, userId: string, now = new Date()): Promise<ExchangeOptions> {
+  const booking = await fetchBooking(bookingId)
+  if (!booking || booking.user_id !== userId) {
+    throw new ExchangeError('Booking not found')
+  }
+  if (getBookingStatus(booking) !== 'confirmed') {
+    throw new ExchangeError('Only confirmed bookings that have not been checked in can be exchanged')
+  }
+
+  const showtimes = await blink.db.showtimes.list({ where: { id: booking.showtime_id }, limit: 1 })
+  const showtime = showtimes[0]
+  if (!showtime) {
+    throw new ExchangeError('Showtime not found')
+  }
+
+  const theaters = await blink.db.theaters.list({ where: { id: showtime.theater_id }, limit: 1 })
+  const policy = parseExchangePolicy(theaters[0]?.exchange_policy)
+  const deadline = new Date(getShowStart(showtime).getTime() - policy.deadlineHours * HOUR_MS)
+  if (now > deadline) {
+    throw new ExchangeError(`Exchanges close ${policy.deadlineHours} hours before the show`)
+  }
+
+  const candidates = await blink.db.showtimes.list({
+    where: { movie_id: showtime.movie_id, theater_id: showtime.theater_id },
+    orderBy: { show_date: 'asc' }
+  })
+
+  return {
+    booking,
+    showtime,
+    policy,
+    credit: Number(booking.total_amount),
+    deadline,
+    showtimes: (candidates as ExchangeShowtime[])
+      .filter(candidate =>
+        candidate.id !== showtime.id &&
+        candidate.available_seats > 0 &&
+        getShowStart(candidate) > now
+      )
+      .sort((a, b) => getShowStart(a).getTime() - getShowStart(b).getTime())
+  }
+}
+
+/**
+ * Books the new seats for an exchange. The original booking is left alone
+ * until the new one is confirmed: straight away when the credit covers it,
+ * otherwise once the customer pays the difference at checkout.
+ */
+export async function startExchange(input: StartExchangeInput): Promise<{ booking: Booking; amountDue: number }> {
+  const { bookingId, ...bookingInput } = input
+  const { policy, credit, showtimes } = await getExchangeOptions(bookingId, input.userId)
+  if (!showtimes.some(showtime => showtime.id === input.showtimeId)) {
+    throw new ExchangeError('Bookings can only move to another upcoming show of the same film at this theater')
+  }
+
+  const created = await createBooking(bookingInput)
+  const amountDue = Math.max(0, getExchangeDifference(credit, Number(created.total_amount), policy.fee))
+  const exchangeFields = {
+    exchanged_from: bookingId,
+    exchange_credit: credit,
+    exchange_fee: policy.fee,
+    amount_due: amountDue
+  }
+  await blink.db.bookings.update(created.id, exchangeFields)
+  const booking = { ...created, ...exchangeFields }
+
+  if (amountDue === 0 && getBookingStatus(booking) === 'pending_payment') {
+    await blink.db.bookings.update(booking.id, { payment_status: 'completed' })
+    const confirmed = await transitionBooking(booking, 'confirmed', { reason: 'Paid with exchange credit' })
+    await completeExchange(booking.id)
+    await issueTicketCode(booking.id).catch(error => console.error('Error issuing ticket code:', error))
+    return { booking: { ...confirmed, payment_status: 'completed' }, amountDue }
+  }
+  return { booking, amountDue }
+}
+
+/**
+ * Finishes an exchange once its new booking is confirmed: cancels the
+ * original booking, which frees its seats, and refunds any credit left
+ * over. If the original booking changed in the meantime the new booking is
+ * undone instead, so the same credit is never spent twice. Safe to call
+ * more than once.
+ */
+export async function completeExchange(bookingId: string) {
+  const booking = await fetchBooking(bookingId)
+  if (!booking?.exchanged_from || getBookingStatus(booking) !== 'confirmed') return
+
+  const original = await fetchBooking(booking.exchanged_from)
+  if (!original) return
+  if (original.exchanged_to === booking.id) return
+
+  try {
+    // Written with the status, so a concurrent call that loses the race sees who won
+    await transitionBooking(original, 'cancelled', {
+      reason: `Exchanged for booking ${booking.id}`,
+      set: { exchanged_to: booking.id }
+    })
+  } catch (error) {
+    if (!(error instanceof InvalidTransitionError)) throw error
+    const latest = await fetchBooking(original.id)
+    if (latest?.exchanged_to === booking.id) return
+
+    const cancelled = await transitionBooking(booking, 'cancelled', { reason: 'Original booking changed during the exchange' })
+    if (booking.payment_intent_id) {
+      await refundPayment(booking)
+      await transitionBooking(cancelled, 'refunded', { reason: 'Exchange undone' })
+    }
+    throw new ExchangeError(
+      'Your original booking changed while the exchange was in progress, so the new booking was cancelled and refunded'
+    )
+  }
+
+  const surplus = -getExchangeDifference(
+    Number(booking.exchange_credit),
+    Number(booking.total_amount),
+    Number(booking.exchange_fee)
+  )
+  if (surplus <= 0) return
+
+  try {
+    await refundBooking(original, surplus)
+    await blink.db.bookings.update(original.id, { refund_amount: (original.refund_amount || 0) + surplus })
+  } catch (error) {
+    console.error('Error refunding exchange difference:', error)
+  }
+}
+
+/**
+ * Refunds `amount` rupees of what a booking cost. An exchanged booking was
+ * paid partly by its own checkout and partly by the booking it replaced,
+ * so whatever its own payment cannot cover comes back from there.
+ */
+export async function refundBooking(booking: Booking, amount: number) {
+  if (!booking.exchanged_from) {
+    await refundPayment(booking, amount)
+    return
+  }
+
+  const ownRefundable = booking.payment_intent_id
+    ? Math.max(0, Number(booking.amount_due) - (booking.amount_refunded || 0))
+    : 0
+  const own = Math.min(amount, ownRefundable)
+  if (own > 0) {
+    await refundPayment(booking, own)
+  }
+
+  if (amount > own) {
+    const original = await fetchBooking(booking.exchanged_from)
+    if (!original) {
+      throw new ExchangeError('The booking this one was exchanged from no longer exists')
+    }
+    await refundBooking(original, amount - own)
+  }
+}
@@ -0,0 +1,126 @@
+import { blink } from '../blink/client'
+import { parseSeats } from './seats'
+import type { BookingStatus } from './booking-state'
+import { getShowStart } from './refund-policy'
+
+// Booking statuses whose seats count against a showtime's available_seats
+export const SEAT_CONSUMING_STATUSES: BookingStatus[] = ['pending_payment', 'confirmed', 'checked_in']
+
+export const consumesSeats = (status: BookingStatus) => SEAT_CONSUMING_STATUSES.includes(status)
+
+interface InventoryBooking {
+  seats: string
+}
+
+interface InventoryShowtime {
+  id: string
+  show_date: string
+  show_time: string
+  available_seats: number
+  total_seats: number
+}
+
+export interface InventoryDrift {
+  showtime_id: string
+  show_date: string
+  show_time: string
+  total_seats: number
+  booked_seats: number
+  recorded_available: number
+  expected_available: number
+  drift: number
+}
+
+/**
+ * Adjusts available_seats in a single UPDATE so concurrent bookings cannot
+ * overwrite each other's counts. The result is clamped to [0, total_seats].
+ */
+export async function adjustAvailableSeats(showtimeId: string, delta: number) {
+  if (delta === 0) return
+  await blink.db.sql(
+    `UPDATE showtimes
+     SET available_seats = MAX(0, MIN(total_seats, available_seats + ?))
+     WHERE id = ?`,
+    [delta, showtimeId]
+  )
+}
+
+export const releaseInventory = (showtimeId: string, seatCount: number) =>
+  adjustAvailableSeats(showtimeId, seatCount)
+
+export const consumeInventory = (showtimeId: string, seatCount: number) =>
+  adjustAvailableSeats(showtimeId, -seatCount)
+
+/**
+ * Recomputes available_seats for every showtime of a theater from the seats
+ * stored on its bookings. Drifted showtimes are returned, and corrected when
+ * `apply` is set.
+ */
+export async function reconcileInventory(
+  theaterId: string,
+  { apply = false }: { apply?: boolean } = {}
+): Promise<InventoryDrift[]> {
+  const showtimes = (await blink.db.showtimes.list({
+    where: { theater_id: theaterId },
+    orderBy: { show_date: 'desc' }
+  })) as InventoryShowtime[]
+
+  const drifts: InventoryDrift[] = []
+
+  for (const showtime of showtimes) {
+    const bookings = (await blink.db.bookings.list({
+      where: {
+        showtime_id: showtime.id,
+        booking_status: { in: SEAT_CONSUMING_STATUSES }
+      }
+    })) as InventoryBooking[]
+
+    const bookedSeats = new Set(bookings.flatMap(parseSeats)).size
+    const expected = Math.max(0, Number(showtime.total_seats) - bookedSeats)
+    const recorded = Number(showtime.available_seats)
+
+    if (expected === recorded) continue
+
+    drifts.push({
+      showtime_id: showtime.id,
+      show_date: showtime.show_date,
+      show_time: showtime.show_time,
+      total_seats: Number(showtime.total_seats),
+      booked_seats: bookedSeats,
+      recorded_available: recorded,
+      expected_available: expected,
+      drift: recorded - expected
+    })
+
+    if (apply) {
+      await blink.db.showtimes.update(showtime.id, { available_seats: expected })
+    }
+  }
+
+  return drifts
+}
+
+/**
+ * Seats booked or held for a screen's shows from today on. A layout edit
+ * must leave these where they are, or the bookings would point at seats
+ * that no longer exist or at different ones.
+ */
+export async function fetchSeatsInUse(screenId: string): Promise<string[]> {
+  const startOfToday = new Date()
+  startOfToday.setHours(0, 0, 0, 0)
+
+  const showtimes = ((await blink.db.showtimes.list({ where: { screen_id: screenId } })) as InventoryShowtime[])
+    .filter(showtime => getShowStart(showtime) >= startOfToday)
+  if (showtimes.length === 0) return []
+
+  const showtimeIds = showtimes.map(showtime => showtime.id)
+  const [bookings, holds] = await Promise.all([
+    blink.db.bookings.list({
+      where: { showtime_id: { in: showtimeIds }, booking_status: { in: SEAT_CONSUMING_STATUSES } }
+    }) as Promise<InventoryBooking[]>,
+    blink.db.seatHolds.list({
+      where: { showtime_id: { in: showtimeIds }, expires_at: { gt: new Date().toISOString() } }
+    }) as Promise<{ seat_id: string }[]>
+  ])
+  return [...new Set([...bookings.flatMap(parseSeats), ...holds.map(hold => hold.seat_id)])]
+}
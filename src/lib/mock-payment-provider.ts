@@ -0,0 +1,262 @@
+import { blink } from '../blink/client'
+import {
+  PAYMENT_TIMEOUT_MS,
+  PaymentError,
+  type ConfirmPaymentInput,
+  type PaymentIntent,
+  type PaymentIntentStatus,
+  type PaymentProvider,
+  type PaymentRefund,
+  type PaymentWebhookEvent,
+  type PaymentWebhookType
+} from './payment-gateway'
+
+export type MockCardOutcome = 'success' | 'decline' | 'three_d_secure' | 'timeout'
+
+// Card numbers that trigger each simulated outcome; any other valid-looking number succeeds
+export const MOCK_TEST_CARDS: { number: string; outcome: MockCardOutcome; label: string }[] = [
+  { number: '4242 4242 4242 4242', outcome: 'success', label: 'Payment succeeds' },
+  { number: '4000 0000 0000 0002', outcome: 'decline', label: 'Card is declined' },
+  { number: '4000 0000 0000 3220', outcome: 'three_d_secure', label: '3-D Secure challenge' },
+  { number: '4000 0000 0000 0119', outcome: 'timeout', label: 'Gateway times out' }
+]
+
+const WEBHOOK_SECRET = 'mock_webhook_secret'
+// Simulated network round trip
+const LATENCY_MS = 600
+
+interface StoredIntent extends PaymentIntent {
+  idempotencyKey: string
+}
+
+// A row of payment_intents; JSON columns hold nextAction and metadata
+interface PaymentIntentRow {
+  id: string
+  amount: number
+  currency: string
+  status: PaymentIntentStatus
+  amount_refunded: number
+  next_action?: string | null
+  failure_reason?: string | null
+  metadata: string
+  idempotency_key: string
+  updated_at: string
+}
+
+const fromRow = (row: PaymentIntentRow): StoredIntent => ({
+  id: row.id,
+  amount: Number(row.amount),
+  currency: row.currency,
+  status: row.status,
+  amountRefunded: Number(row.amount_refunded) || 0,
+  nextAction: row.next_action ? JSON.parse(row.next_action) : undefined,
+  failureReason: row.failure_reason || undefined,
+  metadata: JSON.parse(row.metadata || '{}'),
+  idempotencyKey: row.idempotency_key
+})
+
+const toRow = (intent: StoredIntent): PaymentIntentRow => ({
+  id: intent.id,
+  amount: intent.amount,
+  currency: intent.currency,
+  status: intent.status,
+  amount_refunded: intent.amountRefunded,
+  next_action: intent.nextAction ? JSON.stringify(intent.nextAction) : null,
+  failure_reason: intent.failureReason ?? null,
+  metadata: JSON.stringify(intent.metadata),
+  idempotency_key: intent.idempotencyKey,
+  updated_at: new Date().toISOString()
+})
+
+type WebhookListener = (payload: string, signature: string) => void
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+const digitsOnly = (value: string) => value.replace(/\D/g, '')
+
+function getCardOutcome(number: string): MockCardOutcome {
+  const card = MOCK_TEST_CARDS.find(test => digitsOnly(test.number) === digitsOnly(number))
+  return card?.outcome || 'success'
+}
+
+async function sign(payload: string) {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(WEBHOOK_SECRET),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload))
+  return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * A payment provider that simulates a gateway in the browser, for
+ * development and demos. Intents are kept in the payment_intents table, like
+ * a real gateway's records, so a checkout survives a reload and staff on
+ * another device can refund it. Webhooks are delivered in-process to
+ * listeners added with onWebhook.
+ */
+export class MockPaymentProvider implements PaymentProvider {
+  id = 'mock'
+  name = 'Test Payments'
+  private listeners = new Set<WebhookListener>()
+
+  private async save(intent: StoredIntent) {
+    await blink.db.payment_intents.update(intent.id, toRow(intent))
+    return intent
+  }
+
+  private async get(intentId: string): Promise<StoredIntent> {
+    const rows = (await blink.db.payment_intents.list({ where: { id: intentId }, limit: 1 })) as PaymentIntentRow[]
+    if (rows.length === 0) throw new PaymentError(`Unknown payment ${intentId}`, 'invalid_request')
+    return fromRow(rows[0])
+  }
+
+  private async emit(type: PaymentWebhookType, intent: PaymentIntent) {
+    const event: PaymentWebhookEvent = {
+      id: `evt_${crypto.randomUUID()}`,
+      type,
+      intent,
+      createdAt: new Date().toISOString()
+    }
+    const payload = JSON.stringify(event)
+    const signature = await sign(payload)
+    this.listeners.forEach(listener => listener(payload, signature))
+  }
+
+  onWebhook(listener: WebhookListener) {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  async createIntent(input: Parameters<PaymentProvider['createIntent']>[0]): Promise<PaymentIntent> {
+    await sleep(LATENCY_MS)
+    const existing = (await blink.db.payment_intents.list({
+      where: { idempotency_key: input.idempotencyKey },
+      limit: 1
+    })) as PaymentIntentRow[]
+    if (existing.length > 0) return fromRow(existing[0])
+
+    const intent: StoredIntent = {
+      id: `pi_mock_${crypto.randomUUID()}`,
+      amount: input.amount,
+      currency: input.currency,
+      status: 'requires_confirmation',
+      amountRefunded: 0,
+      metadata: input.metadata,
+      idempotencyKey: input.idempotencyKey
+    }
+    await blink.db.payment_intents.create({ ...toRow(intent), created_at: new Date().toISOString() })
+    return intent
+  }
+
+  async confirmIntent(intentId: string, input: ConfirmPaymentInput): Promise<PaymentIntent> {
+    await sleep(LATENCY_MS)
+    const intent = await this.get(intentId)
+
+    if (input.authentication) {
+      if (intent.status !== 'requires_action') {
+        throw new PaymentError('This payment is not waiting for authentication', 'invalid_request')
+      }
+      return this.authorize(intent, input.authentication.approved ? undefined : 'Card authentication failed')
+    }
+
+    if (intent.status !== 'requires_confirmation' && intent.status !== 'failed') {
+      throw new PaymentError(`Cannot confirm a payment that is ${intent.status}`, 'invalid_request')
+    }
+    if (!input.card || digitsOnly(input.card.number).length < 12) {
+      throw new PaymentError('Enter a valid card number', 'invalid_request')
+    }
+
+    switch (getCardOutcome(input.card.number)) {
+      case 'decline':
+        return this.authorize(intent, 'Your card was declined')
+      case 'three_d_secure':
+        return this.save({
+          ...intent,
+          status: 'requires_action',
+          nextAction: { type: 'three_d_secure' },
+          failureReason: undefined
+        })
+      case 'timeout':
+        // Outlive the gateway timeout, then give up like a processor that never heard back
+        await sleep(PAYMENT_TIMEOUT_MS + 5000)
+        return this.authorize(intent, 'The card issuer did not respond')
+      default:
+        return this.authorize(intent)
+    }
+  }
+
+  private async authorize(intent: StoredIntent, failureReason?: string) {
+    const updated = await this.save({
+      ...intent,
+      status: failureReason ? 'failed' : 'authorized',
+      nextAction: undefined,
+      failureReason
+    })
+    await this.emit(failureReason ? 'payment.failed' : 'payment.authorized', updated)
+    return updated
+  }
+
+  async captureIntent(intentId: string): Promise<PaymentIntent> {
+    await sleep(LATENCY_MS)
+    const intent = await this.get(intentId)
+    if (intent.status === 'captured') return intent
+    if (intent.status !== 'authorized') {
+      throw new PaymentError(`Cannot capture a payment that is ${intent.status}`, 'invalid_request')
+    }
+
+    const updated = await this.save({ ...intent, status: 'captured' })
+    await this.emit('payment.captured', updated)
+    return updated
+  }
+
+  async refund(intentId: string, amount?: number): Promise<PaymentRefund> {
+    await sleep(LATENCY_MS)
+    const intent = await this.get(intentId)
+    const refundable = intent.amount - intent.amountRefunded
+    const refundAmount = amount ?? refundable
+
+    if (intent.status !== 'captured' || refundAmount <= 0 || refundAmount > refundable) {
+      throw new PaymentError('This payment cannot be refunded for that amount', 'invalid_request')
+    }
+
+    const amountRefunded = intent.amountRefunded + refundAmount
+    const updated: StoredIntent = {
+      ...intent,
+      amountRefunded,
+      // Partially refunded payments stay captured until the full amount is returned
+      status: amountRefunded >= intent.amount ? 'refunded' : 'captured'
+    }
+    // Matching on the amount refunded so far stops two refunds at once from both going through
+    const result = await blink.db.sql(
+      `UPDATE payment_intents SET amount_refunded = ?, status = ?, updated_at = ?
+       WHERE id = ? AND amount_refunded = ?
+       RETURNING id`,
+      [updated.amountRefunded, updated.status, new Date().toISOString(), intent.id, intent.amountRefunded]
+    )
+    if (result.rows.length === 0) {
+      throw new PaymentError('This payment was refunded by someone else at the same time. Please try again.', 'invalid_request')
+    }
+    await this.emit('payment.refunded', updated)
+
+    return {
+      id: `re_mock_${crypto.randomUUID()}`,
+      intentId,
+      amount: refundAmount,
+      status: 'succeeded'
+    }
+  }
+
+  async verifyWebhook(payload: string, signature: string): Promise<PaymentWebhookEvent> {
+    if ((await sign(payload)) !== signature) {
+      throw new PaymentError('Webhook signature does not match', 'invalid_signature')
+    }
+    return JSON.parse(payload) as PaymentWebhookEvent
+  }
+}
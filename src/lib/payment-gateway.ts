@@ -0,0 +1,127 @@
+// Provider-neutral payment types. Each gateway (the bundled mock, or a real
+// processor) implements PaymentProvider and registers itself by ID.
+
+export type PaymentIntentStatus =
+  | 'requires_confirmation'
+  | 'requires_action'
+  | 'authorized'
+  | 'captured'
+  | 'failed'
+  | 'refunded'
+
+export interface PaymentIntent {
+  id: string
+  // In rupees, matching booking.total_amount
+  amount: number
+  currency: string
+  status: PaymentIntentStatus
+  amountRefunded: number
+  // Set when the customer has to complete a 3-D Secure challenge
+  nextAction?: { type: 'three_d_secure'; challengeUrl?: string }
+  failureReason?: string
+  metadata: Record<string, string>
+}
+
+export interface CardDetails {
+  number: string
+  expiry: string
+  cvc: string
+  name: string
+}
+
+export interface ConfirmPaymentInput {
+  card?: CardDetails
+  // The result of a 3-D Secure challenge, when resuming an intent that required one
+  authentication?: { approved: boolean }
+}
+
+export interface PaymentRefund {
+  id: string
+  intentId: string
+  amount: number
+  status: 'succeeded' | 'failed'
+}
+
+export type PaymentWebhookType =
+  | 'payment.authorized'
+  | 'payment.captured'
+  | 'payment.failed'
+  | 'payment.refunded'
+
+export interface PaymentWebhookEvent {
+  id: string
+  type: PaymentWebhookType
+  intent: PaymentIntent
+  createdAt: string
+}
+
+export interface PaymentProvider {
+  id: string
+  name: string
+  createIntent(input: {
+    amount: number
+    currency: string
+    metadata: Record<string, string>
+    idempotencyKey: string
+  }): Promise<PaymentIntent>
+  confirmIntent(intentId: string, input: ConfirmPaymentInput): Promise<PaymentIntent>
+  captureIntent(intentId: string): Promise<PaymentIntent>
+  // Refunds the whole remaining amount when `amount` is left out
+  refund(intentId: string, amount?: number): Promise<PaymentRefund>
+  // Throws a PaymentError when the signature does not match the payload
+  verifyWebhook(payload: string, signature: string): Promise<PaymentWebhookEvent>
+}
+
+export type PaymentErrorCode =
+  | 'declined'
+  | 'authentication_failed'
+  | 'timeout'
+  | 'invalid_request'
+  | 'invalid_signature'
+
+export class PaymentError extends Error {
+  code: PaymentErrorCode
+
+  constructor(message: string, code: PaymentErrorCode) {
+    super(message)
+    this.name = 'PaymentError'
+    this.code = code
+  }
+}
+
+// Gateway calls that take longer than this are treated as failed
+export const PAYMENT_TIMEOUT_MS = 15 * 1000
+
+export const DEFAULT_PAYMENT_PROVIDER = 'mock'
+
+const providers = new Map<string, PaymentProvider>()
+
+export function registerPaymentProvider(provider: PaymentProvider) {
+  providers.set(provider.id, provider)
+}
+
+export function getPaymentProvider(id = DEFAULT_PAYMENT_PROVIDER): PaymentProvider {
+  const provider = providers.get(id)
+  if (!provider) {
+    throw new PaymentError(`Payment provider "${id}" is not registered`, 'invalid_request')
+  }
+  return provider
+}
+
+export function withPaymentTimeout<T>(promise: Promise<T>, ms = PAYMENT_TIMEOUT_MS): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      reject(new PaymentError('The payment provider did not respond in time', 'timeout'))
+    }, ms)
+    promise.then(
+      value => {
+        clearTimeout(timer)
+        resolve(value)
+      },
+      error => {
+        clearTimeout(timer)
+        reject(error)
+      }
+    )
+  })
+}
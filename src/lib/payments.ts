@@ -0,0 +1,273 @@
+import { blink } from '../blink/client'
+import {
+  DEFAULT_PAYMENT_PROVIDER,
+  PaymentError,
+  getPaymentProvider,
+  registerPaymentProvider,
+  withPaymentTimeout,
+  type ConfirmPaymentInput,
+  type PaymentErrorCode,
+  type PaymentIntent,
+  type PaymentWebhookEvent
+} from './payment-gateway'
+import { MockPaymentProvider } from './mock-payment-provider'
+import { getBookingStatus, InvalidTransitionError, transitionBooking } from './booking-state'
+import { isPaymentOverdue, priceBooking, type Booking } from './bookings'
+import { completeExchange } from './exchanges'
+import { issueTicketCode } from './ticket-signing'
+
+/**
+ * Values of bookings.payment_status:
+ * - pending: booking created, checkout not started
+ * - processing: waiting on the payment provider
+ * - requires_action: the customer has to pass a 3-D Secure challenge
+ * - authorized: funds reserved but not yet captured
+ * - completed: captured
+ * - failed: declined, failed authentication or timed out; the customer can retry
+ * - refunded / partially_refunded
+ */
+export type PaymentStatus =
+  | 'pending'
+  | 'processing'
+  | 'requires_action'
+  | 'authorized'
+  | 'completed'
+  | 'failed'
+  | 'refunded'
+  | 'partially_refunded'
+
+export const PAYMENT_CURRENCY = 'INR'
+
+export interface PaymentBooking {
+  id: string
+  user_id: string
+  total_amount: number
+  amount_due?: number
+  payment_status: string
+  payment_provider?: string
+  payment_intent_id?: string
+  amount_refunded?: number
+}
+
+// Money has been taken and at least some of it is still refundable
+export const hasCapturedPayment = (booking: Pick<PaymentBooking, 'payment_status'>) =>
+  booking.payment_status === 'completed' || booking.payment_status === 'partially_refunded'
+
+const mockProvider = new MockPaymentProvider()
+registerPaymentProvider(mockProvider)
+// The mock delivers webhooks in the browser; a real provider would call a server endpoint instead
+mockProvider.onWebhook((payload, signature) => {
+  handlePaymentWebhook(mockProvider.id, payload, signature).catch(error => {
+    console.error('Error handling payment webhook:', error)
+  })
+})
+
+// What the customer is charged at checkout
+export const getAmountDue = (booking: Pick<PaymentBooking, 'total_amount' | 'amount_due'>) =>
+  Number(booking.amount_due ?? booking.total_amount)
+
+const providerFor = (booking: PaymentBooking) =>
+  getPaymentProvider(booking.payment_provider || DEFAULT_PAYMENT_PROVIDER)
+
+async function setPaymentStatus(bookingId: string, status: PaymentStatus, extra: Record<string, unknown> = {}) {
+  await blink.db.bookings.update(bookingId, { payment_status: status, ...extra })
+}
+
+async function fetchBooking(bookingId: string): Promise<Booking | null> {
+  const bookings = await blink.db.bookings.list({ where: { id: bookingId }, limit: 1 })
+  return (bookings[0] as Booking) || null
+}
+
+// Re-reads the booking right before charging, so an expired or cancelled booking is never paid for
+async function assertPayable(bookingId: string) {
+  const booking = await fetchBooking(bookingId)
+  if (booking && isPaymentOverdue(booking)) {
+    await transitionBooking(booking, 'expired', { reason: 'Payment window elapsed' }).catch(() => undefined)
+    throw new PaymentError('The time to pay for this booking has run out and the seats were released', 'invalid_request')
+  }
+  if (!booking || getBookingStatus(booking) !== 'pending_payment') {
+    throw new PaymentError('This booking can no longer be paid for', 'invalid_request')
+  }
+}
+
+/**
+ * Confirms a booking once its payment is captured, completing the exchange
+ * it was part of if any. If the booking expired while the customer was
+ * paying, the payment is refunded instead.
+ */
+async function confirmPaidBooking(bookingId: string) {
+  const booking = await fetchBooking(bookingId)
+  if (!booking) return
+
+  const status = getBookingStatus(booking)
+  if (status === 'confirmed' || status === 'checked_in') return
+
+  if (status === 'pending_payment') {
+    try {
+      await transitionBooking(booking, 'confirmed', { reason: 'Payment captured' })
+    } catch (error) {
+      if (!(error instanceof InvalidTransitionError)) throw error
+      // Either the webhook confirmed it first, or another client expired it
+      const latest = await fetchBooking(bookingId)
+      if (!latest || getBookingStatus(latest) !== 'confirmed') {
+        await refundExpiredPayment(booking)
+      }
+    }
+    await completeExchange(bookingId)
+    // The booking page signs the code if this fails
+    await issueTicketCode(bookingId).catch(error => console.error('Error issuing ticket code:', error))
+    return
+  }
+
+  await refundExpiredPayment(booking)
+}
+
+async function refundExpiredPayment(booking: PaymentBooking) {
+  await refundPayment({ ...booking, payment_status: 'completed' })
+  throw new PaymentError(
+    'Your booking expired before the payment went through, so the payment has been refunded',
+    'invalid_request'
+  )
+}
+
+/**
+ * Creates (or reuses) the booking's payment intent. One intent per booking,
+ * so retrying after a decline charges against the same intent. A new
+ * intent charges what the price-booking function says the booking costs,
+ * not the total stored on it, and the repriced booking is returned.
+ */
+export async function startPayment<T extends PaymentBooking>(unpriced: T): Promise<{ intent: PaymentIntent; booking: T }> {
+  const booking: T = unpriced.payment_intent_id ? unpriced : { ...unpriced, ...(await priceBooking(unpriced.id)) }
+  const provider = providerFor(booking)
+  const intent = await withPaymentTimeout(provider.createIntent({
+    amount: getAmountDue(booking),
+    currency: PAYMENT_CURRENCY,
+    metadata: { bookingId: booking.id, userId: booking.user_id },
+    idempotencyKey: `booking_${booking.id}`
+  }))
+
+  if (booking.payment_intent_id !== intent.id) {
+    await blink.db.bookings.update(booking.id, {
+      payment_provider: provider.id,
+      payment_intent_id: intent.id
+    })
+  }
+  return { intent, booking: { ...booking, payment_provider: provider.id, payment_intent_id: intent.id } }
+}
+
+// Records where an intent ended up; captures it once it is authorized
+async function settleIntent(
+  booking: PaymentBooking,
+  intent: PaymentIntent,
+  failureCode: PaymentErrorCode
+): Promise<PaymentIntent> {
+  switch (intent.status) {
+    case 'requires_action':
+      await setPaymentStatus(booking.id, 'requires_action')
+      return intent
+    case 'authorized': {
+      await setPaymentStatus(booking.id, 'authorized')
+      const captured = await withPaymentTimeout(providerFor(booking).captureIntent(intent.id))
+      await setPaymentStatus(booking.id, 'completed')
+      return captured
+    }
+    case 'captured':
+      await setPaymentStatus(booking.id, 'completed')
+      return intent
+    case 'failed':
+      await setPaymentStatus(booking.id, 'failed')
+      throw new PaymentError(intent.failureReason || 'The payment failed', failureCode)
+    default:
+      throw new PaymentError(`Unexpected payment state: ${intent.status}`, 'invalid_request')
+  }
+}
+
+async function confirm(booking: PaymentBooking, input: ConfirmPaymentInput) {
+  if (!booking.payment_intent_id) {
+    throw new PaymentError('Checkout has not been started for this booking', 'invalid_request')
+  }
+
+  await assertPayable(booking.id)
+  await setPaymentStatus(booking.id, 'processing')
+
+  let intent: PaymentIntent
+  try {
+    intent = await withPaymentTimeout(providerFor(booking).confirmIntent(booking.payment_intent_id, input))
+    intent = await settleIntent(booking, intent, input.authentication ? 'authentication_failed' : 'declined')
+  } catch (error) {
+    if (error instanceof PaymentError && error.code !== 'declined' && error.code !== 'authentication_failed') {
+      await setPaymentStatus(booking.id, 'failed')
+    }
+    throw error
+  }
+
+  if (intent.status === 'captured') {
+    await confirmPaidBooking(booking.id)
+  }
+  return intent
+}
+
+// Pays with a card. Resolves with a `requires_action` intent when a 3-D Secure challenge is needed
+export const submitPayment = (booking: PaymentBooking, card: NonNullable<ConfirmPaymentInput['card']>) =>
+  confirm(booking, { card })
+
+export const completeAuthentication = (booking: PaymentBooking, approved: boolean) =>
+  confirm(booking, { authentication: { approved } })
+
+// Refunds `amount` rupees, or everything still refundable when left out
+export async function refundPayment(booking: PaymentBooking, amount?: number) {
+  if (!booking.payment_intent_id || booking.payment_status === 'refunded') {
+    throw new PaymentError('This booking has no payment to refund', 'invalid_request')
+  }
+
+  const refund = await withPaymentTimeout(providerFor(booking).refund(booking.payment_intent_id, amount))
+  const amountRefunded = (booking.amount_refunded || 0) + refund.amount
+  await setPaymentStatus(
+    booking.id,
+    amountRefunded >= getAmountDue(booking) ? 'refunded' : 'partially_refunded',
+    { amount_refunded: amountRefunded }
+  )
+  return refund
+}
+
+const WEBHOOK_STATUSES: Record<PaymentWebhookEvent['type'], (intent: PaymentIntent) => PaymentStatus> = {
+  'payment.authorized': () => 'authorized',
+  'payment.captured': () => 'completed',
+  'payment.failed': () => 'failed',
+  'payment.refunded': intent => (intent.amountRefunded >= intent.amount ? 'refunded' : 'partially_refunded')
+}
+
+// For each status, the later statuses a webhook must not pull a booking back from,
+// since events can arrive late or out of order
+const SETTLED_STATUSES: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: [],
+  processing: [],
+  requires_action: [],
+  authorized: ['completed', 'refunded', 'partially_refunded'],
+  completed: ['refunded', 'partially_refunded'],
+  failed: ['completed', 'refunded', 'partially_refunded'],
+  refunded: [],
+  partially_refunded: ['refunded']
+}
+
+/**
+ * Verifies a provider webhook and brings the booking's payment_status in
+ * line with it. Safe to call more than once for the same event.
+ */
+export async function handlePaymentWebhook(providerId: string, payload: string, signature: string) {
+  const event = await getPaymentProvider(providerId).verifyWebhook(payload, signature)
+  const bookingId = event.intent.metadata.bookingId
+  if (!bookingId) return
+
+  const bookings = (await blink.db.bookings.list({ where: { id: bookingId }, limit: 1 })) as PaymentBooking[]
+  if (bookings.length === 0) return
+
+  const current = bookings[0].payment_status as PaymentStatus
+  const next = WEBHOOK_STATUSES[event.type](event.intent)
+  if (current === next || SETTLED_STATUSES[next]?.includes(current)) return
+
+  await setPaymentStatus(bookingId, next)
+  if (next === 'completed') {
+    await confirmPaidBooking(bookingId)
+  }
+}
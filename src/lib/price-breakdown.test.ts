@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest'
+import {
+  calculateDiscount,
+  calculatePriceBreakdown,
+  DEFAULT_PRICING_RULES,
+  getBookingBreakdown,
+  getTaxRate,
+  parsePricingRules,
+  type DiscountTerms,
+  type PricingRules
+} from './price-breakdown'
+
+// Default tax slabs with no fees and no rounding, so each test sees only what it sets up
+const noFees: PricingRules = { ...DEFAULT_PRICING_RULES, fees: [], rounding: 'none' }
+
+const terms = (overrides: Partial<DiscountTerms> = {}): DiscountTerms => ({
+  promotionId: 'promo_1',
+  code: 'SAVE50',
+  kind: 'percent',
+  value: 50,
+  maxDiscount: null,
+  minTickets: 1,
+  ...overrides
+})
+
+describe('calculatePriceBreakdown', () => {
+  it('adds fees, slab taxes and rounding to the tickets', () => {
+    const breakdown = calculatePriceBreakdown([200, 80], DEFAULT_PRICING_RULES)
+
+    expect(breakdown.lines.map(line => [line.id, line.amount])).toEqual([
+      ['tickets', 280],
+      ['fee:convenience', 40],
+      ['tax:tickets:12', 9.6],
+      ['tax:tickets:18', 36],
+      ['tax:fees', 7.2],
+      ['rounding', 0.2]
+    ])
+    expect(breakdown).toMatchObject({ subtotal: 280, fees: 40, taxes: 52.8, total: 373 })
+  })
+
+  it('keeps the paise when rounding is off', () => {
+    expect(calculatePriceBreakdown([80], noFees).total).toBe(89.6)
+  })
+
+  it('taxes discounted tickets in the slab of their full price', () => {
+    const breakdown = calculatePriceBreakdown([150, 150], noFees, { discountTerms: terms() })
+
+    expect(breakdown.lines.find(line => line.kind === 'discount')).toMatchObject({ label: 'Promo SAVE50', amount: -150 })
+    expect(breakdown).toMatchObject({ discount: 150, taxes: 27, total: 177 })
+  })
+
+  it('taxes food and drinks at the food rate', () => {
+    const breakdown = calculatePriceBreakdown([100], noFees, { concessions: 100 })
+
+    expect(breakdown.lines.find(line => line.id === 'tax:concessions')?.amount).toBe(5)
+    expect(breakdown).toMatchObject({ concessions: 100, total: 217 })
+  })
+
+  it('charges nothing for an empty booking', () => {
+    expect(calculatePriceBreakdown([], DEFAULT_PRICING_RULES)).toMatchObject({ fees: 0, taxes: 0, total: 0 })
+  })
+})
+
+describe('calculateDiscount', () => {
+  it('takes a percentage of the tickets up to the cap', () => {
+    expect(calculateDiscount(terms({ value: 20 }), 2, 500)).toBe(100)
+    expect(calculateDiscount(terms({ value: 20, maxDiscount: 60 }), 2, 500)).toBe(60)
+  })
+
+  it('never takes more than the tickets cost', () => {
+    expect(calculateDiscount(terms({ kind: 'flat', value: 300 }), 1, 200)).toBe(200)
+  })
+
+  it('gives nothing below the minimum ticket count', () => {
+    expect(calculateDiscount(terms({ minTickets: 3 }), 2, 500)).toBe(0)
+  })
+})
+
+describe('getTaxRate', () => {
+  it('uses the first slab the price fits under', () => {
+    expect(getTaxRate(DEFAULT_PRICING_RULES, 100)).toBe(12)
+    expect(getTaxRate(DEFAULT_PRICING_RULES, 100.5)).toBe(18)
+  })
+})
+
+describe('parsePricingRules', () => {
+  it('fills in missing fields from the defaults', () => {
+    expect(parsePricingRules('{"rounding":"none"}')).toEqual({ ...DEFAULT_PRICING_RULES, rounding: 'none' })
+    expect(parsePricingRules('not json')).toBe(DEFAULT_PRICING_RULES)
+  })
+})
+
+describe('getBookingBreakdown', () => {
+  it('shows a booking without a breakdown as a single tickets line', () => {
+    const breakdown = getBookingBreakdown({ seats: JSON.stringify(['1-1', '1-2']), total_amount: 500 })
+    expect(breakdown.lines).toEqual([{ id: 'tickets', kind: 'tickets', label: 'Tickets (2)', amount: 500 }])
+    expect(breakdown.total).toBe(500)
+  })
+})
@@ -0,0 +1,225 @@
+import { parseSeats } from './seats'
+
+// Stored as JSON in theaters.pricing_rules
+export interface PricingRules {
+  fees: FeeRule[]
+  // GST on tickets depends on the ticket's price; the first slab the price fits under applies
+  taxSlabs: TaxSlab[]
+  // Tax charged on the fees themselves
+  feeTaxPercent: number
+  // Tax on food and drinks ordered with the booking
+  foodTaxPercent: number
+  rounding: 'none' | 'nearest_rupee'
+}
+
+export interface FeeRule {
+  id: string
+  label: string
+  kind: 'flat' | 'percent'
+  // Rupees for flat fees, percent of the ticket price for percentage fees
+  amount: number
+  basis: 'per_ticket' | 'per_booking'
+}
+
+export interface TaxSlab {
+  // Highest ticket price in this slab; null for the top slab
+  upTo: number | null
+  ratePercent: number
+}
+
+export type PriceLineKind = 'tickets' | 'concessions' | 'discount' | 'fee' | 'tax' | 'rounding'
+
+export interface PriceLine {
+  id: string
+  kind: PriceLineKind
+  label: string
+  amount: number
+}
+
+// The terms of a promo code, kept on the breakdown so a repriced booking keeps its discount
+export interface DiscountTerms {
+  promotionId: string
+  code: string
+  kind: 'percent' | 'flat'
+  // Percent off the tickets, or rupees off the booking
+  value: number
+  // Cap on a percentage discount, in rupees
+  maxDiscount: number | null
+  minTickets: number
+}
+
+// Stored as JSON in bookings.price_breakdown, with the rules used so it can be recalculated the same way
+export interface PriceBreakdown {
+  lines: PriceLine[]
+  subtotal: number
+  // Food and drinks, before tax
+  concessions: number
+  discount: number
+  fees: number
+  taxes: number
+  total: number
+  rules: PricingRules
+  discountTerms?: DiscountTerms
+}
+
+export const DEFAULT_PRICING_RULES: PricingRules = {
+  fees: [{ id: 'convenience', label: 'Convenience fee', kind: 'flat', amount: 20, basis: 'per_ticket' }],
+  taxSlabs: [
+    { upTo: 100, ratePercent: 12 },
+    { upTo: null, ratePercent: 18 }
+  ],
+  feeTaxPercent: 18,
+  foodTaxPercent: 5,
+  rounding: 'nearest_rupee'
+}
+
+export function parsePricingRules(raw: string | null | undefined): PricingRules {
+  if (!raw) return DEFAULT_PRICING_RULES
+  try {
+    return { ...DEFAULT_PRICING_RULES, ...(JSON.parse(raw) as Partial<PricingRules>) }
+  } catch {
+    return DEFAULT_PRICING_RULES
+  }
+}
+
+// Amounts are kept to the paisa until the final rounding
+const toPaise = (amount: number) => Math.round(amount * 100) / 100
+
+export function getTaxRate(rules: PricingRules, ticketPrice: number) {
+  const slabs = [...rules.taxSlabs].sort((a, b) => (a.upTo ?? Infinity) - (b.upTo ?? Infinity))
+  return slabs.find(slab => slab.upTo === null || ticketPrice <= slab.upTo)?.ratePercent ?? 0
+}
+
+// Discounts come off the ticket prices, never the fees, and never below zero
+export function calculateDiscount(terms: DiscountTerms, ticketCount: number, subtotal: number) {
+  if (ticketCount < terms.minTickets) return 0
+  const amount = terms.kind === 'percent' ? (subtotal * terms.value) / 100 : terms.value
+  return toPaise(Math.min(subtotal, terms.maxDiscount ?? Infinity, amount))
+}
+
+function calculateFee(fee: FeeRule, ticketPrices: number[], subtotal: number) {
+  if (fee.kind === 'percent') return (subtotal * fee.amount) / 100
+  return fee.basis === 'per_ticket' ? fee.amount * ticketPrices.length : fee.amount
+}
+
+export interface PriceExtras {
+  discountTerms?: DiscountTerms
+  // Total of the food and drinks ordered with the tickets
+  concessions?: number
+}
+
+/**
+ * Prices a set of tickets: any promo discount, fees, food and drinks, then
+ * tax on the discounted tickets by slab, on the fees and on the food, then
+ * rounding of the grand total. Every screen that shows a price renders
+ * these lines rather than adding amounts up itself.
+ */
+export function calculatePriceBreakdown(
+  ticketPrices: number[],
+  rules: PricingRules,
+  { discountTerms, concessions: rawConcessions = 0 }: PriceExtras = {}
+): PriceBreakdown {
+  const subtotal = toPaise(ticketPrices.reduce((sum, price) => sum + price, 0))
+  const lines: PriceLine[] = [
+    {
+      id: 'tickets',
+      kind: 'tickets',
+      label: `Tickets (${ticketPrices.length})`,
+      amount: subtotal
+    }
+  ]
+  if (ticketPrices.length === 0) {
+    return { lines, subtotal: 0, concessions: 0, discount: 0, fees: 0, taxes: 0, total: 0, rules, discountTerms }
+  }
+
+  const discount = discountTerms ? calculateDiscount(discountTerms, ticketPrices.length, subtotal) : 0
+  if (discount > 0) {
+    lines.push({ id: 'discount', kind: 'discount', label: `Promo ${discountTerms!.code}`, amount: -discount })
+  }
+  // Each ticket is taxed on its share of the discounted subtotal, in the slab of its full price
+  const discountRatio = subtotal > 0 ? (subtotal - discount) / subtotal : 1
+
+  let fees = 0
+  rules.fees.forEach(fee => {
+    const amount = toPaise(calculateFee(fee, ticketPrices, subtotal))
+    if (amount === 0) return
+    fees += amount
+    lines.push({ id: `fee:${fee.id}`, kind: 'fee', label: fee.label, amount })
+  })
+
+  const concessions = toPaise(rawConcessions)
+  if (concessions > 0) {
+    lines.push({ id: 'concessions', kind: 'concessions', label: 'Food & beverages', amount: concessions })
+  }
+
+  // Tickets in the same slab share one tax line
+  const ticketTax = new Map<number, number>()
+  ticketPrices.forEach(price => {
+    const rate = getTaxRate(rules, price)
+    ticketTax.set(rate, (ticketTax.get(rate) || 0) + (price * discountRatio * rate) / 100)
+  })
+
+  let taxes = 0
+  Array.from(ticketTax.entries())
+    .sort(([a], [b]) => a - b)
+    .forEach(([rate, tax]) => {
+      const amount = toPaise(tax)
+      if (amount === 0) return
+      taxes += amount
+      lines.push({ id: `tax:tickets:${rate}`, kind: 'tax', label: `GST ${rate}% on tickets`, amount })
+    })
+
+  const feeTax = toPaise((fees * rules.feeTaxPercent) / 100)
+  if (feeTax > 0) {
+    taxes += feeTax
+    lines.push({ id: 'tax:fees', kind: 'tax', label: `GST ${rules.feeTaxPercent}% on fees`, amount: feeTax })
+  }
+
+  const foodTax = toPaise((concessions * rules.foodTaxPercent) / 100)
+  if (foodTax > 0) {
+    taxes += foodTax
+    lines.push({ id: 'tax:concessions', kind: 'tax', label: `GST ${rules.foodTaxPercent}% on food`, amount: foodTax })
+  }
+
+  const exact = toPaise(subtotal - discount + fees + concessions + taxes)
+  const total = rules.rounding === 'nearest_rupee' ? Math.round(exact) : exact
+  if (total !== exact) {
+    lines.push({ id: 'rounding', kind: 'rounding', label: 'Rounding', amount: toPaise(total - exact) })
+  }
+
+  return {
+    lines,
+    subtotal,
+    concessions,
+    discount,
+    fees: toPaise(fees),
+    taxes: toPaise(taxes),
+    total,
+    rules,
+    discountTerms
+  }
+}
+
+/**
+ * The breakdown a booking was charged. Bookings made before itemized
+ * pricing only have a total, shown as a single tickets line.
+ */
+export function getBookingBreakdown(booking: { seats: string; total_amount: number; price_breakdown?: string | null }): PriceBreakdown {
+  if (booking.price_breakdown) return { concessions: 0, discount: 0, ...JSON.parse(booking.price_breakdown) }
+
+  const total = Number(booking.total_amount)
+  return {
+    lines: [{ id: 'tickets', kind: 'tickets', label: `Tickets (${parseSeats(booking).length})`, amount: total }],
+    subtotal: total,
+    concessions: 0,
+    discount: 0,
+    fees: 0,
+    taxes: 0,
+    total,
+    rules: { fees: [], taxSlabs: [], feeTaxPercent: 0, foodTaxPercent: 0, rounding: 'none' }
+  }
+}
+
+// ₹1,234.50, or ₹1,234 for whole rupees
+export const formatPrice = (amount: number) =>
+  `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: Number.isInteger(amount) ? 0 : 2, maximumFractionDigits: 2 })}`
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest'
+import { checkEligibility, checkUsageLimits, getDiscountTerms, PromotionError, type Redemption } from './promotion-rules'
+import type { Promotion } from './promotions'
+
+const promotion = (overrides: Partial<Promotion> = {}): Promotion => ({
+  id: 'promo_1',
+  code: 'WEEKEND',
+  description: '',
+  discount_type: 'percent',
+  discount_value: 20,
+  min_tickets: 1,
+  is_active: 1,
+  created_by: 'user_admin',
+  created_at: '2026-01-01T00:00:00Z',
+  ...overrides
+})
+
+// 2026-03-01 is a Sunday
+const show = { movie_id: 'movie_1', theater_id: 'theater_1', show_date: '2026-03-01', format: 'IMAX' }
+const now = new Date('2026-02-20T12:00:00Z')
+
+const eligibility = (overrides: Partial<Promotion>, ticketCount = 2) =>
+  () => checkEligibility(promotion(overrides), show, ticketCount, now)
+
+describe('checkEligibility', () => {
+  it('accepts a promotion with no restrictions', () => {
+    expect(eligibility({})).not.toThrow()
+  })
+
+  it('rejects a promotion that is switched off', () => {
+    expect(eligibility({ is_active: 0 })).toThrow('WEEKEND is no longer running')
+  })
+
+  it('rejects a promotion outside its validity window', () => {
+    expect(eligibility({ valid_from: '2026-03-01T00:00:00Z' })).toThrow(/starts on/)
+    expect(eligibility({ valid_until: '2026-02-19T00:00:00Z' })).toThrow('WEEKEND has expired')
+    expect(eligibility({ valid_from: '2026-02-01T00:00:00Z', valid_until: '2026-02-28T00:00:00Z' })).not.toThrow()
+  })
+
+  it('needs the minimum number of tickets', () => {
+    expect(eligibility({ min_tickets: 3 })).toThrow('WEEKEND needs at least 3 tickets')
+    expect(eligibility({ min_tickets: 3 }, 3)).not.toThrow()
+  })
+
+  it('applies only to the listed movies and theaters', () => {
+    expect(eligibility({ movie_ids: '["movie_2"]' })).toThrow('does not apply to this movie')
+    expect(eligibility({ theater_ids: '["theater_2"]' })).toThrow('does not apply at this theater')
+    expect(eligibility({ movie_ids: '["movie_1"]', theater_ids: '["theater_1"]' })).not.toThrow()
+  })
+
+  it('applies only on the listed days of the show', () => {
+    expect(eligibility({ days_of_week: '[5,6]' })).toThrow('only valid for shows on Fri, Sat')
+    expect(eligibility({ days_of_week: '[0,6]' })).not.toThrow()
+  })
+
+  it('applies only to the listed formats', () => {
+    expect(eligibility({ formats: '["2D","3D"]' })).toThrow('only valid for 2D, 3D shows')
+    expect(eligibility({ formats: '["IMAX"]' })).not.toThrow()
+  })
+
+  it('throws PromotionError so callers can show the message', () => {
+    expect(eligibility({ is_active: 0 })).toThrow(PromotionError)
+  })
+})
+
+const redemption = (id: string, userId: string, createdAt: string): Redemption => ({ id, user_id: userId, created_at: createdAt })
+
+describe('checkUsageLimits', () => {
+  const redemptions = [
+    redemption('bk_1', 'user_1', '2026-02-01T10:00:00Z'),
+    redemption('bk_2', 'user_2', '2026-02-01T11:00:00Z')
+  ]
+
+  it('rejects once the total cap is reached', () => {
+    expect(() => checkUsageLimits(promotion({ usage_limit: 2 }), 'user_3', redemptions)).toThrow('WEEKEND has been fully redeemed')
+    expect(() => checkUsageLimits(promotion({ usage_limit: 3 }), 'user_3', redemptions)).not.toThrow()
+  })
+
+  it('rejects once the customer reaches their own cap', () => {
+    expect(() => checkUsageLimits(promotion({ per_user_limit: 1 }), 'user_1', redemptions)).toThrow('maximum number of times')
+    expect(() => checkUsageLimits(promotion({ per_user_limit: 1 }), 'user_3', redemptions)).not.toThrow()
+  })
+
+  it('treats missing caps as unlimited', () => {
+    expect(() => checkUsageLimits(promotion(), 'user_1', redemptions)).not.toThrow()
+  })
+
+  it('counts only bookings made before the given booking', () => {
+    const last = promotion({ usage_limit: 2 })
+    const first = redemption('bk_1', 'user_1', '2026-02-01T10:00:00Z')
+    const third = redemption('bk_3', 'user_3', '2026-02-01T12:00:00Z')
+
+    expect(() => checkUsageLimits(last, 'user_1', [...redemptions, third], first)).not.toThrow()
+    expect(() => checkUsageLimits(last, 'user_3', [...redemptions, third], third)).toThrow('fully redeemed')
+  })
+
+  it('lets only the earlier of two unpriced bookings racing for a single-use code redeem it', () => {
+    // Both bookings carry the code before either is priced, so each pricing call sees the other
+    const single = promotion({ usage_limit: 1, per_user_limit: 1 })
+    const first = redemption('bk_first', 'user_1', '2026-02-01T10:00:00.100Z')
+    const second = redemption('bk_second', 'user_1', '2026-02-01T10:00:00.200Z')
+    const racing = [first, second]
+
+    expect(() => checkUsageLimits(single, 'user_1', racing, second)).toThrow('WEEKEND has been fully redeemed')
+    expect(() => checkUsageLimits(single, 'user_1', racing, first)).not.toThrow()
+  })
+
+  it('breaks ties between bookings made at the same moment by id', () => {
+    const last = promotion({ usage_limit: 1 })
+    const a = redemption('bk_a', 'user_1', '2026-02-01T10:00:00Z')
+    const b = redemption('bk_b', 'user_2', '2026-02-01T10:00:00Z')
+
+    expect(() => checkUsageLimits(last, 'user_1', [a, b], a)).not.toThrow()
+    expect(() => checkUsageLimits(last, 'user_2', [a, b], b)).toThrow('fully redeemed')
+  })
+})
+
+describe('getDiscountTerms', () => {
+  it('reads numbers stored as strings and defaults the minimum ticket count', () => {
+    const terms = getDiscountTerms(promotion({ discount_value: '15' as unknown as number, max_discount: null, min_tickets: 0 }))
+    expect(terms).toEqual({ promotionId: 'promo_1', code: 'WEEKEND', kind: 'percent', value: 15, maxDiscount: null, minTickets: 1 })
+  })
+})
@@ -0,0 +1,116 @@
+import type { BookingStatus } from './booking-state'
+import type { DiscountTerms } from './price-breakdown'
+import type { Promotion } from './promotions'
+
+// The show a promo code is being used for
+export interface PromotionShow {
+  movie_id: string
+  theater_id: string
+  show_date: string
+  // The screen's projection format
+  format: string
+}
+
+// A booking counted against a promo code's usage caps
+export interface Redemption {
+  id: string
+  user_id: string
+  created_at: string
+}
+
+export class PromotionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PromotionError'
+  }
+}
+
+export const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+// Bookings that use up a redemption; cancelled, expired and refunded bookings give theirs back
+export const REDEEMING_STATUSES: BookingStatus[] = ['pending_payment', 'confirmed', 'checked_in']
+
+export const normalizePromoCode = (code: string) => code.trim().toUpperCase()
+
+export function parseList<T = string>(raw: string | null | undefined): T[] {
+  if (!raw) return []
+  try {
+    return JSON.parse(raw)
+  } catch {
+    return []
+  }
+}
+
+export const getDiscountTerms = (promotion: Promotion): DiscountTerms => ({
+  promotionId: promotion.id,
+  code: promotion.code,
+  kind: promotion.discount_type,
+  value: Number(promotion.discount_value),
+  maxDiscount: promotion.max_discount ? Number(promotion.max_discount) : null,
+  minTickets: Number(promotion.min_tickets) || 1
+})
+
+/**
+ * Checks a promo code against everything except its usage caps: the
+ * validity window, the ticket count and the show's movie, theater, day and
+ * format.
+ */
+export function checkEligibility(promotion: Promotion, show: PromotionShow, ticketCount: number, now: Date) {
+  if (Number(promotion.is_active) === 0) {
+    throw new PromotionError(`${promotion.code} is no longer running`)
+  }
+  if (promotion.valid_from && new Date(promotion.valid_from) > now) {
+    throw new PromotionError(`${promotion.code} starts on ${new Date(promotion.valid_from).toLocaleDateString()}`)
+  }
+  if (promotion.valid_until && new Date(promotion.valid_until) < now) {
+    throw new PromotionError(`${promotion.code} has expired`)
+  }
+
+  const minTickets = Number(promotion.min_tickets) || 1
+  if (ticketCount < minTickets) {
+    throw new PromotionError(`${promotion.code} needs at least ${minTickets} tickets`)
+  }
+
+  const movieIds = parseList(promotion.movie_ids)
+  if (movieIds.length > 0 && !movieIds.includes(show.movie_id)) {
+    throw new PromotionError(`${promotion.code} does not apply to this movie`)
+  }
+
+  const theaterIds = parseList(promotion.theater_ids)
+  if (theaterIds.length > 0 && !theaterIds.includes(show.theater_id)) {
+    throw new PromotionError(`${promotion.code} does not apply at this theater`)
+  }
+
+  const days = parseList<number>(promotion.days_of_week)
+  const showDay = new Date(`${show.show_date.slice(0, 10)}T00:00`).getDay()
+  if (days.length > 0 && !days.includes(showDay)) {
+    throw new PromotionError(`${promotion.code} is only valid for shows on ${days.map(day => DAY_NAMES[day]).join(', ')}`)
+  }
+
+  const formats = parseList(promotion.formats)
+  if (formats.length > 0 && !formats.includes(show.format)) {
+    throw new PromotionError(`${promotion.code} is only valid for ${formats.join(', ')} shows`)
+  }
+}
+
+/**
+ * Counts redemptions against the overall and per-customer caps. When
+ * `booking` is given, only bookings made before it count, so two customers
+ * racing for the last redemption agree on who got it.
+ */
+export function checkUsageLimits(promotion: Promotion, userId: string, redemptions: Redemption[], booking?: Redemption) {
+  const counted = booking
+    ? redemptions.filter(other =>
+        other.id !== booking.id &&
+        (other.created_at === booking.created_at ? other.id < booking.id : other.created_at < booking.created_at)
+      )
+    : redemptions
+
+  if (promotion.usage_limit && counted.length >= Number(promotion.usage_limit)) {
+    throw new PromotionError(`${promotion.code} has been fully redeemed`)
+  }
+  const userRedemptions = counted.filter(other => other.user_id === userId).length
+  if (promotion.per_user_limit && userRedemptions >= Number(promotion.per_user_limit)) {
+    throw new PromotionError(`You have already used ${promotion.code} the maximum number of times`)
+  }
+}
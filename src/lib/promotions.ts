@@ -0,0 +1,190 @@
+import { blink } from '../blink/client'
+import { generateId, type Booking } from './bookings'
+import type { DiscountTerms } from './price-breakdown'
+import {
+  checkEligibility,
+  checkUsageLimits,
+  getDiscountTerms,
+  normalizePromoCode,
+  PromotionError,
+  REDEEMING_STATUSES,
+  type PromotionShow,
+  type Redemption
+} from './promotion-rules'
+import { parseSeats } from './seats'
+
+export interface Promotion {
+  id: string
+  code: string
+  description: string
+  discount_type: 'percent' | 'flat'
+  discount_value: number
+  max_discount?: number | null
+  min_tickets: number
+  // JSON arrays; an empty or missing list means no restriction
+  movie_ids?: string | null
+  theater_ids?: string | null
+  days_of_week?: string | null
+  formats?: string | null
+  // Redemptions allowed per customer and in total; null means unlimited
+  per_user_limit?: number | null
+  usage_limit?: number | null
+  valid_from?: string | null
+  valid_until?: string | null
+  is_active: boolean | number
+  // The theater that runs the offer, or null for platform-wide offers
+  owner_theater_id?: string | null
+  created_by: string
+  created_at: string
+}
+
+export interface PromotionInput {
+  code: string
+  description: string
+  discountType: 'percent' | 'flat'
+  discountValue: number
+  maxDiscount: number | null
+  minTickets: number
+  movieIds: string[]
+  theaterIds: string[]
+  daysOfWeek: number[]
+  formats: string[]
+  perUserLimit: number | null
+  usageLimit: number | null
+  validFrom: string | null
+  validUntil: string | null
+}
+
+export interface PromotionContext {
+  code: string
+  userId: string
+  showtimeId: string
+  ticketCount: number
+}
+
+export function describePromotion(promotion: Promotion) {
+  const terms = getDiscountTerms(promotion)
+  const amount = terms.kind === 'percent'
+    ? `${terms.value}% off${terms.maxDiscount ? ` (up to ₹${terms.maxDiscount})` : ''}`
+    : `₹${terms.value} off`
+  return terms.minTickets > 1 ? `${amount} on ${terms.minTickets}+ tickets` : amount
+}
+
+async function findPromotion(code: string): Promise<Promotion> {
+  const promotions = await blink.db.promotions.list({ where: { code: normalizePromoCode(code) }, limit: 1 })
+  if (promotions.length === 0) {
+    throw new PromotionError(`${normalizePromoCode(code)} is not a valid promo code`)
+  }
+  return promotions[0] as Promotion
+}
+
+async function fetchShow(showtimeId: string): Promise<PromotionShow> {
+  const showtimes = await blink.db.showtimes.list({ where: { id: showtimeId }, limit: 1 })
+  const showtime = showtimes[0]
+  if (!showtime) {
+    throw new PromotionError('Showtime not found')
+  }
+  const screens = await blink.db.screens.list({ where: { id: showtime.screen_id }, limit: 1 })
+  return { ...(showtime as Omit<PromotionShow, 'format'>), format: screens[0]?.format || '2D' }
+}
+
+async function fetchRedemptions(promotion: Promotion): Promise<Redemption[]> {
+  if (!promotion.usage_limit && !promotion.per_user_limit) return []
+  const bookings = await blink.db.bookings.list({
+    where: { promo_code: promotion.code, booking_status: { in: REDEEMING_STATUSES } }
+  })
+  return bookings as Redemption[]
+}
+
+/**
+ * Validates a promo code for a booking and returns the discount it gives,
+ * so checkout can show it when the customer applies the code. The
+ * price-booking function runs the same checks before a booking is charged.
+ */
+export async function validatePromotion(context: PromotionContext, now = new Date()): Promise<DiscountTerms> {
+  const promotion = await findPromotion(context.code)
+  checkEligibility(promotion, await fetchShow(context.showtimeId), context.ticketCount, now)
+  checkUsageLimits(promotion, context.userId, await fetchRedemptions(promotion))
+  return getDiscountTerms(promotion)
+}
+
+export async function createPromotion(input: PromotionInput, createdBy: string, ownerTheaterId: string | null) {
+  const code = normalizePromoCode(input.code)
+  if (!/^[A-Z0-9_-]{3,20}$/.test(code)) {
+    throw new PromotionError('Codes are 3 to 20 letters, digits, dashes or underscores')
+  }
+  if (input.discountValue <= 0 || (input.discountType === 'percent' && input.discountValue > 100)) {
+    throw new PromotionError('Enter a discount between 1 and 100 percent, or a positive amount')
+  }
+  if (input.validFrom && input.validUntil && input.validFrom > input.validUntil) {
+    throw new PromotionError('The offer must end after it starts')
+  }
+
+  const existing = await blink.db.promotions.list({ where: { code }, limit: 1 })
+  if (existing.length > 0) {
+    throw new PromotionError(`${code} is already in use`)
+  }
+
+  return (await blink.db.promotions.create({
+    id: generateId('promo'),
+    code,
+    description: input.description,
+    discount_type: input.discountType,
+    discount_value: input.discountValue,
+    max_discount: input.maxDiscount,
+    min_tickets: Math.max(1, input.minTickets),
+    movie_ids: JSON.stringify(input.movieIds),
+    // Theater admins can only run offers at their own theater
+    theater_ids: JSON.stringify(ownerTheaterId ? [ownerTheaterId] : input.theaterIds),
+    days_of_week: JSON.stringify(input.daysOfWeek),
+    formats: JSON.stringify(input.formats),
+    per_user_limit: input.perUserLimit,
+    usage_limit: input.usageLimit,
+    valid_from: input.validFrom,
+    valid_until: input.validUntil,
+    is_active: true,
+    owner_theater_id: ownerTheaterId,
+    created_by: createdBy,
+    created_at: new Date().toISOString()
+  })) as Promotion
+}
+
+export const setPromotionActive = (promotionId: string, active: boolean) =>
+  blink.db.promotions.update(promotionId, { is_active: active })
+
+// Platform owners see every offer; theater admins see their own
+export async function listPromotions(ownerTheaterId: string | null): Promise<Promotion[]> {
+  const promotions = await blink.db.promotions.list({
+    where: ownerTheaterId ? { owner_theater_id: ownerTheaterId } : {},
+    orderBy: { created_at: 'desc' }
+  })
+  return promotions as Promotion[]
+}
+
+export interface PromotionRedemptions {
+  bookings: number
+  tickets: number
+  discount: number
+  revenue: number
+}
+
+// Paid bookings made with each promotion, for redemption reporting
+export async function fetchPromotionRedemptions(promotionIds: string[]): Promise<Record<string, PromotionRedemptions>> {
+  const report = Object.fromEntries(
+    promotionIds.map(id => [id, { bookings: 0, tickets: 0, discount: 0, revenue: 0 }])
+  ) as Record<string, PromotionRedemptions>
+  if (promotionIds.length === 0) return report
+
+  const bookings = (await blink.db.bookings.list({
+    where: { promotion_id: { in: promotionIds }, booking_status: { in: ['confirmed', 'checked_in'] } }
+  })) as Booking[]
+
+  bookings.forEach(booking => {
+    const entry = report[booking.promotion_id!]
+    entry.bookings += 1
+    entry.tickets += parseSeats(booking).length
+    entry.discount += Number(booking.discount_amount) || 0
+    entry.revenue += Number(booking.total_amount) || 0
+  })
+  return report
+}
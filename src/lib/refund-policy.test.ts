@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_REFUND_POLICY,
+  describeRefundPolicy,
+  getShowStart,
+  parseRefundPolicy,
+  quoteRefund,
+  type RefundPolicy
+} from './refund-policy'
+
+const showStart = new Date('2026-03-01T18:00:00')
+const hoursBefore = (hours: number) => new Date(showStart.getTime() - hours * 60 * 60 * 1000)
+const quote = (hours: number, policy: RefundPolicy = DEFAULT_REFUND_POLICY, amount = 400) =>
+  quoteRefund(policy, amount, showStart, hoursBefore(hours))
+
+describe('quoteRefund', () => {
+  it('refunds everything up to the full-refund cutoff', () => {
+    expect(quote(48)).toMatchObject({ allowed: true, refundAmount: 400, fee: 0, feePercent: 0 })
+    expect(quote(24)).toMatchObject({ refundAmount: 400, fee: 0 })
+  })
+
+  it('charges the tier the cancellation falls in', () => {
+    expect(quote(23)).toMatchObject({ refundAmount: 300, fee: 100, feePercent: 25 })
+    expect(quote(4)).toMatchObject({ feePercent: 25 })
+    expect(quote(3.5)).toMatchObject({ refundAmount: 200, fee: 200, feePercent: 50 })
+  })
+
+  it('refuses once the show has started', () => {
+    expect(quote(0)).toMatchObject({ allowed: false })
+    expect(quote(-1)).toMatchObject({ allowed: false })
+  })
+
+  it('keeps the last tier closer to the show than it reaches', () => {
+    const policy = { fullRefundHours: 24, feeTiers: [{ hoursBefore: 4, feePercent: 25 }] }
+    expect(quote(2, policy)).toMatchObject({ feePercent: 25 })
+  })
+
+  it('refunds nothing after the cutoff when there are no tiers', () => {
+    expect(quote(2, { fullRefundHours: 24, feeTiers: [] })).toMatchObject({ refundAmount: 0, fee: 400, feePercent: 100 })
+  })
+
+  it('does not depend on the order tiers are stored in', () => {
+    const policy = { ...DEFAULT_REFUND_POLICY, feeTiers: [...DEFAULT_REFUND_POLICY.feeTiers].reverse() }
+    expect(quote(10, policy)).toMatchObject({ feePercent: 25 })
+  })
+
+  it('rounds the fee to whole rupees', () => {
+    expect(quote(10, DEFAULT_REFUND_POLICY, 250)).toMatchObject({ fee: 63, refundAmount: 187 })
+  })
+})
+
+describe('parseRefundPolicy', () => {
+  it('falls back to the default policy', () => {
+    expect(parseRefundPolicy(null)).toBe(DEFAULT_REFUND_POLICY)
+    expect(parseRefundPolicy('not json')).toBe(DEFAULT_REFUND_POLICY)
+  })
+
+  it('fills in missing fields from the default policy', () => {
+    expect(parseRefundPolicy('{"fullRefundHours":48}')).toEqual({
+      fullRefundHours: 48,
+      feeTiers: DEFAULT_REFUND_POLICY.feeTiers
+    })
+  })
+})
+
+describe('getShowStart', () => {
+  it('reads the date part of show_date with the local show_time', () => {
+    expect(getShowStart({ show_date: '2026-03-01T00:00:00Z', show_time: '18:00' })).toEqual(showStart)
+  })
+})
+
+describe('describeRefundPolicy', () => {
+  it('describes each tier up to the one before it', () => {
+    expect(describeRefundPolicy(DEFAULT_REFUND_POLICY)).toEqual([
+      'Full refund up to 24 hours before the show',
+      '25% fee between 4 and 24 hours before',
+      '50% fee within 4 hours of the show',
+      'No refunds once the show has started'
+    ])
+  })
+})
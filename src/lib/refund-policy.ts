@@ -0,0 +1,86 @@
+// Stored as JSON in theaters.refund_policy
+export interface RefundPolicy {
+  // Cancelling at least this many hours before the show refunds everything
+  fullRefundHours: number
+  // Fees for later cancellations; a tier applies from `hoursBefore` up to the next tier
+  feeTiers: { hoursBefore: number; feePercent: number }[]
+}
+
+export const DEFAULT_REFUND_POLICY: RefundPolicy = {
+  fullRefundHours: 24,
+  feeTiers: [
+    { hoursBefore: 4, feePercent: 25 },
+    { hoursBefore: 0, feePercent: 50 }
+  ]
+}
+
+export type RefundQuote =
+  | {
+      allowed: true
+      refundAmount: number
+      fee: number
+      feePercent: number
+      hoursBefore: number
+    }
+  | { allowed: false; reason: string }
+
+const HOUR_MS = 60 * 60 * 1000
+
+export function parseRefundPolicy(raw: string | null | undefined): RefundPolicy {
+  if (!raw) return DEFAULT_REFUND_POLICY
+  try {
+    const policy = JSON.parse(raw) as Partial<RefundPolicy>
+    return {
+      fullRefundHours: policy.fullRefundHours ?? DEFAULT_REFUND_POLICY.fullRefundHours,
+      feeTiers: policy.feeTiers ?? DEFAULT_REFUND_POLICY.feeTiers
+    }
+  } catch {
+    return DEFAULT_REFUND_POLICY
+  }
+}
+
+// show_date is a date and show_time a local wall-clock time, as stored on showtimes
+export const getShowStart = (showtime: { show_date: string; show_time: string }) =>
+  new Date(`${showtime.show_date.slice(0, 10)}T${showtime.show_time}`)
+
+/**
+ * Works out what a customer gets back for cancelling `amount` rupees of
+ * tickets now. Fees are rounded so the refund is a whole number of rupees.
+ */
+export function quoteRefund(policy: RefundPolicy, amount: number, showStart: Date, now = new Date()): RefundQuote {
+  const hoursBefore = (showStart.getTime() - now.getTime()) / HOUR_MS
+  if (hoursBefore <= 0) {
+    return { allowed: false, reason: 'The show has already started, so this booking can no longer be cancelled' }
+  }
+
+  let feePercent = 0
+  if (hoursBefore < policy.fullRefundHours) {
+    const tiers = [...policy.feeTiers].sort((a, b) => b.hoursBefore - a.hoursBefore)
+    // Closer to the show than the last tier reaches, that tier still applies;
+    // with no tiers at all nothing is refunded after the full-refund cutoff
+    const tier = tiers.find(candidate => hoursBefore >= candidate.hoursBefore) ?? tiers[tiers.length - 1]
+    feePercent = tier?.feePercent ?? 100
+  }
+
+  const fee = Math.round((amount * feePercent) / 100)
+  return { allowed: true, refundAmount: amount - fee, fee, feePercent, hoursBefore }
+}
+
+// Plain-language policy for customers, e.g. "Full refund up to 24 hours before the show"
+export function describeRefundPolicy(policy: RefundPolicy): string[] {
+  const lines = [`Full refund up to ${policy.fullRefundHours} hours before the show`]
+  const tiers = [...policy.feeTiers]
+    .filter(tier => tier.hoursBefore < policy.fullRefundHours)
+    .sort((a, b) => b.hoursBefore - a.hoursBefore)
+
+  tiers.forEach((tier, index) => {
+    const until = index === 0 ? policy.fullRefundHours : tiers[index - 1].hoursBefore
+    lines.push(
+      tier.hoursBefore > 0
+        ? `${tier.feePercent}% fee between ${tier.hoursBefore} and ${until} hours before`
+        : `${tier.feePercent}% fee within ${until} hours of the show`
+    )
+  })
+  lines.push('No refunds once the show has started')
+  return lines
+}
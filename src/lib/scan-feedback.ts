@@ -0,0 +1,36 @@
+let audioContext: AudioContext | null = null
+
+// [frequency in Hz, start in seconds, duration in seconds]
+const SUCCESS_TONES: [number, number, number][] = [[880, 0, 0.12], [1320, 0.12, 0.15]]
+const FAILURE_TONES: [number, number, number][] = [[220, 0, 0.2], [220, 0.3, 0.2]]
+
+function playTones(tones: [number, number, number][]) {
+  audioContext ??= new AudioContext()
+  const context = audioContext
+  if (context.state === 'suspended') context.resume().catch(() => undefined)
+
+  for (const [frequency, start, duration] of tones) {
+    const oscillator = context.createOscillator()
+    const gain = context.createGain()
+    oscillator.type = 'square'
+    oscillator.frequency.value = frequency
+    gain.gain.value = 0.1
+    oscillator.connect(gain).connect(context.destination)
+    oscillator.start(context.currentTime + start)
+    oscillator.stop(context.currentTime + start + duration)
+  }
+}
+
+/**
+ * Beeps and vibrates with a scan's outcome, so ushers can keep their eyes
+ * on the queue: a rising chirp for an admitted ticket, two low buzzes for
+ * a rejected one.
+ */
+export function playScanFeedback(success: boolean) {
+  try {
+    playTones(success ? SUCCESS_TONES : FAILURE_TONES)
+  } catch (error) {
+    console.error('Error playing scan feedback:', error)
+  }
+  navigator.vibrate?.(success ? 100 : [200, 100, 200])
+}
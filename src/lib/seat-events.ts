@@ -0,0 +1,44 @@
+import { blink } from '../blink/client'
+
+/**
+ * - held / released: a customer started or stopped holding seats at checkout
+ * - booked / freed: a booking started or stopped occupying seats
+ */
+export type SeatEventType = 'held' | 'released' | 'booked' | 'freed'
+
+export interface SeatEvent {
+  type: SeatEventType
+  seatIds: string[]
+  // The customer who caused the change, so their own seat map can ignore it
+  userId?: string
+}
+
+const getChannelName = (showtimeId: string) => `showtime-seats-${showtimeId}`
+
+// Seat maps also poll, so a message that fails to send only delays the update
+export async function publishSeatEvent(
+  showtimeId: string,
+  type: SeatEventType,
+  seatIds: string[],
+  userId?: string
+) {
+  if (seatIds.length === 0) return
+  try {
+    await blink.realtime.publish(getChannelName(showtimeId), type, { seatIds, userId })
+  } catch (error) {
+    console.error('Error publishing seat event:', error)
+  }
+}
+
+export function subscribeToSeatEvents(
+  showtimeId: string,
+  onEvent: (event: SeatEvent) => void
+): Promise<() => void> {
+  return blink.realtime.subscribe(getChannelName(showtimeId), message => {
+    onEvent({
+      type: message.type as SeatEventType,
+      seatIds: message.data?.seatIds || [],
+      userId: message.data?.userId
+    })
+  })
+}
@@ -0,0 +1,166 @@
+import { blink } from '../blink/client'
+import { publishSeatEvent } from './seat-events'
+import { formatSeatLabel } from './seats'
+
+// How long a seat stays reserved for a customer while they check out
+export const SEAT_HOLD_DURATION_MS = 8 * 60 * 1000
+
+export interface SeatHold {
+  id: string
+  showtime_id: string
+  seat_id: string
+  user_id: string
+  expires_at: string
+  created_at?: string
+}
+
+export class SeatHoldError extends Error {
+  seatId: string
+
+  constructor(message: string, seatId: string) {
+    super(message)
+    this.name = 'SeatHoldError'
+    this.seatId = seatId
+  }
+}
+
+export class SeatLimitError extends Error {
+  constructor(maxSeats: number) {
+    super(`You can select maximum ${maxSeats} seats`)
+    this.name = 'SeatLimitError'
+  }
+}
+
+// Thrown when a customer tries to book seats they no longer hold
+export class HoldExpiredError extends Error {
+  seats: string[]
+
+  constructor(seats: string[]) {
+    super(`Seats ${seats.map(formatSeatLabel).join(', ')} are no longer reserved for you. Please review your selection.`)
+    this.name = 'HoldExpiredError'
+    this.seats = seats
+  }
+}
+
+// One row per seat per showtime, so the primary key stops two users holding the same seat
+const getHoldId = (showtimeId: string, seatId: string) => `hold_${showtimeId}_${seatId}`
+
+export const isHoldActive = (hold: SeatHold, now = Date.now()) =>
+  new Date(hold.expires_at).getTime() > now
+
+export async function fetchActiveHolds(showtimeId: string): Promise<SeatHold[]> {
+  const holds = await blink.db.seatHolds.list({
+    where: {
+      showtime_id: showtimeId,
+      expires_at: { gt: new Date().toISOString() }
+    }
+  })
+  return holds as SeatHold[]
+}
+
+/**
+ * Reserves a seat for the user. Seats held in the same checkout share one
+ * expiry, so pass the current hold expiry to keep the countdown consistent.
+ * The insert only takes over an existing row that has expired or is the
+ * user's own, so of two customers claiming a free seat at once exactly one
+ * gets it.
+ */
+export async function holdSeat(
+  showtimeId: string,
+  userId: string,
+  seatId: string,
+  expiresAt?: string
+): Promise<SeatHold> {
+  const now = new Date().toISOString()
+  const hold: SeatHold = {
+    id: getHoldId(showtimeId, seatId),
+    showtime_id: showtimeId,
+    seat_id: seatId,
+    user_id: userId,
+    expires_at: expiresAt || new Date(Date.now() + SEAT_HOLD_DURATION_MS).toISOString(),
+    created_at: now
+  }
+
+  const claimed = await blink.db.sql(
+    `INSERT INTO seat_holds (id, showtime_id, seat_id, user_id, expires_at, created_at)
+     VALUES (?, ?, ?, ?, ?, ?)
+     ON CONFLICT (id) DO UPDATE
+     SET user_id = excluded.user_id, expires_at = excluded.expires_at, created_at = excluded.created_at
+     WHERE seat_holds.expires_at <= ? OR seat_holds.user_id = excluded.user_id
+     RETURNING id`,
+    [hold.id, hold.showtime_id, hold.seat_id, hold.user_id, hold.expires_at, hold.created_at, now]
+  )
+  if (claimed.rows.length === 0) {
+    throw new SeatHoldError('This seat was just taken by another customer', seatId)
+  }
+  return hold
+}
+
+async function countActiveHolds(showtimeId: string, userId: string) {
+  const holds = (await blink.db.seatHolds.list({
+    where: { showtime_id: showtimeId, user_id: userId }
+  })) as SeatHold[]
+  const now = Date.now()
+  return holds.filter(hold => isHoldActive(hold, now)).length
+}
+
+/**
+ * Holds every seat or none of them, e.g. both halves of a couple seat. With
+ * `maxSeats`, the user's holds are counted after claiming, so rapid clicks
+ * racing each other cannot take the user past the limit.
+ */
+export async function holdSeats(
+  showtimeId: string,
+  userId: string,
+  seatIds: string[],
+  { expiresAt, maxSeats }: { expiresAt?: string; maxSeats?: number } = {}
+): Promise<SeatHold[]> {
+  const holds: SeatHold[] = []
+  try {
+    for (const seatId of seatIds) {
+      holds.push(await holdSeat(showtimeId, userId, seatId, expiresAt || holds[0]?.expires_at))
+    }
+    if (maxSeats !== undefined && (await countActiveHolds(showtimeId, userId)) > maxSeats) {
+      throw new SeatLimitError(maxSeats)
+    }
+  } catch (error) {
+    await Promise.all(holds.map(hold => releaseSeat(showtimeId, userId, hold.seat_id)))
+    throw error
+  }
+  await publishSeatEvent(showtimeId, 'held', seatIds, userId)
+  return holds
+}
+
+export async function releaseSeat(showtimeId: string, userId: string, seatId: string) {
+  const id = getHoldId(showtimeId, seatId)
+  const existing = (await blink.db.seatHolds.list({ where: { id }, limit: 1 })) as SeatHold[]
+  if (existing.length > 0 && existing[0].user_id === userId) {
+    await blink.db.seatHolds.delete(id)
+    await publishSeatEvent(showtimeId, 'released', [seatId], userId)
+  }
+}
+
+export async function releaseHolds(showtimeId: string, userId: string) {
+  const where = { showtime_id: showtimeId, user_id: userId }
+  const holds = (await blink.db.seatHolds.list({ where })) as SeatHold[]
+  await blink.db.seatHolds.deleteMany({ where })
+  await publishSeatEvent(showtimeId, 'released', holds.map(hold => hold.seat_id), userId)
+}
+
+/**
+ * Returns the seats from `seatIds` that the user no longer holds, either
+ * because the hold expired or because someone else has claimed the seat.
+ */
+export async function findLostHolds(
+  showtimeId: string,
+  userId: string,
+  seatIds: string[]
+): Promise<string[]> {
+  const holds = (await blink.db.seatHolds.list({
+    where: { showtime_id: showtimeId, user_id: userId }
+  })) as SeatHold[]
+
+  const now = Date.now()
+  const owned = new Set(holds.filter(hold => isHoldActive(hold, now)).map(hold => hold.seat_id))
+  return seatIds.filter(seatId => !owned.has(seatId))
+}
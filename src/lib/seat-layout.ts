@@ -0,0 +1,275 @@
+import type { AuditoriumDimensions } from './auditorium'
+import type { SeatRuleSettings } from './seat-rules'
+
+export const SEAT_LAYOUT_VERSION = 3
+
+// Projection formats a screen can be set up for
+export const SCREEN_FORMATS = ['2D', '3D', 'IMAX', '4DX']
+
+export interface SeatCategory {
+  id: string
+  name: string
+  // Hex color used for the seat border, legend swatch and editor palette
+  color: string
+  // Used when a showtime does not set its own price for the category
+  defaultPrice: number
+}
+
+/**
+ * - wheelchair: a space for a wheelchair user
+ * - companion: can only be booked together with an adjacent wheelchair space
+ * - couple: a double-width sofa that covers two seat numbers and books as a unit
+ */
+export type SeatKind = 'standard' | 'wheelchair' | 'companion' | 'couple'
+
+export interface LayoutSeatCell {
+  type: 'seat'
+  // For couple seats this is the first of the two seat numbers
+  number: number
+  category: string
+  kind?: SeatKind
+  // Broken or otherwise unsellable
+  blocked?: boolean
+}
+
+export type LayoutCell =
+  | LayoutSeatCell
+  | { type: 'aisle' }
+  | { type: 'gap' }
+  | { type: 'stairs' }
+
+export type LayoutCellType = LayoutCell['type']
+
+export interface LayoutRow {
+  cells: LayoutCell[]
+}
+
+export interface SeatLayout {
+  version: typeof SEAT_LAYOUT_VERSION
+  screen: {
+    position: 'top' | 'bottom'
+  }
+  categories: SeatCategory[]
+  rows: LayoutRow[]
+  // Selection rules enforced for this screen; unset rules use the defaults
+  rules?: Partial<SeatRuleSettings>
+  // Room measurements for the 3D seat preview; unset ones are estimated from the layout
+  dimensions?: Partial<AuditoriumDimensions>
+}
+
+export interface LayoutSeat {
+  id: string
+  row: number
+  number: number
+  category: string
+  kind: SeatKind
+  blocked: boolean
+  // Seats that must be booked together; just this seat's ID for most seats
+  unit: string[]
+  // For companion seats, the wheelchair spaces they can accompany
+  companionOf: string[]
+}
+
+// The original fixed-grid format stored in screens.seat_layout
+interface LegacySeatLayout {
+  rows: number
+  seatsPerRow: number
+  premium: number[]
+  gold: number[]
+  regular: number[]
+}
+
+// Version 2 layouts used a fixed set of category names instead of definitions
+interface SeatLayoutV2 {
+  version: 2
+  screen: SeatLayout['screen']
+  rows: LayoutRow[]
+}
+
+// The tiers every screen had before categories became configurable
+export const DEFAULT_CATEGORIES: SeatCategory[] = [
+  { id: 'regular', name: 'Regular', color: '#9ca3af', defaultPrice: 0 },
+  { id: 'gold', name: 'Gold', color: '#ca8a04', defaultPrice: 0 },
+  { id: 'premium', name: 'Premium', color: '#facc15', defaultPrice: 0 }
+]
+
+export const getRowLabel = (rowIndex: number) => String.fromCharCode(65 + rowIndex)
+
+export const getSeatId = (rowIndex: number, seatNumber: number) => `${rowIndex + 1}-${seatNumber}`
+
+export function createEmptyLayout(rows = 8, seatsPerRow = 12): SeatLayout {
+  const categories = DEFAULT_CATEGORIES.map(category => ({ ...category }))
+  return {
+    version: SEAT_LAYOUT_VERSION,
+    screen: { position: 'top' },
+    categories,
+    rows: Array.from({ length: rows }, () => ({
+      cells: Array.from({ length: seatsPerRow }, (_, index) => ({
+        type: 'seat' as const,
+        number: index + 1,
+        category: categories[0].id
+      }))
+    }))
+  }
+}
+
+function migrateLegacyLayout(legacy: LegacySeatLayout): SeatLayout {
+  return {
+    version: SEAT_LAYOUT_VERSION,
+    screen: { position: 'top' },
+    categories: DEFAULT_CATEGORIES.map(category => ({ ...category })),
+    rows: Array.from({ length: legacy.rows }, (_, rowIndex) => {
+      const row = rowIndex + 1
+      const category = legacy.premium?.includes(row)
+        ? 'premium'
+        : legacy.gold?.includes(row)
+          ? 'gold'
+          : 'regular'
+      return {
+        cells: Array.from({ length: legacy.seatsPerRow }, (_, index) => ({
+          type: 'seat' as const,
+          number: index + 1,
+          category
+        }))
+      }
+    })
+  }
+}
+
+function migrateV2Layout(layout: SeatLayoutV2): SeatLayout {
+  return {
+    ...layout,
+    version: SEAT_LAYOUT_VERSION,
+    categories: DEFAULT_CATEGORIES.map(category => ({ ...category }))
+  }
+}
+
+/**
+ * Reads screens.seat_layout, upgrading layouts saved in older formats: the
+ * legacy `{ rows, seatsPerRow, premium, gold, regular }` grid and version 2.
+ */
+export function parseSeatLayout(raw: string | null | undefined): SeatLayout | null {
+  if (!raw) return null
+
+  const data = JSON.parse(raw)
+  if (data.version === undefined) {
+    return migrateLegacyLayout(data as LegacySeatLayout)
+  }
+  if (data.version === 2) {
+    return migrateV2Layout(data as SeatLayoutV2)
+  }
+  if (data.version !== SEAT_LAYOUT_VERSION) {
+    throw new Error(`Unsupported seat layout version: ${data.version}`)
+  }
+  return data as SeatLayout
+}
+
+export const isCoupleSeat = (cell: LayoutCell): cell is LayoutSeatCell =>
+  cell.type === 'seat' && cell.kind === 'couple'
+
+// The seat IDs a seat cell covers: two for a couple seat, one otherwise
+export const getCellSeatIds = (rowIndex: number, cell: LayoutSeatCell) =>
+  cell.kind === 'couple'
+    ? [getSeatId(rowIndex, cell.number), getSeatId(rowIndex, cell.number + 1)]
+    : [getSeatId(rowIndex, cell.number)]
+
+/**
+ * Renumbers seats left to right in every row, skipping aisles, gaps and
+ * stairs. Couple seats take two numbers. Run before saving so seat IDs stay
+ * contiguous after edits.
+ */
+export function numberSeats(layout: SeatLayout): SeatLayout {
+  return {
+    ...layout,
+    rows: layout.rows.map(row => {
+      let nextNumber = 1
+      return {
+        cells: row.cells.map(cell => {
+          if (cell.type !== 'seat') return cell
+          const numbered = { ...cell, number: nextNumber }
+          nextNumber += isCoupleSeat(cell) ? 2 : 1
+          return numbered
+        })
+      }
+    })
+  }
+}
+
+// Where each seat ID sits in the grid: row, cell and, for couple seats, which half
+function locateSeats(layout: SeatLayout): Map<string, string> {
+  const positions = new Map<string, string>()
+  layout.rows.forEach((row, rowIndex) =>
+    row.cells.forEach((cell, cellIndex) => {
+      if (cell.type !== 'seat') return
+      getCellSeatIds(rowIndex, cell).forEach((id, half) => positions.set(id, `${rowIndex}:${cellIndex}:${half}`))
+    })
+  )
+  return positions
+}
+
+/**
+ * Returns the seats from `seatIds` that an edit from `before` to `after`
+ * would remove or renumber onto a different physical seat. Bookings and
+ * holds refer to seats by ID, so these must not change while they exist.
+ */
+export function findMovedSeats(before: SeatLayout, after: SeatLayout, seatIds: string[]): string[] {
+  const oldPositions = locateSeats(before)
+  const newPositions = locateSeats(after)
+  return seatIds.filter(id => !newPositions.has(id) || newPositions.get(id) !== oldPositions.get(id))
+}
+
+export function listSeats(layout: SeatLayout): LayoutSeat[] {
+  return layout.rows.flatMap((row, rowIndex) =>
+    row.cells.flatMap((cell, cellIndex) => {
+      if (cell.type !== 'seat') return []
+
+      const unit = getCellSeatIds(rowIndex, cell)
+      const kind = cell.kind || 'standard'
+
+      // Companions pair with a wheelchair space directly beside them
+      const companionOf = kind === 'companion'
+        ? [row.cells[cellIndex - 1], row.cells[cellIndex + 1]]
+            .filter((neighbour): neighbour is LayoutSeatCell =>
+              neighbour?.type === 'seat' && neighbour.kind === 'wheelchair'
+            )
+            .map(neighbour => getSeatId(rowIndex, neighbour.number))
+        : []
+
+      return unit.map((id, index) => ({
+        id,
+        row: rowIndex + 1,
+        number: cell.number + index,
+        category: cell.category,
+        kind,
+        blocked: !!cell.blocked,
+        unit,
+        companionOf
+      }))
+    })
+  )
+}
+
+// Sellable seats only; blocked seats are never offered for booking
+export const countSeats = (layout: SeatLayout) =>
+  listSeats(layout).filter(seat => !seat.blocked).length
+
+export const getCategory = (layout: SeatLayout, categoryId: string) =>
+  layout.categories.find(category => category.id === categoryId) || layout.categories[0]
+
+/**
+ * Removes a category, moving its seats to `replacementId` so no seat is
+ * left pointing at a category that no longer exists.
+ */
+export function removeCategory(layout: SeatLayout, categoryId: string, replacementId: string): SeatLayout {
+  return {
+    ...layout,
+    categories: layout.categories.filter(category => category.id !== categoryId),
+    rows: layout.rows.map(row => ({
+      cells: row.cells.map(cell =>
+        cell.type === 'seat' && cell.category === categoryId
+          ? { ...cell, category: replacementId }
+          : cell
+      )
+    }))
+  }
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_CATEGORIES, type SeatCategory } from './seat-layout'
+import { getCategoryPrices, getStartingPrice } from './seat-pricing'
+
+const categories: SeatCategory[] = [
+  ...DEFAULT_CATEGORIES,
+  { id: 'recliner', name: 'Recliner', color: '#7c3aed', defaultPrice: 600 }
+]
+
+const showtime = { price_regular: 150, price_gold: 250, price_platinum: 350 }
+
+describe('getCategoryPrices', () => {
+  it('uses the legacy columns for the original tiers and the screen default for the rest', () => {
+    expect(getCategoryPrices(showtime, categories)).toEqual({ regular: 150, gold: 250, premium: 350, recliner: 600 })
+  })
+
+  it('lets a showtime set its own price for any category', () => {
+    const priced = { ...showtime, category_prices: JSON.stringify({ recliner: 800, regular: 120 }) }
+    expect(getCategoryPrices(priced, categories)).toEqual({ regular: 120, gold: 250, premium: 350, recliner: 800 })
+    expect(getStartingPrice(priced, categories)).toBe(120)
+  })
+})
@@ -0,0 +1,107 @@
+import { getCategory, listSeats, type SeatCategory, type SeatLayout } from './seat-layout'
+import { formatSeatLabel, parseSeats } from './seats'
+import { applyTicketType, getTicketType, type TicketTypeId, type TicketTypeRules } from './ticket-types'
+
+export class SeatPricingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SeatPricingError'
+  }
+}
+
+export interface PricedShowtime {
+  price_regular: number
+  price_gold: number
+  price_platinum: number
+  // JSON object of category ID to price, set per showtime
+  category_prices?: string | null
+}
+
+// Showtimes created before configurable categories only have these columns.
+// The "premium" seat tier has always been charged at the platinum price.
+const LEGACY_PRICE_COLUMNS: Record<string, keyof Omit<PricedShowtime, 'category_prices'>> = {
+  regular: 'price_regular',
+  gold: 'price_gold',
+  premium: 'price_platinum'
+}
+
+export const parseCategoryPrices = (showtime: Pick<PricedShowtime, 'category_prices'>): Record<string, number> =>
+  showtime.category_prices ? JSON.parse(showtime.category_prices) : {}
+
+/**
+ * Resolves the price of every category for a showtime: the showtime's own
+ * category_prices first, then the legacy price columns, then the category's
+ * default price from the screen layout.
+ */
+export function getCategoryPrices(
+  showtime: PricedShowtime,
+  categories: SeatCategory[]
+): Record<string, number> {
+  const overrides = parseCategoryPrices(showtime)
+  return Object.fromEntries(
+    categories.map(category => {
+      const legacyColumn = LEGACY_PRICE_COLUMNS[category.id]
+      const price = overrides[category.id]
+        ?? (legacyColumn ? showtime[legacyColumn] : undefined)
+        ?? category.defaultPrice
+      return [category.id, Number(price) || 0]
+    })
+  )
+}
+
+// Lowest ticket price for a showtime, used for "from ₹X" listings
+export function getStartingPrice(showtime: PricedShowtime, categories: SeatCategory[]) {
+  const prices = Object.values(getCategoryPrices(showtime, categories)).filter(price => price > 0)
+  return prices.length > 0 ? Math.min(...prices) : 0
+}
+
+/**
+ * What each seat of a new booking costs: its category's price for the
+ * showtime less its ticket type's discount. Throws for seats that are not
+ * on the layout or not for sale, and for ticket types the theater does not
+ * sell.
+ */
+export function priceSeats(
+  seats: string[],
+  ticketTypes: Record<string, TicketTypeId>,
+  showtime: PricedShowtime,
+  layout: SeatLayout,
+  ticketTypeRules: TicketTypeRules
+): Record<string, number> {
+  const prices = getCategoryPrices(showtime, layout.categories)
+  const layoutSeats = new Map(listSeats(layout).map(seat => [seat.id, seat]))
+
+  return Object.fromEntries(seats.map(seatId => {
+    const seat = layoutSeats.get(seatId)
+    if (!seat || seat.blocked) {
+      throw new SeatPricingError(`Seat ${formatSeatLabel(seatId)} is not for sale`)
+    }
+    const rule = ticketTypeRules[ticketTypes[seatId]]
+    if (!rule.enabled) {
+      throw new SeatPricingError(`${getTicketType(ticketTypes[seatId]).name} tickets are not sold for this show`)
+    }
+    return [seatId, applyTicketType(prices[getCategory(layout, seat.category).id] || 0, rule)]
+  }))
+}
+
+/**
+ * What each seat of a booking was charged. Bookings made before per-seat
+ * prices were recorded are priced by the seat's category on the layout, or
+ * split evenly when the screen has no layout.
+ */
+export function getBookedSeatPrices(
+  booking: { seats: string; seat_prices?: string | null; total_amount: number },
+  showtime: PricedShowtime,
+  layout: SeatLayout | null
+): Record<string, number> {
+  const seats = parseSeats(booking)
+  if (booking.seat_prices) return JSON.parse(booking.seat_prices)
+
+  if (!layout) {
+    return Object.fromEntries(seats.map(seatId => [seatId, Number(booking.total_amount) / seats.length]))
+  }
+
+  const prices = getCategoryPrices(showtime, layout.categories)
+  const categories = new Map(listSeats(layout).map(seat => [seat.id, seat.category]))
+  return Object.fromEntries(seats.map(seatId => [seatId, prices[categories.get(seatId) || ''] || 0]))
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { createEmptyLayout, numberSeats, type LayoutCell, type SeatLayout } from './seat-layout'
+import { evaluateSeatRules, type SeatRuleSettings } from './seat-rules'
+
+// One string per row: R seat, C couple seat, X blocked seat, | aisle
+function layoutFromRows(rows: string[], rules?: Partial<SeatRuleSettings>): SeatLayout {
+  const toCell = (char: string): LayoutCell =>
+    char === '|'
+      ? { type: 'aisle' }
+      : { type: 'seat', number: 0, category: 'regular', kind: char === 'C' ? 'couple' : 'standard', blocked: char === 'X' }
+  return numberSeats({ ...createEmptyLayout(0, 0), rows: rows.map(row => ({ cells: [...row].map(toCell) })), rules })
+}
+
+const evaluate = (layout: SeatLayout, selected: string[], unavailable: string[] = []) =>
+  evaluateSeatRules(layout, { selected, unavailable: new Set(unavailable) })
+
+describe('evaluateSeatRules', () => {
+  it('accepts a selection that leaves no single gap', () => {
+    expect(evaluate(layoutFromRows(['RRRRR']), ['1-1', '1-2'])).toEqual([])
+  })
+
+  it('warns about a seat left between the selection and a taken seat', () => {
+    const [violation] = evaluate(layoutFromRows(['RRRRRR']), ['1-3', '1-4'], ['1-1'])
+    expect(violation).toMatchObject({ rule: 'orphanSeats', mode: 'warn', seatIds: ['1-2'] })
+    expect(violation.message).toContain('A2')
+  })
+
+  it('treats an aisle and the end of the row as closed', () => {
+    expect(evaluate(layoutFromRows(['RRR|RR']), ['1-2'])[0].seatIds).toEqual(['1-1', '1-3'])
+  })
+
+  it('treats a blocked seat as closed', () => {
+    expect(evaluate(layoutFromRows(['XRRRR']), ['1-3'])[0].seatIds).toEqual(['1-2'])
+  })
+
+  it('ignores seats other bookings have already stranded', () => {
+    expect(evaluate(layoutFromRows(['RRRRRRR']), ['1-6', '1-7'], ['1-1', '1-3'])).toEqual([])
+  })
+
+  it('never counts a couple seat as stranded', () => {
+    expect(evaluate(layoutFromRows(['CR']), ['1-3'])).toEqual([])
+  })
+
+  it('uses the mode set on the layout', () => {
+    expect(evaluate(layoutFromRows(['RRR'], { orphanSeats: 'block' }), ['1-2'])[0].mode).toBe('block')
+    expect(evaluate(layoutFromRows(['RRR'], { orphanSeats: 'off' }), ['1-2'])).toEqual([])
+  })
+})
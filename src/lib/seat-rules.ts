@@ -0,0 +1,115 @@
+import { getCellSeatIds, type SeatLayout } from './seat-layout'
+import { formatSeatLabel } from './seats'
+
+export type RuleMode = 'off' | 'warn' | 'block'
+
+export interface SeatRuleSettings {
+  // A selection that leaves one empty seat between taken seats or against an aisle
+  orphanSeats: RuleMode
+}
+
+export const DEFAULT_SEAT_RULES: SeatRuleSettings = {
+  orphanSeats: 'warn'
+}
+
+export interface RuleViolation {
+  rule: keyof SeatRuleSettings
+  mode: Exclude<RuleMode, 'off'>
+  // The seats to highlight on the map
+  seatIds: string[]
+  message: string
+}
+
+export interface SeatRuleContext {
+  selected: string[]
+  // Booked or held by someone else
+  unavailable: Set<string>
+}
+
+export const getSeatRules = (layout: SeatLayout): SeatRuleSettings => ({
+  ...DEFAULT_SEAT_RULES,
+  ...layout.rules
+})
+
+interface SegmentCell {
+  ids: string[]
+  // Couple seats and blocked seats never count as a stranded single seat
+  single: boolean
+  taken: boolean
+  selected: boolean
+}
+
+// Rows split at aisles, gaps and stairs; each segment is walked on its own
+function buildSegments(layout: SeatLayout, context: SeatRuleContext): SegmentCell[][] {
+  const selected = new Set(context.selected)
+  const segments: SegmentCell[][] = []
+
+  layout.rows.forEach((row, rowIndex) => {
+    let segment: SegmentCell[] = []
+    row.cells.forEach(cell => {
+      if (cell.type !== 'seat') {
+        if (segment.length > 0) segments.push(segment)
+        segment = []
+        return
+      }
+
+      const ids = getCellSeatIds(rowIndex, cell)
+      segment.push({
+        ids,
+        single: ids.length === 1 && !cell.blocked,
+        taken: !!cell.blocked || ids.some(id => selected.has(id) || context.unavailable.has(id)),
+        selected: ids.some(id => selected.has(id))
+      })
+    })
+    if (segment.length > 0) segments.push(segment)
+  })
+
+  return segments
+}
+
+/**
+ * Finds free single seats that the customer's selection would leave
+ * stranded: taken on both sides, or taken on one side with an aisle or the
+ * end of the row on the other. Seats already stranded by other bookings are
+ * ignored, since the customer cannot fix them.
+ */
+function findOrphanSeats(layout: SeatLayout, context: SeatRuleContext): string[] {
+  const orphans: string[] = []
+
+  buildSegments(layout, context).forEach(segment => {
+    segment.forEach((cell, index) => {
+      if (cell.taken || !cell.single) return
+
+      const left = segment[index - 1]
+      const right = segment[index + 1]
+      const leftClosed = !left || left.taken
+      const rightClosed = !right || right.taken
+      const causedBySelection = !!left?.selected || !!right?.selected
+
+      if (leftClosed && rightClosed && causedBySelection) {
+        orphans.push(cell.ids[0])
+      }
+    })
+  })
+
+  return orphans
+}
+
+export function evaluateSeatRules(layout: SeatLayout, context: SeatRuleContext): RuleViolation[] {
+  const rules = getSeatRules(layout)
+  const violations: RuleViolation[] = []
+
+  if (rules.orphanSeats !== 'off' && context.selected.length > 0) {
+    const orphans = findOrphanSeats(layout, context)
+    if (orphans.length > 0) {
+      violations.push({
+        rule: 'orphanSeats',
+        mode: rules.orphanSeats,
+        seatIds: orphans,
+        message: `Your selection leaves ${orphans.length === 1 ? 'seat' : 'seats'} ${orphans.map(formatSeatLabel).join(', ')} empty on ${orphans.length === 1 ? 'its' : 'their'} own. Please shift your seats to avoid single gaps.`
+      })
+    }
+  }
+
+  return violations
+}
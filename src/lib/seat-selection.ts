@@ -0,0 +1,88 @@
+import { listSeats, type LayoutSeat, type SeatLayout } from './seat-layout'
+import { formatSeatLabel } from './seats'
+
+export type SeatIndex = Map<string, LayoutSeat>
+
+export interface SelectionIssue {
+  seatIds: string[]
+  message: string
+}
+
+export type SeatToggleResult =
+  | { ok: true; selected: string[]; added: string[]; removed: string[] }
+  | { ok: false; message: string }
+
+export const indexSeats = (layout: SeatLayout): SeatIndex =>
+  new Map(listSeats(layout).map(seat => [seat.id, seat]))
+
+// Companions whose wheelchair space is no longer in the selection
+const findUnaccompanied = (seats: SeatIndex, selected: string[]) =>
+  selected.filter(id => {
+    const seat = seats.get(id)
+    return seat?.kind === 'companion' && !seat.companionOf.some(wheelchair => selected.includes(wheelchair))
+  })
+
+/**
+ * Adds or removes the seat's whole unit (both halves of a couple seat) and
+ * applies the companion seat rules. Does not touch holds; the caller holds
+ * `added` and releases `removed`.
+ */
+export function toggleSeat(seats: SeatIndex, selected: string[], seatId: string): SeatToggleResult {
+  const seat = seats.get(seatId)
+  if (!seat) return { ok: false, message: 'This seat does not exist' }
+  if (seat.blocked) return { ok: false, message: 'This seat is not available for booking' }
+
+  if (selected.includes(seatId)) {
+    let remaining = selected.filter(id => !seat.unit.includes(id))
+    // Dropping a wheelchair space also drops companion seats that depended on it
+    const orphaned = findUnaccompanied(seats, remaining)
+    remaining = remaining.filter(id => !orphaned.includes(id))
+    return {
+      ok: true,
+      selected: remaining,
+      added: [],
+      removed: selected.filter(id => !remaining.includes(id))
+    }
+  }
+
+  if (seat.kind === 'companion' && !seat.companionOf.some(id => selected.includes(id))) {
+    return {
+      ok: false,
+      message: 'Companion seats can only be booked together with the wheelchair space next to them'
+    }
+  }
+
+  const added = seat.unit.filter(id => !selected.includes(id))
+  return { ok: true, selected: [...selected, ...added], added, removed: [] }
+}
+
+// Final check before payment, in case the selection changed outside toggleSeat
+export function validateSelection(seats: SeatIndex, selected: string[]): SelectionIssue[] {
+  const issues: SelectionIssue[] = []
+
+  const blocked = selected.filter(id => seats.get(id)?.blocked)
+  if (blocked.length > 0) {
+    issues.push({
+      seatIds: blocked,
+      message: `Seats ${blocked.map(formatSeatLabel).join(', ')} are not available for booking`
+    })
+  }
+
+  const unaccompanied = findUnaccompanied(seats, selected)
+  if (unaccompanied.length > 0) {
+    issues.push({
+      seatIds: unaccompanied,
+      message: `Companion seats ${unaccompanied.map(formatSeatLabel).join(', ')} need their wheelchair space booked too`
+    })
+  }
+
+  const splitUnits = selected.filter(id => seats.get(id)?.unit.some(unitId => !selected.includes(unitId)))
+  if (splitUnits.length > 0) {
+    issues.push({
+      seatIds: splitUnits,
+      message: `Couple seats ${splitUnits.map(formatSeatLabel).join(', ')} must be booked as a pair`
+    })
+  }
+
+  return issues
+}
@@ -0,0 +1,9 @@
+// Seat IDs are stored as `${row}-${seat}`; customers see them as "C7"
+export const formatSeatLabel = (seatId: string) => {
+  const [row, seat] = seatId.split('-').map(Number)
+  return `${String.fromCharCode(64 + row)}${seat}`
+}
+
+// Bookings keep their seats as a JSON array string
+export const parseSeats = (record: { seats: string }): string[] =>
+  record.seats ? JSON.parse(record.seats) : []
@@ -0,0 +1,58 @@
+import { getShowStart } from './refund-policy'
+
+/**
+ * What a signed ticket code carries, with short keys to keep the QR code
+ * small. `seats` is every seat on the booking when the code was issued; a
+ * seat ticket's `#seat` suffix must name one of them.
+ */
+export interface TicketPayload {
+  v: 1
+  kid: string
+  bid: string
+  tid: string
+  sid: string
+  seats: string[]
+  // Unix seconds after which the ticket no longer scans
+  exp: number
+}
+
+// Signed codes look like T1.<payload>.<signature>, both parts base64url.
+// Codes are signed by the ticket-signing edge function and verified in the app; both use this module.
+export const SIGNED_PREFIX = 'T1.'
+// Tickets stay valid through the show, however long the film runs
+const TICKET_VALID_AFTER_START_MS = 6 * 60 * 60 * 1000
+export const KEY_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' }
+export const SIGNATURE_ALGORITHM = { name: 'ECDSA', hash: 'SHA-256' }
+
+export const isSignedTicketCode = (code: string) => code.startsWith(SIGNED_PREFIX)
+
+export const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+
+export const fromBase64Url = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0))
+
+export const getTicketExpiry = (showtime: { show_date: string; show_time: string }) =>
+  Math.floor((getShowStart(showtime).getTime() + TICKET_VALID_AFTER_START_MS) / 1000)
+
+export async function signTicketPayload(payload: TicketPayload, privateKey: CryptoKey) {
+  const signed = `${SIGNED_PREFIX}${toBase64Url(new TextEncoder().encode(JSON.stringify(payload)))}`
+  const signature = await crypto.subtle.sign(SIGNATURE_ALGORITHM, privateKey, new TextEncoder().encode(signed))
+  return `${signed}.${toBase64Url(new Uint8Array(signature))}`
+}
+
+export function parseTicketPayload(encoded: string): TicketPayload | null {
+  try {
+    const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(encoded)))
+    const valid = payload?.v === 1 &&
+      typeof payload.kid === 'string' &&
+      typeof payload.bid === 'string' &&
+      typeof payload.tid === 'string' &&
+      typeof payload.sid === 'string' &&
+      Array.isArray(payload.seats) &&
+      typeof payload.exp === 'number'
+    return valid ? payload : null
+  } catch {
+    return null
+  }
+}
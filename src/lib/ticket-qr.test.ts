@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+import { decodeTicketQr, encodeSeatQr, getTicketCodes } from './ticket-qr'
+
+describe('decodeTicketQr', () => {
+  it('reads a booking code on its own', () => {
+    expect(decodeTicketQr(' T1.payload.signature \n')).toEqual({ qrCode: 'T1.payload.signature', seatId: null })
+  })
+
+  it('splits a seat ticket into the booking code and the seat', () => {
+    expect(decodeTicketQr(encodeSeatQr('T1.payload.signature', '3-7'))).toEqual({ qrCode: 'T1.payload.signature', seatId: '3-7' })
+  })
+
+  it('ignores an empty seat suffix', () => {
+    expect(decodeTicketQr('CODE#')).toEqual({ qrCode: 'CODE', seatId: null })
+  })
+})
+
+describe('getTicketCodes', () => {
+  it('makes one code for the whole booking', () => {
+    expect(getTicketCodes('CODE', ['1-1', '1-2'], false)).toEqual([{ value: 'CODE', seatId: null, label: 'All seats' }])
+    expect(getTicketCodes('CODE', ['1-1'], false)[0].label).toBe('Seat A1')
+  })
+
+  it('makes one code per seat', () => {
+    expect(getTicketCodes('CODE', ['1-1', '2-3'], true)).toEqual([
+      { value: 'CODE#1-1', seatId: '1-1', label: 'Seat A1' },
+      { value: 'CODE#2-3', seatId: '2-3', label: 'Seat B3' }
+    ])
+  })
+})
@@ -0,0 +1,108 @@
+import QRCode from 'qrcode'
+import { formatSeatLabel } from './seats'
+
+// Seat tickets carry the booking's code plus the seat, so each scans on its own
+const SEAT_SEPARATOR = '#'
+
+export const encodeSeatQr = (qrCode: string, seatId: string) => `${qrCode}${SEAT_SEPARATOR}${seatId}`
+
+// Splits a scanned value into the booking's code and, for seat tickets, the seat
+export function decodeTicketQr(value: string): { qrCode: string; seatId: string | null } {
+  const trimmed = value.trim()
+  const index = trimmed.indexOf(SEAT_SEPARATOR)
+  if (index === -1) return { qrCode: trimmed, seatId: null }
+  return { qrCode: trimmed.slice(0, index), seatId: trimmed.slice(index + 1) || null }
+}
+
+export interface TicketCode {
+  value: string
+  // Set for seat tickets
+  seatId: string | null
+  // Shown under the code, e.g. "All seats" or "Seat A5"
+  label: string
+}
+
+// One code for the whole booking, or one per seat
+export const getTicketCodes = (qrCode: string, seats: string[], perSeat: boolean): TicketCode[] =>
+  perSeat
+    ? seats.map(seatId => ({ value: encodeSeatQr(qrCode, seatId), seatId, label: `Seat ${formatSeatLabel(seatId)}` }))
+    : [{ value: qrCode, seatId: null, label: seats.length === 1 ? `Seat ${formatSeatLabel(seats[0])}` : 'All seats' }]
+
+/**
+ * Renders a ticket code as a PNG data URL. Medium error correction and a
+ * quiet zone keep it readable on a cracked or dimmed phone screen; `size`
+ * is in device pixels.
+ */
+export const renderQrDataUrl = (value: string, size: number) =>
+  QRCode.toDataURL(value, {
+    errorCorrectionLevel: 'M',
+    margin: 2,
+    width: size,
+    color: { dark: '#000000', light: '#ffffff' }
+  })
+
+export interface TicketImageDetails {
+  movieTitle: string
+  theaterName: string
+  showDate: string
+  showTime: string
+  screenName: string
+  bookingId: string
+  seats: string[]
+  code: TicketCode
+}
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => resolve(image)
+    image.onerror = reject
+    image.src = src
+  })
+
+const TICKET_WIDTH = 600
+const TICKET_HEIGHT = 900
+const TICKET_QR_SIZE = 420
+
+// Draws a downloadable ticket with the same code rendering as the confirmation page
+export async function renderTicketImage(details: TicketImageDetails): Promise<string> {
+  const canvas = document.createElement('canvas')
+  canvas.width = TICKET_WIDTH
+  canvas.height = TICKET_HEIGHT
+  const context = canvas.getContext('2d')!
+
+  context.fillStyle = '#ffffff'
+  context.fillRect(0, 0, TICKET_WIDTH, TICKET_HEIGHT)
+  context.fillStyle = '#111111'
+  context.textAlign = 'center'
+
+  context.font = 'bold 32px sans-serif'
+  context.fillText(details.movieTitle, TICKET_WIDTH / 2, 70, TICKET_WIDTH - 60)
+  context.font = '22px sans-serif'
+  context.fillText(details.theaterName, TICKET_WIDTH / 2, 110, TICKET_WIDTH - 60)
+  context.fillText(`${details.showDate} • ${details.showTime} • ${details.screenName}`, TICKET_WIDTH / 2, 145, TICKET_WIDTH - 60)
+
+  const qr = await loadImage(await renderQrDataUrl(details.code.value, TICKET_QR_SIZE))
+  context.drawImage(qr, (TICKET_WIDTH - TICKET_QR_SIZE) / 2, 190, TICKET_QR_SIZE, TICKET_QR_SIZE)
+
+  context.font = 'bold 28px sans-serif'
+  context.fillText(details.code.label, TICKET_WIDTH / 2, 660, TICKET_WIDTH - 60)
+  context.font = '22px sans-serif'
+  context.fillText(`Seats: ${details.seats.map(formatSeatLabel).join(', ')}`, TICKET_WIDTH / 2, 710, TICKET_WIDTH - 60)
+  context.fillStyle = '#666666'
+  context.font = '16px monospace'
+  context.fillText(details.bookingId, TICKET_WIDTH / 2, 760, TICKET_WIDTH - 60)
+  context.font = '16px sans-serif'
+  context.fillText('Show this code at the entrance', TICKET_WIDTH / 2, 840)
+
+  return canvas.toDataURL('image/png')
+}
+
+export async function downloadTicket(details: TicketImageDetails) {
+  const link = document.createElement('a')
+  link.href = await renderTicketImage(details)
+  link.download = details.code.seatId
+    ? `ticket-${details.bookingId}-${details.code.seatId}.png`
+    : `ticket-${details.bookingId}.png`
+  link.click()
+}
@@ -0,0 +1,129 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { KEY_ALGORITHM, signTicketPayload, toBase64Url, type TicketPayload } from './signed-tickets'
+import { verifyTicketCode } from './ticket-signing'
+
+const { list, callFunction } = vi.hoisted(() => ({ list: vi.fn(), callFunction: vi.fn() }))
+
+vi.mock('../blink/client', () => ({ blink: { db: { ticket_signing_keys: { list } } } }))
+vi.mock('../blink/functions', () => ({ callFunction }))
+
+const payload: TicketPayload = {
+  v: 1,
+  kid: 'tkey_1',
+  bid: 'bk_1',
+  tid: 'theater_1',
+  sid: 'st_1',
+  seats: ['1-1', '1-2'],
+  exp: 2_000_000_000
+}
+const now = 1_900_000_000_000
+
+let keys: CryptoKeyPair
+let publicKey: JsonWebKey
+
+// Scanners verify against public keys cached in localStorage, which node does not have
+function stubKeyCache(status = 'active', theaterId = 'theater_1') {
+  const storage = new Map<string, string>()
+  storage.set('cinebooker:ticket-keys:v2', JSON.stringify({ tkey_1: { theaterId, publicKey, status } }))
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value)
+  })
+  return storage
+}
+
+beforeAll(async () => {
+  keys = (await crypto.subtle.generateKey(KEY_ALGORITHM, true, ['sign', 'verify'])) as CryptoKeyPair
+  publicKey = await crypto.subtle.exportKey('jwk', keys.publicKey)
+})
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  list.mockResolvedValue([])
+  callFunction.mockResolvedValue({ keys: [] })
+  stubKeyCache()
+})
+
+const reasonFor = async (code: string) => {
+  const result = await verifyTicketCode(code, now)
+  return result.valid ? 'valid' : result.reason
+}
+
+describe('verifyTicketCode', () => {
+  it('accepts a code signed with the theater key', async () => {
+    const code = await signTicketPayload(payload, keys.privateKey)
+    expect(await verifyTicketCode(code, now)).toEqual({ valid: true, payload })
+    expect(callFunction).not.toHaveBeenCalled()
+  })
+
+  it('rejects a code whose payload was changed after signing', async () => {
+    const [prefix, , signature] = (await signTicketPayload(payload, keys.privateKey)).split('.')
+    const forged = toBase64Url(new TextEncoder().encode(JSON.stringify({ ...payload, seats: ['1-1', '1-2', '1-3'] })))
+    expect(await reasonFor(`${prefix}.${forged}.${signature}`)).toBe('bad_signature')
+  })
+
+  it('rejects a code signed with some other key', async () => {
+    const other = (await crypto.subtle.generateKey(KEY_ALGORITHM, true, ['sign', 'verify'])) as CryptoKeyPair
+    expect(await reasonFor(await signTicketPayload(payload, other.privateKey))).toBe('bad_signature')
+  })
+
+  it('rejects a code past its expiry', async () => {
+    expect(await reasonFor(await signTicketPayload({ ...payload, exp: now / 1000 }, keys.privateKey))).toBe('expired')
+  })
+
+  it('rejects a code signed with a revoked key', async () => {
+    stubKeyCache('revoked')
+    expect(await reasonFor(await signTicketPayload(payload, keys.privateKey))).toBe('revoked_key')
+  })
+
+  it('still accepts a code signed with a retired key', async () => {
+    stubKeyCache('retired')
+    expect(await reasonFor(await signTicketPayload(payload, keys.privateKey))).toBe('valid')
+  })
+
+  it('rejects a key that belongs to another theater', async () => {
+    stubKeyCache('active', 'theater_2')
+    expect(await reasonFor(await signTicketPayload(payload, keys.privateKey))).toBe('unknown_key')
+  })
+
+  it('fetches a key missing from the cache from the signing function and keeps it', async () => {
+    const storage = stubKeyCache()
+    storage.clear()
+    callFunction.mockResolvedValue({
+      keys: [{ id: 'tkey_1', theater_id: 'theater_1', public_key: JSON.stringify(publicKey), status: 'active' }]
+    })
+
+    expect(await reasonFor(await signTicketPayload(payload, keys.privateKey))).toBe('valid')
+    expect(callFunction).toHaveBeenCalledWith('ticket-signing', { action: 'keys', theaterId: 'theater_1' })
+    expect(JSON.parse(storage.get('cinebooker:ticket-keys:v2')!)).toHaveProperty('tkey_1')
+  })
+
+  it('never trusts a key row read straight from the database', async () => {
+    const storage = stubKeyCache()
+    storage.clear()
+    list.mockResolvedValue([{ id: 'tkey_1', theater_id: 'theater_1', public_key: JSON.stringify(publicKey), status: 'active' }])
+
+    expect(await reasonFor(await signTicketPayload(payload, keys.privateKey))).toBe('unknown_key')
+    expect(list).not.toHaveBeenCalled()
+  })
+
+  it('ignores keys cached before they came from the signing function', async () => {
+    const storage = stubKeyCache()
+    storage.set('cinebooker:ticket-keys', storage.get('cinebooker:ticket-keys:v2')!)
+    storage.delete('cinebooker:ticket-keys:v2')
+
+    expect(await reasonFor(await signTicketPayload(payload, keys.privateKey))).toBe('unknown_key')
+  })
+
+  it('rejects a key nobody knows', async () => {
+    stubKeyCache().clear()
+    expect(await reasonFor(await signTicketPayload(payload, keys.privateKey))).toBe('unknown_key')
+  })
+
+  it('rejects codes that are not signed tickets', async () => {
+    expect(await reasonFor('BK-12345')).toBe('malformed')
+    expect(await reasonFor('T1.not-base64.sig')).toBe('malformed')
+    const unsigned = toBase64Url(new TextEncoder().encode(JSON.stringify({ ...payload, v: 2 })))
+    expect(await reasonFor(`T1.${unsigned}.sig`)).toBe('malformed')
+  })
+})
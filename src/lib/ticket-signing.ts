@@ -0,0 +1,173 @@
+import { callFunction } from '../blink/functions'
+import {
+  fromBase64Url,
+  isSignedTicketCode,
+  KEY_ALGORITHM,
+  parseTicketPayload,
+  SIGNATURE_ALGORITHM,
+  SIGNED_PREFIX,
+  type TicketPayload
+} from './signed-tickets'
+
+/**
+ * Values of ticket_signing_keys.status:
+ * - active: signs new tickets
+ * - retired: replaced by a newer key; tickets it signed still scan until they expire
+ * - revoked: tickets it signed are rejected, e.g. after the key leaked
+ */
+export type TicketKeyStatus = 'active' | 'retired' | 'revoked'
+
+/**
+ * The private half is held encrypted in the same row and only ever read by
+ * the ticket-signing function. The app can write this table, so keys are
+ * only trusted as the function lists them, never as read from the database.
+ */
+export interface TicketSigningKey {
+  id: string
+  theater_id: string
+  // JWK as JSON
+  public_key: string
+  status: TicketKeyStatus
+  created_at: string
+  retired_at?: string
+}
+
+export type TicketRejection = 'malformed' | 'unknown_key' | 'revoked_key' | 'bad_signature' | 'expired'
+
+export type TicketVerification =
+  | { valid: true; payload: TicketPayload }
+  | { valid: false; reason: TicketRejection }
+
+export const TICKET_REJECTION_MESSAGES: Record<TicketRejection, string> = {
+  malformed: 'This is not a valid ticket code.',
+  unknown_key: 'This ticket was not issued by a theater this scanner knows. Connect to the internet and try again.',
+  revoked_key: 'This ticket was signed with a key that has been revoked. Ask the customer to reopen their ticket.',
+  bad_signature: 'This ticket has been tampered with or forged.',
+  expired: 'This ticket has expired.'
+}
+
+// Caches from before keys came from the ticket-signing function may hold rows read from the database
+const KEY_CACHE_STORAGE_KEY = 'cinebooker:ticket-keys:v2'
+
+// The theater's keys the ticket-signing function vouches for, newest first
+export async function listSigningKeys(theaterId: string): Promise<TicketSigningKey[]> {
+  const { keys } = await callFunction<{ keys: TicketSigningKey[] }>('ticket-signing', { action: 'keys', theaterId })
+  return keys
+}
+
+/**
+ * Replaces the theater's signing key. Tickets signed with the old key keep
+ * scanning until they expire; revoke it as well if it may have leaked.
+ */
+export async function rotateSigningKey(theaterId: string): Promise<TicketSigningKey> {
+  const { key } = await callFunction<{ key: TicketSigningKey }>('ticket-signing', { action: 'rotate', theaterId })
+  return key
+}
+
+/**
+ * Has the ticket-signing function revoke a key, so scanners reject every
+ * ticket it signed once they sync. Only the theater's admins may.
+ */
+export async function revokeSigningKey(keyId: string): Promise<TicketSigningKey> {
+  const { key } = await callFunction<{ key: TicketSigningKey }>('ticket-signing', { action: 'revoke', keyId })
+  return key
+}
+
+/**
+ * Has the ticket-signing function replace a confirmed booking's ticket code
+ * with one signed by its theater's key, carrying the booking, show, seats
+ * and expiry so scanners can check it without a database round trip.
+ * Bookings that are not confirmed keep their placeholder code. Returns the
+ * booking's code, or null if the booking changed while it was being signed.
+ */
+export async function issueTicketCode(bookingId: string): Promise<string | null> {
+  const { code } = await callFunction<{ code: string | null }>('ticket-signing', { action: 'issue', bookingId })
+  return code
+}
+
+interface CachedKey {
+  theaterId: string
+  publicKey: JsonWebKey
+  status: TicketKeyStatus
+}
+
+function loadKeyCache(): Record<string, CachedKey> {
+  try {
+    return JSON.parse(localStorage.getItem(KEY_CACHE_STORAGE_KEY) || '{}')
+  } catch {
+    return {}
+  }
+}
+
+// Replaces the theater's cached keys, so one the function no longer vouches for is forgotten
+function saveKeysToCache(theaterId: string, keys: TicketSigningKey[]) {
+  const cache = Object.fromEntries(Object.entries(loadKeyCache()).filter(([, key]) => key.theaterId !== theaterId))
+  for (const key of keys) {
+    cache[key.id] = { theaterId: key.theater_id, publicKey: JSON.parse(key.public_key), status: key.status }
+  }
+  localStorage.setItem(KEY_CACHE_STORAGE_KEY, JSON.stringify(cache))
+}
+
+/**
+ * Downloads a theater's public keys, including revocations, so this device
+ * can verify its tickets while offline. Scanners call it whenever they
+ * come online.
+ */
+export async function syncVerificationKeys(theaterId: string) {
+  saveKeysToCache(theaterId, await listSigningKeys(theaterId))
+}
+
+// Looks a key up in the cache, syncing the ticket's theater if this device has not seen the key yet
+async function findVerificationKey(keyId: string, theaterId: string): Promise<CachedKey | null> {
+  const cached = loadKeyCache()[keyId]
+  if (cached) return cached
+
+  try {
+    await syncVerificationKeys(theaterId)
+    return loadKeyCache()[keyId] || null
+  } catch (error) {
+    console.error('Error fetching ticket keys:', error)
+    return null
+  }
+}
+
+// Whether a confirmed booking's code should be signed again: it never was, or its key was revoked
+export async function needsNewTicketCode(code: string) {
+  if (!isSignedTicketCode(code)) return true
+  const payload = parseTicketPayload(code.split('.')[1] || '')
+  if (!payload) return true
+  const key = (await listSigningKeys(payload.tid)).find(candidate => candidate.id === payload.kid)
+  return !key || key.status === 'revoked'
+}
+
+/**
+ * Checks a signed ticket code's signature and expiry against the cached
+ * public keys. Only asks the ticket-signing function for a key this device
+ * has never seen, so it works offline for synced theaters.
+ */
+export async function verifyTicketCode(code: string, now = Date.now()): Promise<TicketVerification> {
+  const parts = code.split('.')
+  const payload = parts.length === 3 && `${parts[0]}.` === SIGNED_PREFIX ? parseTicketPayload(parts[1]) : null
+  if (!payload) return { valid: false, reason: 'malformed' }
+
+  const key = await findVerificationKey(payload.kid, payload.tid)
+  if (!key || key.theaterId !== payload.tid) return { valid: false, reason: 'unknown_key' }
+  if (key.status === 'revoked') return { valid: false, reason: 'revoked_key' }
+
+  let verified = false
+  try {
+    const publicKey = await crypto.subtle.importKey('jwk', key.publicKey, KEY_ALGORITHM, false, ['verify'])
+    verified = await crypto.subtle.verify(
+      SIGNATURE_ALGORITHM,
+      publicKey,
+      fromBase64Url(parts[2]),
+      new TextEncoder().encode(`${parts[0]}.${parts[1]}`)
+    )
+  } catch {
+    verified = false
+  }
+  if (!verified) return { valid: false, reason: 'bad_signature' }
+
+  if (payload.exp * 1000 <= now) return { valid: false, reason: 'expired' }
+  return { valid: true, payload }
+}
@@ -0,0 +1,122 @@
+import { parseSeats } from './seats'
+
+export type TicketTypeId = 'adult' | 'child' | 'senior' | 'student'
+
+export interface TicketType {
+  id: TicketTypeId
+  name: string
+  description: string
+}
+
+export const TICKET_TYPES: TicketType[] = [
+  { id: 'adult', name: 'Adult', description: 'Standard ticket' },
+  { id: 'child', name: 'Child', description: 'Under 12' },
+  { id: 'senior', name: 'Senior', description: '60 and over' },
+  { id: 'student', name: 'Student', description: 'With a valid student card' }
+]
+
+// Every seat is an adult ticket unless the customer picks otherwise
+export const DEFAULT_TICKET_TYPE: TicketTypeId = 'adult'
+
+export interface TicketTypeRule {
+  enabled: boolean
+  // Taken off the seat's category price
+  discountPercent: number
+  // Check-in staff ask to see proof of age or student status
+  requiresId: boolean
+}
+
+export type TicketTypeRules = Record<TicketTypeId, TicketTypeRule>
+
+export const DEFAULT_TICKET_TYPE_RULES: TicketTypeRules = {
+  adult: { enabled: true, discountPercent: 0, requiresId: false },
+  child: { enabled: true, discountPercent: 30, requiresId: false },
+  senior: { enabled: true, discountPercent: 20, requiresId: true },
+  student: { enabled: true, discountPercent: 15, requiresId: true }
+}
+
+type StoredRules = Partial<Record<TicketTypeId, Partial<TicketTypeRule>>>
+
+const parseRules = (raw: string | null | undefined): StoredRules => {
+  if (!raw) return {}
+  try {
+    return JSON.parse(raw)
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Resolves the ticket type rules for a theater: its own ticket_types, then
+ * the defaults. Adult tickets are always on sale at full price.
+ */
+export function getTicketTypeRules(theaterRules: string | null | undefined): TicketTypeRules {
+  const theater = parseRules(theaterRules)
+
+  const rules = Object.fromEntries(
+    TICKET_TYPES.map(({ id }) => [id, { ...DEFAULT_TICKET_TYPE_RULES[id], ...theater[id] }])
+  ) as TicketTypeRules
+  rules.adult = DEFAULT_TICKET_TYPE_RULES.adult
+  return rules
+}
+
+export const getTicketType = (id: string) =>
+  TICKET_TYPES.find(type => type.id === id) || TICKET_TYPES[0]
+
+export const getEnabledTicketTypes = (rules: TicketTypeRules) =>
+  TICKET_TYPES.filter(type => rules[type.id].enabled)
+
+// Whole rupees, like the category prices
+export const applyTicketType = (price: number, rule: TicketTypeRule) =>
+  Math.round((price * (100 - rule.discountPercent)) / 100)
+
+const isTicketTypeId = (id: string | undefined): id is TicketTypeId =>
+  TICKET_TYPES.some(type => type.id === id)
+
+// Bookings keep the ticket type of each seat as a JSON object. Older bookings are all adult
+// tickets, as is any seat stored with a type that no longer exists.
+export function parseTicketTypes(booking: { seats: string; ticket_types?: string | null }): Record<string, TicketTypeId> {
+  const stored: Record<string, string> = booking.ticket_types ? JSON.parse(booking.ticket_types) : {}
+  return Object.fromEntries(parseSeats(booking).map(seatId => {
+    const type = stored[seatId]
+    return [seatId, isTicketTypeId(type) ? type : DEFAULT_TICKET_TYPE]
+  }))
+}
+
+export interface RevenueBooking {
+  seats: string
+  ticket_types?: string | null
+  seat_prices?: string | null
+  total_amount: number
+}
+
+export interface TicketTypeRevenue {
+  type: TicketTypeId
+  tickets: number
+  revenue: number
+}
+
+/**
+ * Splits ticket sales by type, using the price recorded for each seat.
+ * Bookings without per-seat prices have their total shared evenly.
+ */
+export function summarizeRevenueByTicketType(bookings: RevenueBooking[]): TicketTypeRevenue[] {
+  const totals = new Map<TicketTypeId, TicketTypeRevenue>(
+    TICKET_TYPES.map(({ id }) => [id, { type: id, tickets: 0, revenue: 0 }])
+  )
+
+  bookings.forEach(booking => {
+    const seats = parseSeats(booking)
+    const types = parseTicketTypes(booking)
+    const prices: Record<string, number> = booking.seat_prices ? JSON.parse(booking.seat_prices) : {}
+
+    seats.forEach(seatId => {
+      const entry = totals.get(types[seatId])
+      if (!entry) return
+      entry.tickets += 1
+      entry.revenue += prices[seatId] ?? Number(booking.total_amount) / seats.length
+    })
+  })
+
+  return Array.from(totals.values())
+}
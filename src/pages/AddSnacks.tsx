@@ -0,0 +1,319 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useParams, useNavigate } from 'react-router-dom'
+import { ArrowRight, Minus, Plus, Popcorn } from 'lucide-react'
+import { blink } from '../blink/client'
+import { Button } from '../components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
+import { Badge } from '../components/ui/badge'
+import { Label } from '../components/ui/label'
+import { Separator } from '../components/ui/separator'
+import { RadioGroup, RadioGroupItem } from '../components/ui/radio-group'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select'
+import { useToast } from '../hooks/use-toast'
+import { getBookingStatus } from '../lib/booking-state'
+import type { Booking } from '../lib/bookings'
+import {
+  CONCESSION_CATEGORIES,
+  FULFILMENT_LABELS,
+  fetchCatalog,
+  parseComboItems,
+  setBookingConcessions,
+  type CartLine,
+  type ConcessionItem,
+  type FulfilmentMethod
+} from '../lib/concessions'
+import {
+  ConcessionError,
+  MAX_ITEM_QUANTITY,
+  getOrderTotal,
+  parseConcessionOrder,
+  parseSizes
+} from '../lib/concession-pricing'
+import { calculatePriceBreakdown, formatPrice, getBookingBreakdown } from '../lib/price-breakdown'
+import { PromotionError } from '../lib/promotion-rules'
+import { formatSeatLabel, parseSeats } from '../lib/seats'
+import PriceBreakdownLines from '../components/booking/PriceBreakdownLines'
+
+export default function AddSnacks() {
+  const { bookingId } = useParams<{ bookingId: string }>()
+  const navigate = useNavigate()
+  const { toast } = useToast()
+
+  const [booking, setBooking] = useState<Booking | null>(null)
+  const [catalog, setCatalog] = useState<ConcessionItem[]>([])
+  const [cart, setCart] = useState<CartLine[]>([])
+  // The size picked for each item before it is added
+  const [sizes, setSizes] = useState<Record<string, string>>({})
+  const [fulfilment, setFulfilment] = useState<FulfilmentMethod>('pickup')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  const checkoutPath = `/checkout/${bookingId}`
+
+  const fetchSnacks = useCallback(async () => {
+    try {
+      if (!bookingId) return
+
+      const [bookings, user] = await Promise.all([
+        blink.db.bookings.list({ where: { id: bookingId }, limit: 1 }),
+        blink.auth.me()
+      ])
+      if (bookings.length === 0 || bookings[0].user_id !== user.id) return
+
+      const bookingData = bookings[0] as Booking
+      // Snacks can only change before checkout opens a payment
+      if (getBookingStatus(bookingData) !== 'pending_payment' || bookingData.payment_intent_id || bookingData.exchanged_from) {
+        navigate(checkoutPath, { replace: true })
+        return
+      }
+
+      const showtimes = await blink.db.showtimes.list({ where: { id: bookingData.showtime_id }, limit: 1 })
+      const items = showtimes[0] ? await fetchCatalog(showtimes[0].theater_id, { availableOnly: true }) : []
+      if (items.length === 0) {
+        navigate(checkoutPath, { replace: true })
+        return
+      }
+
+      const order = parseConcessionOrder(bookingData)
+      setBooking(bookingData)
+      setCatalog(items)
+      setSizes(Object.fromEntries(items.map(item => [item.id, parseSizes(item)[0]?.id])))
+      if (order) {
+        setCart(order.lines.map(({ itemId, sizeId, quantity }) => ({ itemId, sizeId, quantity })))
+        setFulfilment(order.fulfilment)
+      }
+    } catch (error) {
+      console.error('Error loading snacks:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [bookingId, checkoutPath, navigate])
+
+  useEffect(() => {
+    fetchSnacks()
+  }, [fetchSnacks])
+
+  const getQuantity = (itemId: string, sizeId: string) =>
+    cart.find(line => line.itemId === itemId && line.sizeId === sizeId)?.quantity || 0
+
+  const changeQuantity = (itemId: string, sizeId: string, delta: number) => {
+    setCart(current => {
+      const quantity = Math.min(MAX_ITEM_QUANTITY, Math.max(0, getQuantity(itemId, sizeId) + delta))
+      const rest = current.filter(line => !(line.itemId === itemId && line.sizeId === sizeId))
+      return quantity > 0 ? [...rest, { itemId, sizeId, quantity }] : rest
+    })
+  }
+
+  const pricedCart = cart.flatMap(line => {
+    const item = catalog.find(other => other.id === line.itemId)
+    const size = item && parseSizes(item).find(other => other.id === line.sizeId)
+    return item && size ? [{ ...line, item, size, unitPrice: size.price }] : []
+  })
+
+  const handleContinue = async () => {
+    if (!booking) return
+
+    setSaving(true)
+    try {
+      await setBookingConcessions(booking.id, cart, fulfilment)
+      navigate(checkoutPath)
+    } catch (error) {
+      // The booking is repriced with the snacks, so its promo code can fail here too
+      const expected = error instanceof ConcessionError || error instanceof PromotionError
+      if (!expected) {
+        console.error('Error saving snacks:', error)
+      }
+      toast({
+        title: "Could Not Add Snacks",
+        description: expected ? error.message : "Please try again",
+        variant: "destructive"
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading snacks...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!booking) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-muted-foreground">Booking not found</p>
+          <Button onClick={() => navigate('/')} className="mt-4">
+            Go Back Home
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  const charged = getBookingBreakdown(booking)
+  const seatPrices: Record<string, number> = booking.seat_prices ? JSON.parse(booking.seat_prices) : {}
+  const breakdown = calculatePriceBreakdown(
+    parseSeats(booking).map(seatId => seatPrices[seatId] || 0),
+    charged.rules,
+    { discountTerms: charged.discountTerms, concessions: getOrderTotal(pricedCart) }
+  )
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-2xl font-bold">Add Snacks</h1>
+            <p className="text-muted-foreground">Order now and skip the queue at the counter</p>
+          </div>
+          <Button variant="ghost" onClick={() => navigate(checkoutPath)} disabled={saving}>
+            Skip
+            <ArrowRight className="w-4 h-4 ml-2" />
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-2 space-y-8">
+            {CONCESSION_CATEGORIES.map(category => {
+              const items = catalog.filter(item => item.category === category.id)
+              if (items.length === 0) return null
+              return (
+                <div key={category.id}>
+                  <h2 className="text-lg font-semibold mb-4">{category.name}</h2>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {items.map(item => {
+                      const itemSizes = parseSizes(item)
+                      const sizeId = sizes[item.id] || itemSizes[0]?.id
+                      const size = itemSizes.find(other => other.id === sizeId)
+                      const contents = parseComboItems(item)
+                      return (
+                        <Card key={item.id}>
+                          <CardContent className="p-4 space-y-3">
+                            <div className="flex items-start justify-between gap-2">
+                              <div>
+                                <h3 className="font-medium">{item.name}</h3>
+                                {item.description && (
+                                  <p className="text-sm text-muted-foreground">{item.description}</p>
+                                )}
+                              </div>
+                              {size && <span className="font-semibold">{formatPrice(size.price)}</span>}
+                            </div>
+                            {contents.length > 0 && (
+                              <div className="flex flex-wrap gap-1">
+                                {contents.map(content => (
+                                  <Badge key={content} variant="secondary">{content}</Badge>
+                                ))}
+                              </div>
+                            )}
+                            <div className="flex items-center justify-between gap-2">
+                              {itemSizes.length > 1 ? (
+                                <Select
+                                  value={sizeId}
+                                  onValueChange={(value) => setSizes(current => ({ ...current, [item.id]: value }))}
+                                >
+                                  <SelectTrigger className="w-36">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {itemSizes.map(option => (
+                                      <SelectItem key={option.id} value={option.id}>
+                                        {option.name} · {formatPrice(option.price)}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              ) : (
+                                <span />
+                              )}
+                              <div className="flex items-center gap-2">
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => changeQuantity(item.id, sizeId, -1)}
+                                  disabled={getQuantity(item.id, sizeId) === 0}
+                                >
+                                  <Minus className="w-4 h-4" />
+                                </Button>
+                                <span className="w-6 text-center font-medium">{getQuantity(item.id, sizeId)}</span>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => changeQuantity(item.id, sizeId, 1)}
+                                  disabled={getQuantity(item.id, sizeId) >= MAX_ITEM_QUANTITY}
+                                >
+                                  <Plus className="w-4 h-4" />
+                                </Button>
+                              </div>
+                            </div>
+                          </CardContent>
+                        </Card>
+                      )
+                    })}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+
+          <div className="lg:col-span-1">
+            <Card className="sticky top-24">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Popcorn className="w-5 h-5" />
+                  Your Order
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4 text-sm">
+                {pricedCart.length > 0 ? (
+                  <div className="space-y-1">
+                    {pricedCart.map(line => (
+                      <div key={`${line.itemId}:${line.sizeId}`} className="flex justify-between">
+                        <span>
+                          {line.quantity} × {line.item.name}
+                          {parseSizes(line.item).length > 1 && ` (${line.size.name})`}
+                        </span>
+                        <span>{formatPrice(line.unitPrice * line.quantity)}</span>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-muted-foreground">No snacks added</p>
+                )}
+
+                <div className="space-y-2">
+                  <Label>How would you like it?</Label>
+                  <RadioGroup value={fulfilment} onValueChange={(value) => setFulfilment(value as FulfilmentMethod)}>
+                    {(Object.keys(FULFILMENT_LABELS) as FulfilmentMethod[]).map(method => (
+                      <div key={method} className="flex items-center gap-2">
+                        <RadioGroupItem value={method} id={`fulfilment-${method}`} />
+                        <Label htmlFor={`fulfilment-${method}`} className="font-normal">
+                          {FULFILMENT_LABELS[method]}
+                          {method === 'seat' && ` (${parseSeats(booking).map(formatSeatLabel).join(', ')})`}
+                        </Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                </div>
+
+                <Separator />
+
+                <PriceBreakdownLines breakdown={breakdown} />
+
+                <Button onClick={handleContinue} disabled={saving} className="w-full">
+                  {saving ? 'Saving...' : 'Continue to Payment'}
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,11 +1,26 @@
 import { useState, useEffect, useCallback } from 'react'
 import { useParams, Link } from 'react-router-dom'
-import { CheckCircle, Download, Calendar, MapPin, Clock, Users, QrCode } from 'lucide-react'
+import { CheckCircle, Download, Calendar, MapPin, Clock, Users, CreditCard, XCircle, FileText } from 'lucide-react'
 import { blink } from '../blink/client'
 import { Button } from '../components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
 import { Badge } from '../components/ui/badge'
 import { Separator } from '../components/ui/separator'
+import { Switch } from '../components/ui/switch'
+import { Label } from '../components/ui/label'
+import { useToast } from '../hooks/use-toast'
+import { BOOKING_STATUS_LABELS, getBookingStatus } from '../lib/booking-state'
+import { parseCheckedInSeats } from '../lib/check-in'
+import { isPaymentOverdue } from '../lib/bookings'
+import { getShowStart } from '../lib/refund-policy'
+import { formatPrice, getBookingBreakdown } from '../lib/price-breakdown'
+import { parseConcessionOrder } from '../lib/concession-pricing'
+import { downloadTicket, getTicketCodes } from '../lib/ticket-qr'
+import { issueTicketCode, needsNewTicketCode } from '../lib/ticket-signing'
+import PriceBreakdownLines from '../components/booking/PriceBreakdownLines'
+import ConcessionOrderSummary from '../components/booking/ConcessionOrderSummary'
+import TicketQrCode from '../components/booking/TicketQrCode'
+import ExchangeBookingDialog from '../components/booking/ExchangeBookingDialog'
 
 interface Booking {
   id: string
@@ -17,6 +32,10 @@ interface Booking {
   payment_status: string
   qr_code: string
   checked_in: boolean
+  checked_in_seats?: string
+  exchanged_to?: string
+  price_breakdown?: string
+  concessions?: string
   created_at: string
 }
 
@@ -36,20 +55,41 @@ export default function BookingConfirmation() {
   const { bookingId } = useParams<{ bookingId: string }>()
   const [bookingDetails, setBookingDetails] = useState<BookingDetails | null>(null)
   const [loading, setLoading] = useState(true)
+  const [viewerId, setViewerId] = useState<string | null>(null)
+  // Separate codes let a group go in one at a time
+  const [perSeat, setPerSeat] = useState(false)
+  const [downloading, setDownloading] = useState(false)
+  const { toast } = useToast()
 
   const fetchBookingDetails = useCallback(async () => {
     try {
       if (!bookingId) return
 
       // Fetch booking
-      const bookings = await blink.db.bookings.list({
-        where: { id: bookingId },
-        limit: 1
-      })
+      const [bookings, user] = await Promise.all([
+        blink.db.bookings.list({
+          where: { id: bookingId },
+          limit: 1
+        }),
+        blink.auth.me()
+      ])
+      setViewerId(user.id)
 
       if (bookings.length === 0) return
 
-      const booking = bookings[0] as Booking
+      let booking = bookings[0] as Booking
+
+      // Bookings confirmed before tickets were signed, whose signing failed, or whose key was revoked get a new code
+      if (booking.user_id === user.id && getBookingStatus(booking) === 'confirmed') {
+        try {
+          if (await needsNewTicketCode(booking.qr_code)) {
+            const qrCode = await issueTicketCode(booking.id)
+            if (qrCode) booking = { ...booking, qr_code: qrCode }
+          }
+        } catch (error) {
+          console.error('Error issuing ticket code:', error)
+        }
+      }
 
       // Fetch showtime details
       const showtimes = await blink.db.showtimes.list({
@@ -115,7 +155,92 @@ export default function BookingConfirmation() {
   }
 
   const { booking } = bookingDetails
-  const seats = JSON.parse(booking.seats)
+  const seats: string[] = JSON.parse(booking.seats)
+  const admitted = parseCheckedInSeats(booking)
+  const order = parseConcessionOrder(booking)
+  const codes = getTicketCodes(booking.qr_code, seats, perSeat && seats.length > 1)
+  const showTimeLabel = new Date(`2000-01-01T${bookingDetails.show_time}`).toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true
+  })
+
+  const handleDownload = async () => {
+    setDownloading(true)
+    try {
+      for (const code of codes) {
+        await downloadTicket({
+          movieTitle: bookingDetails.movie_title,
+          theaterName: bookingDetails.theater_name,
+          showDate: new Date(bookingDetails.show_date).toLocaleDateString(),
+          showTime: showTimeLabel,
+          screenName: bookingDetails.screen_name,
+          bookingId: booking.id,
+          seats,
+          code
+        })
+      }
+    } catch (error) {
+      console.error('Error downloading ticket:', error)
+      toast({
+        title: "Download Failed",
+        description: "Could not create the ticket image. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setDownloading(false)
+    }
+  }
+  const status = isPaymentOverdue(booking) ? 'expired' : getBookingStatus(booking)
+
+  if (status === 'pending_payment') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center max-w-md">
+          <div className="w-16 h-16 bg-yellow-500 rounded-full flex items-center justify-center mx-auto mb-4">
+            <CreditCard className="w-8 h-8 text-white" />
+          </div>
+          <h1 className="text-2xl font-bold mb-2">Payment Pending</h1>
+          <p className="text-muted-foreground mb-4">
+            Your seats for {bookingDetails.movie_title} are reserved, but payment has not been completed yet.
+          </p>
+          <Link to={`/checkout/${booking.id}`}>
+            <Button>Complete Payment</Button>
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  if (status !== 'confirmed' && status !== 'checked_in') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center max-w-md">
+          <div className="w-16 h-16 bg-red-500 rounded-full flex items-center justify-center mx-auto mb-4">
+            <XCircle className="w-8 h-8 text-white" />
+          </div>
+          <h1 className="text-2xl font-bold mb-2">Booking {BOOKING_STATUS_LABELS[status] || status}</h1>
+          <p className="text-muted-foreground mb-4">
+            {status === 'expired'
+              ? 'Payment was not completed in time, so these seats were released.'
+              : booking.exchanged_to
+                ? 'This booking was exchanged for another show.'
+                : 'This booking is no longer valid for entry.'}
+          </p>
+          <div className="flex gap-2 justify-center">
+            {booking.exchanged_to && (
+              <Link to={`/booking/${booking.exchanged_to}`}>
+                <Button>View New Booking</Button>
+              </Link>
+            )}
+            <Link to="/profile">
+              <Button variant="outline">View All Bookings</Button>
+            </Link>
+          </div>
+        </div>
+      </div>
+    )
+  }
 
   return (
     <div className="min-h-screen bg-background">
@@ -158,13 +283,7 @@ export default function BookingConfirmation() {
                       </div>
                       <div className="flex items-center gap-2">
                         <Clock className="w-4 h-4" />
-                        <span>
-                          {new Date(`2000-01-01T${bookingDetails.show_time}`).toLocaleTimeString('en-US', {
-                            hour: 'numeric',
-                            minute: '2-digit',
-                            hour12: true
-                          })}
-                        </span>
+                        <span>{showTimeLabel}</span>
                       </div>
                       <div className="flex items-center gap-2">
                         <Users className="w-4 h-4" />
@@ -189,11 +308,23 @@ export default function BookingConfirmation() {
                     </div>
                     <div>
                       <span className="text-muted-foreground">Selected Seats:</span>
-                      <p className="font-medium">{seats.join(', ')}</p>
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {seats.map(seat => (
+                          <Badge key={seat} variant={admitted[seat] ? 'secondary' : 'outline'}>
+                            {admitted[seat] && <CheckCircle className="w-3 h-3 mr-1" />}
+                            {seat}
+                          </Badge>
+                        ))}
+                      </div>
+                      {Object.keys(admitted).length > 0 && status !== 'checked_in' && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {Object.keys(admitted).length} of {seats.length} seats checked in
+                        </p>
+                      )}
                     </div>
                     <div>
                       <span className="text-muted-foreground">Total Amount:</span>
-                      <p className="font-medium text-primary">₹{booking.total_amount}</p>
+                      <p className="font-medium text-primary">{formatPrice(booking.total_amount)}</p>
                     </div>
                     <div>
                       <span className="text-muted-foreground">Payment Status:</span>
@@ -203,20 +334,44 @@ export default function BookingConfirmation() {
                     </div>
                     <div>
                       <span className="text-muted-foreground">Booking Status:</span>
-                      <Badge className={booking.booking_status === 'confirmed' ? 'bg-green-500' : 'bg-red-500'}>
-                        {booking.booking_status}
+                      <Badge className={status === 'checked_in' ? 'bg-blue-500' : 'bg-green-500'}>
+                        {BOOKING_STATUS_LABELS[status]}
                       </Badge>
                     </div>
                   </div>
                 </div>
 
+                {order && (
+                  <>
+                    <Separator />
+
+                    <div>
+                      <h3 className="font-semibold mb-3">Food &amp; Beverages</h3>
+                      <ConcessionOrderSummary order={order} seats={seats} />
+                    </div>
+                  </>
+                )}
+
+                <Separator />
+
+                <div>
+                  <h3 className="font-semibold mb-3">Price Details</h3>
+                  <PriceBreakdownLines breakdown={getBookingBreakdown(booking)} />
+                </div>
+
                 <Separator />
 
                 <div className="flex flex-col sm:flex-row gap-4">
-                  <Button className="flex-1">
+                  <Button className="flex-1" onClick={handleDownload} disabled={downloading}>
                     <Download className="w-4 h-4 mr-2" />
-                    Download Ticket
+                    {downloading ? 'Preparing...' : codes.length > 1 ? 'Download Tickets' : 'Download Ticket'}
                   </Button>
+                  <Link to={`/booking/${booking.id}/invoice`} className="flex-1">
+                    <Button variant="outline" className="w-full">
+                      <FileText className="w-4 h-4 mr-2" />
+                      View Invoice
+                    </Button>
+                  </Link>
                   <Button variant="outline" className="flex-1">
                     Share Ticket
                   </Button>
@@ -232,13 +387,23 @@ export default function BookingConfirmation() {
                 <CardTitle className="text-center">Entry QR Code</CardTitle>
               </CardHeader>
               <CardContent className="text-center space-y-4">
-                <div className="w-48 h-48 bg-white rounded-lg flex items-center justify-center mx-auto border">
-                  <div className="text-center">
-                    <QrCode className="w-24 h-24 text-gray-400 mx-auto mb-2" />
-                    <p className="text-xs text-gray-500">QR Code</p>
-                    <p className="text-xs font-mono mt-1">{booking.qr_code}</p>
+                {seats.length > 1 && (
+                  <div className="flex items-center justify-center gap-2">
+                    <Switch id="per-seat-codes" checked={perSeat} onCheckedChange={setPerSeat} />
+                    <Label htmlFor="per-seat-codes">One code per seat</Label>
                   </div>
+                )}
+
+                <div className="space-y-6">
+                  {codes.map(code => (
+                    <TicketQrCode
+                      key={code.value}
+                      code={code}
+                      checkedIn={code.seatId ? !!admitted[code.seatId] : status === 'checked_in'}
+                    />
+                  ))}
                 </div>
+                <p className="text-xs text-muted-foreground">Tap a code to show it full screen</p>
                 
                 <div className="text-sm text-muted-foreground">
                   <p className="font-medium mb-2">Important Instructions:</p>
@@ -269,6 +434,9 @@ export default function BookingConfirmation() {
             <Link to="/profile">
               <Button variant="outline">View All Bookings</Button>
             </Link>
+            {status === 'confirmed' && viewerId === booking.user_id && getShowStart(bookingDetails) > new Date() && (
+              <ExchangeBookingDialog bookingId={booking.id} userId={viewerId} />
+            )}
           </div>
           
           <p className="text-sm text-muted-foreground">
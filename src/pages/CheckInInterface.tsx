@@ -1,11 +1,64 @@
-import { useState } from 'react'
-import { QrCode, Scan, CheckCircle, XCircle, User, Calendar, Clock } from 'lucide-react'
+import { useState, useEffect, useCallback } from 'react'
+import { QrCode, Scan, CheckCircle, XCircle, User, Calendar, Clock, IdCard, ShieldAlert, ShieldCheck, Camera, CameraOff, Users, Wifi, WifiOff, RefreshCw, AlertTriangle } from 'lucide-react'
 import { blink } from '../blink/client'
 import { Button } from '../components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
 import { Input } from '../components/ui/input'
 import { Badge } from '../components/ui/badge'
+import { Label } from '../components/ui/label'
+import { Checkbox } from '../components/ui/checkbox'
+import { Textarea } from '../components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '../components/ui/dialog'
 import { useToast } from '../hooks/use-toast'
+import { BOOKING_STATUS_LABELS, getBookingStatus, InvalidTransitionError } from '../lib/booking-state'
+import { getTicketType, parseTicketTypes, type TicketTypeId } from '../lib/ticket-types'
+import { markOrderFulfilled, type ConcessionOrder } from '../lib/concessions'
+import { parseConcessionOrder } from '../lib/concession-pricing'
+import { decodeTicketQr } from '../lib/ticket-qr'
+import { isSignedTicketCode } from '../lib/signed-tickets'
+import { syncVerificationKeys, TICKET_REJECTION_MESSAGES, verifyTicketCode } from '../lib/ticket-signing'
+import { playScanFeedback } from '../lib/scan-feedback'
+import {
+  admitSeats,
+  checkCheckInRules,
+  CheckInError,
+  describeAdmission,
+  getOutstandingSeats,
+  parseCheckedInSeats,
+  type CheckInOverride,
+  type CheckInViolation
+} from '../lib/check-in'
+import {
+  discardFailedCheckIn,
+  dismissConflict,
+  fetchTicketRecord,
+  findSavedTicket,
+  getStationStatus,
+  isOfflineError,
+  listConflicts,
+  listFailedCheckIns,
+  MAX_SYNC_ATTEMPTS,
+  preloadDay,
+  queueCheckIn,
+  retryFailedCheckIn,
+  saveCheckIn,
+  syncQueue,
+  type FailedCheckIn,
+  type StationStatus,
+  type SyncConflict,
+  type TicketRecord
+} from '../lib/check-in-station'
+import { formatSeatLabel, parseSeats } from '../lib/seats'
+import ConcessionOrderSummary from '../components/booking/ConcessionOrderSummary'
+import CameraScanner from '../components/theater/CameraScanner'
 
 interface CheckInResult {
   success: boolean
@@ -16,19 +69,156 @@ interface CheckInResult {
     show_date: string
     show_time: string
     seats: string[]
+    // Seats admitted so far, including any just now
+    checked_in_seats: string[]
+    ticket_types: Record<string, TicketTypeId>
+    // Seats whose concession ticket needs proof of age or student status
+    id_checks: string[]
+    // Food and drinks for staff to hand over or deliver
+    concessions: ConcessionOrder | null
     user_name: string
+    // Legacy tickets issued before codes were signed can only be matched in the database
+    unsigned: boolean
   }
   message: string
+  // Set when the ticket broke a check-in rule, with the scanned code so it can be overridden
+  violation?: CheckInViolation
+  code?: string
+  // A group code with several seats still to come in waits for staff to pick who is here
+  awaitingSeats?: boolean
+  overrideReason?: string
+  // Checked in against this station's saved bookings, waiting to sync
+  queued?: boolean
 }
 
-export default function CheckInInterface() {
+// How long a camera scan's result stays up before the scanner is ready again
+const SUCCESS_RESET_MS = 2500
+const FAILURE_RESET_MS = 4000
+// How often a station online re-saves today's bookings and retries queued check-ins
+const STATION_SYNC_INTERVAL_MS = 2 * 60 * 1000
+
+interface CheckInInterfaceProps {
+  // The staff member's theater: only its tickets are admitted, and its ticket keys and
+  // today's bookings are kept on this device for offline checks
+  theaterId?: string
+  // Recorded against overrides
+  staffId: string
+  // Whether this user may admit tickets that break the check-in rules
+  canOverride?: boolean
+}
+
+const ALL_SCREENS = 'all'
+
+export default function CheckInInterface({ theaterId, staffId, canOverride = false }: CheckInInterfaceProps) {
   const [qrCode, setQrCode] = useState('')
   const [checkInResult, setCheckInResult] = useState<CheckInResult | null>(null)
   const [loading, setLoading] = useState(false)
+  const [serving, setServing] = useState(false)
+  const [cameraOn, setCameraOn] = useState(false)
+  const [screens, setScreens] = useState<{ id: string; name: string }[]>([])
+  const [screenId, setScreenId] = useState(ALL_SCREENS)
+  const [overrideOpen, setOverrideOpen] = useState(false)
+  const [overrideReason, setOverrideReason] = useState('')
+  const [selectedSeats, setSelectedSeats] = useState<string[]>([])
+  const [offline, setOffline] = useState(!navigator.onLine)
+  const [station, setStation] = useState<StationStatus>({ preloadedAt: null, pending: 0 })
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([])
+  const [failedCheckIns, setFailedCheckIns] = useState<FailedCheckIn[]>([])
+  const [syncing, setSyncing] = useState(false)
   const { toast } = useToast()
 
-  const handleQRScan = async () => {
-    if (!qrCode.trim()) {
+  useEffect(() => {
+    if (!theaterId) return
+    const fetchScreens = async () => {
+      try {
+        setScreens(await blink.db.screens.list({ where: { theater_id: theaterId }, orderBy: { name: 'asc' } }))
+      } catch (error) {
+        console.error('Error fetching screens:', error)
+      }
+    }
+    fetchScreens()
+  }, [theaterId])
+
+  useEffect(() => {
+    if (!theaterId) return
+    const syncKeys = () => {
+      syncVerificationKeys(theaterId).catch(error => console.error('Error syncing ticket keys:', error))
+    }
+    syncKeys()
+    window.addEventListener('online', syncKeys)
+    return () => window.removeEventListener('online', syncKeys)
+  }, [theaterId])
+
+  const refreshStation = useCallback(async () => {
+    if (!theaterId) return
+    try {
+      const [status, saved, failed] = await Promise.all([getStationStatus(theaterId), listConflicts(), listFailedCheckIns()])
+      setStation(status)
+      setConflicts(saved)
+      setFailedCheckIns(failed)
+    } catch (error) {
+      console.error('Error reading check-in station:', error)
+    }
+  }, [theaterId])
+
+  // Writes queued check-ins, then saves a fresh copy of today's bookings
+  const syncStation = useCallback(async () => {
+    if (!theaterId) return
+    setSyncing(true)
+    try {
+      const { synced, conflicts, failed } = await syncQueue()
+      await preloadDay(theaterId)
+      setOffline(false)
+      const needAttention = conflicts + failed
+      if (synced > 0 || needAttention > 0) {
+        toast({
+          title: failed > 0 ? "Sync Failed" : conflicts > 0 ? "Synced with Conflicts" : "Check-ins Synced",
+          description: needAttention > 0
+            ? `${synced} synced, ${needAttention} need attention`
+            : `${synced} offline ${synced === 1 ? 'check-in' : 'check-ins'} saved`,
+          variant: needAttention > 0 ? "destructive" : "default"
+        })
+      }
+    } catch (error) {
+      if (isOfflineError(error)) {
+        setOffline(true)
+      } else {
+        console.error('Error syncing check-in station:', error)
+      }
+    } finally {
+      setSyncing(false)
+      refreshStation()
+    }
+  }, [theaterId, refreshStation, toast])
+
+  useEffect(() => {
+    refreshStation()
+    if (navigator.onLine) syncStation()
+
+    const goOnline = () => syncStation()
+    const goOffline = () => setOffline(true)
+    const timer = setInterval(() => {
+      if (navigator.onLine) syncStation()
+    }, STATION_SYNC_INTERVAL_MS)
+    window.addEventListener('online', goOnline)
+    window.addEventListener('offline', goOffline)
+    return () => {
+      clearInterval(timer)
+      window.removeEventListener('online', goOnline)
+      window.removeEventListener('offline', goOffline)
+    }
+  }, [refreshStation, syncStation])
+
+  const showResult = (result: CheckInResult) => {
+    setCheckInResult(result)
+    if (!result.awaitingSeats) playScanFeedback(result.success)
+  }
+
+  const handleQRScan = async (
+    code = qrCode,
+    { overrideReason, seats }: { overrideReason?: string; seats?: string[] } = {}
+  ) => {
+    if (!code.trim()) {
       toast({
         title: "Invalid QR Code",
         description: "Please enter a valid QR code",
@@ -39,25 +229,79 @@ export default function CheckInInterface() {
 
     setLoading(true)
     try {
-      // Find booking by QR code
-      const bookings = await blink.db.bookings.list({
-        where: { qr_code: qrCode.trim() },
-        limit: 1
-      })
+      // Seat tickets carry the booking's code plus the seat
+      const { qrCode: bookingCode, seatId } = decodeTicketQr(code)
+      const signed = isSignedTicketCode(bookingCode)
+
+      // Signed codes are checked before touching the database, so forgeries are caught offline too
+      if (signed) {
+        const verification = await verifyTicketCode(bookingCode)
+        if (!verification.valid) {
+          showResult({
+            success: false,
+            message: TICKET_REJECTION_MESSAGES[verification.reason]
+          })
+          return
+        }
+        if (seatId && !verification.payload.seats.includes(seatId)) {
+          showResult({
+            success: false,
+            message: "This seat is not on this ticket."
+          })
+          return
+        }
+      }
+
+      // Offline, or when the connection drops mid-scan, tickets are checked against today's saved bookings
+      let ticket: TicketRecord | null = null
+      let queued = offline
+      if (!queued) {
+        try {
+          ticket = await fetchTicketRecord(bookingCode)
+        } catch (error) {
+          if (!isOfflineError(error)) throw error
+          setOffline(true)
+          queued = true
+        }
+      }
+      if (queued) ticket = await findSavedTicket(bookingCode)
 
-      if (bookings.length === 0) {
-        setCheckInResult({
+      if (!ticket) {
+        showResult({
           success: false,
-          message: "Invalid QR code. Booking not found."
+          message: queued
+            ? "Not in this station's saved bookings. It may have been booked or changed since they were last updated."
+            : signed
+              ? "This ticket has been replaced by a newer one. Ask the customer to reopen their booking."
+              : "Invalid QR code. Booking not found."
         })
         return
       }
 
-      const booking = bookings[0]
+      const { booking, showtime } = ticket
+      const status = getBookingStatus(booking)
+      const admitted = parseCheckedInSeats(booking)
+
+      if (seatId && !parseSeats(booking).includes(seatId)) {
+        showResult({
+          success: false,
+          message: "This seat is no longer part of the booking."
+        })
+        return
+      }
+
+      // A seat ticket only admits its own seat, whatever the rest of the group has done
+      if (seatId && admitted[seatId]) {
+        showResult({
+          success: false,
+          message: `Seat ${formatSeatLabel(seatId)} has already been checked in.`
+        })
+        return
+      }
 
       // Check if already checked in
-      if (Number(booking.checked_in) > 0) {
-        setCheckInResult({
+      if (status === 'checked_in') {
+        showResult({
           success: false,
           message: "This ticket has already been used for check-in."
         })
@@ -65,62 +309,130 @@ export default function CheckInInterface() {
       }
 
       // Check if booking is confirmed
-      if (booking.booking_status !== 'confirmed') {
-        setCheckInResult({
+      if (status !== 'confirmed') {
+        showResult({
+          success: false,
+          message: `This booking is not confirmed (${BOOKING_STATUS_LABELS[status] || status}).`
+        })
+        return
+      }
+
+      const violation = checkCheckInRules(showtime, {
+        theaterId,
+        screenId: screenId === ALL_SCREENS ? undefined : screenId,
+        policy: ticket.policy
+      })
+      if (violation && !(overrideReason && violation.overridable)) {
+        showResult({
           success: false,
-          message: "This booking is not confirmed."
+          message: violation.message,
+          violation,
+          code
         })
         return
       }
 
-      // Fetch additional details
-      const [showtimes, users] = await Promise.all([
-        blink.db.showtimes.list({ where: { id: booking.showtime_id }, limit: 1 }),
-        blink.db.users.list({ where: { id: booking.user_id }, limit: 1 })
-      ])
+      const ticketTypes = parseTicketTypes(booking)
+      const outstanding = getOutstandingSeats(booking)
+      const seatsToAdmit = seatId ? [seatId] : seats ?? (outstanding.length === 1 ? outstanding : null)
+      const details = {
+        id: booking.id,
+        movie_title: ticket.movieTitle,
+        theater_name: ticket.theaterName,
+        show_date: showtime.show_date,
+        show_time: showtime.show_time,
+        seats: parseSeats(booking),
+        checked_in_seats: Object.keys(admitted),
+        ticket_types: ticketTypes,
+        id_checks: (seatsToAdmit ?? outstanding).filter(seat => ticket.ticketTypeRules[ticketTypes[seat]]?.requiresId),
+        concessions: parseConcessionOrder(booking),
+        user_name: ticket.customerName,
+        unsigned: !signed
+      }
 
-      if (showtimes.length === 0) {
-        setCheckInResult({
+      if (!seatsToAdmit) {
+        setSelectedSeats(outstanding)
+        showResult({
           success: false,
-          message: "Showtime not found."
+          awaitingSeats: true,
+          booking: details,
+          message: `${outstanding.length} of ${details.seats.length} seats still to check in. Who is here?`,
+          code,
+          overrideReason
         })
         return
       }
 
-      const showtime = showtimes[0]
-      const [movies, theaters] = await Promise.all([
-        blink.db.movies.list({ where: { id: showtime.movie_id }, limit: 1 }),
-        blink.db.theaters.list({ where: { id: showtime.theater_id }, limit: 1 })
-      ])
+      // Seats let in elsewhere since staff chose them are reported, not refused with the rest
+      const alreadyIn = seatsToAdmit.filter(seat => admitted[seat])
+      const toAdmit = seatsToAdmit.filter(seat => !admitted[seat])
+      if (toAdmit.length === 0) {
+        showResult({
+          success: false,
+          message: describeAdmission({ admitted: [], alreadyIn, remaining: outstanding })
+        })
+        return
+      }
 
-      // Update booking as checked in
-      await blink.db.bookings.update(booking.id, {
-        checked_in: true,
-        check_in_time: new Date().toISOString()
-      })
+      const at = new Date().toISOString()
+      const override: CheckInOverride | undefined = violation && overrideReason
+        ? { rule: violation.rule, reason: overrideReason, by: staffId, at }
+        : undefined
+      let nowAdmitted: Record<string, string>
+      if (queued) {
+        nowAdmitted = await queueCheckIn(ticket, toAdmit, { override, at })
+      } else {
+        try {
+          nowAdmitted = await admitSeats(booking, toAdmit, { override, at })
+          if (theaterId) {
+            saveCheckIn(ticket, nowAdmitted, at)
+              .catch(error => console.error('Error saving ticket to station:', error))
+          }
+        } catch (error) {
+          // Queued with the same scan time, so syncing knows the write if it did reach the database
+          if (!isOfflineError(error)) throw error
+          setOffline(true)
+          queued = true
+          nowAdmitted = await queueCheckIn(ticket, toAdmit, { override, at })
+        }
+      }
+      if (queued) refreshStation()
+      const remaining = details.seats.filter(seat => !nowAdmitted[seat])
 
-      setCheckInResult({
+      showResult({
         success: true,
         booking: {
-          id: booking.id,
-          movie_title: movies[0]?.title || 'Unknown Movie',
-          theater_name: theaters[0]?.name || 'Unknown Theater',
-          show_date: showtime.show_date,
-          show_time: showtime.show_time,
-          seats: JSON.parse(booking.seats),
-          user_name: users[0]?.name || 'Unknown User'
+          ...details,
+          checked_in_seats: Object.keys(nowAdmitted),
+          id_checks: details.id_checks.filter(seat => toAdmit.includes(seat))
         },
-        message: "Check-in successful!"
+        message: describeAdmission({ admitted: toAdmit, alreadyIn, remaining }, !!override),
+        queued
       })
 
       toast({
         title: "Check-in Successful",
-        description: "Customer has been checked in successfully"
+        description: `${toAdmit.length} ${toAdmit.length === 1 ? 'seat' : 'seats'} checked in${queued ? ' offline' : ''}`
       })
 
     } catch (error) {
+      if (error instanceof CheckInError) {
+        showResult({
+          success: false,
+          message: error.message
+        })
+        return
+      }
+      if (error instanceof InvalidTransitionError) {
+        // Another scanner admitted this ticket at the same moment
+        showResult({
+          success: false,
+          message: "This ticket has already been used for check-in."
+        })
+        return
+      }
       console.error('Error during check-in:', error)
-      setCheckInResult({
+      showResult({
         success: false,
         message: "An error occurred during check-in. Please try again."
       })
@@ -129,11 +441,96 @@ export default function CheckInInterface() {
     }
   }
 
+  const handleServeOrder = async () => {
+    const result = checkInResult?.booking
+    if (!result?.concessions) return
+
+    setServing(true)
+    try {
+      const concessions = await markOrderFulfilled(result.id, result.concessions)
+      setCheckInResult({ ...checkInResult!, booking: { ...result, concessions } })
+    } catch (error) {
+      console.error('Error marking order served:', error)
+      toast({
+        title: "Update Failed",
+        description: "Could not mark the order as served. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setServing(false)
+    }
+  }
+
   const handleReset = () => {
     setQrCode('')
     setCheckInResult(null)
   }
 
+  const handleOverride = async () => {
+    if (!checkInResult?.code || !overrideReason.trim()) return
+    setOverrideOpen(false)
+    await handleQRScan(checkInResult.code, { overrideReason: overrideReason.trim() })
+    setOverrideReason('')
+  }
+
+  const handleAdmitSelected = () => {
+    if (!checkInResult?.code) return
+    handleQRScan(checkInResult.code, { overrideReason: checkInResult.overrideReason, seats: selectedSeats })
+  }
+
+  const toggleSeat = (seat: string, checked: boolean) =>
+    setSelectedSeats(current => (checked ? [...current, seat] : current.filter(other => other !== seat)))
+
+  const handleDismissConflict = async (conflictId: string) => {
+    try {
+      await dismissConflict(conflictId)
+      setConflicts(current => current.filter(conflict => conflict.id !== conflictId))
+    } catch (error) {
+      console.error('Error dismissing sync conflict:', error)
+    }
+  }
+
+  const handleRetryFailed = async (entryId: string) => {
+    try {
+      await retryFailedCheckIn(entryId)
+      syncStation()
+    } catch (error) {
+      console.error('Error retrying check-in:', error)
+    }
+  }
+
+  const handleDiscardFailed = async (entryId: string) => {
+    try {
+      await discardFailedCheckIn(entryId)
+      setFailedCheckIns(current => current.filter(entry => entry.id !== entryId))
+    } catch (error) {
+      console.error('Error discarding check-in:', error)
+    }
+  }
+
+  const handleCameraScan = (value: string) => {
+    setQrCode(value)
+    handleQRScan(value)
+  }
+
+  // While the camera is on, a result clears itself so the next ticket can be scanned hands-free,
+  // unless staff need to check ID or hand over snacks first
+  const needsAttention = !!checkInResult?.awaitingSeats ||
+    (canOverride && !!checkInResult?.violation?.overridable) ||
+    (!!checkInResult?.booking && (
+    checkInResult.booking.unsigned ||
+    checkInResult.booking.id_checks.length > 0 ||
+    checkInResult.booking.concessions?.status === 'pending'
+  ))
+  useEffect(() => {
+    if (!cameraOn || !checkInResult || needsAttention) return
+    const timer = setTimeout(() => {
+      setQrCode('')
+      setCheckInResult(null)
+    }, checkInResult.success ? SUCCESS_RESET_MS : FAILURE_RESET_MS)
+    return () => clearTimeout(timer)
+  }, [cameraOn, checkInResult, needsAttention])
+
   return (
     <div className="min-h-screen bg-background">
       <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -152,6 +549,47 @@ export default function CheckInInterface() {
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
+              {theaterId && (
+                <div className={`flex items-center gap-2 p-3 rounded-lg text-sm ${
+                  offline
+                    ? 'bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200'
+                    : 'bg-muted text-muted-foreground'
+                }`}>
+                  {offline ? <WifiOff className="w-4 h-4 shrink-0" /> : <Wifi className="w-4 h-4 shrink-0" />}
+                  <div className="flex-1">
+                    <p className="font-medium">{offline ? 'Offline: checking saved bookings' : 'Online'}</p>
+                    <p className="text-xs">
+                      {station.preloadedAt
+                        ? `Today's bookings saved at ${new Date(station.preloadedAt).toLocaleTimeString()}`
+                        : 'No bookings saved on this device yet'}
+                      {station.pending > 0 && ` · ${station.pending} ${station.pending === 1 ? 'check-in' : 'check-ins'} waiting to sync`}
+                      {failedCheckIns.length > 0 && ` · ${failedCheckIns.length} failed to sync`}
+                    </p>
+                  </div>
+                  <Button size="sm" variant="outline" onClick={syncStation} disabled={syncing}>
+                    <RefreshCw className={`w-4 h-4 mr-2 ${syncing ? 'animate-spin' : ''}`} />
+                    Sync
+                  </Button>
+                </div>
+              )}
+
+              {screens.length > 1 && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Scanning for</label>
+                  <Select value={screenId} onValueChange={setScreenId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_SCREENS}>All screens</SelectItem>
+                      {screens.map(screen => (
+                        <SelectItem key={screen.id} value={screen.id}>{screen.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
               <div className="space-y-2">
                 <label className="text-sm font-medium">Enter QR Code</label>
                 <Input
@@ -164,7 +602,7 @@ export default function CheckInInterface() {
 
               <div className="flex gap-2">
                 <Button 
-                  onClick={handleQRScan}
+                  onClick={() => handleQRScan()}
                   disabled={loading || !qrCode.trim()}
                   className="flex-1"
                 >
@@ -176,15 +614,30 @@ export default function CheckInInterface() {
                 </Button>
               </div>
 
-              <div className="text-center p-8 border-2 border-dashed border-muted rounded-lg">
-                <QrCode className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
-                <p className="text-muted-foreground">
-                  Camera scanner coming soon
-                </p>
-                <p className="text-sm text-muted-foreground mt-2">
-                  For now, manually enter the QR code above
-                </p>
-              </div>
+              {cameraOn ? (
+                <div className="space-y-2">
+                  <CameraScanner
+                    onScan={handleCameraScan}
+                    paused={loading || !!checkInResult}
+                    outcome={checkInResult && !checkInResult.awaitingSeats ? (checkInResult.success ? 'success' : 'failure') : null}
+                  />
+                  <Button variant="outline" className="w-full" onClick={() => setCameraOn(false)}>
+                    <CameraOff className="w-4 h-4 mr-2" />
+                    Stop Camera
+                  </Button>
+                </div>
+              ) : (
+                <div className="text-center p-8 border-2 border-dashed border-muted rounded-lg">
+                  <QrCode className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+                  <p className="text-muted-foreground mb-4">
+                    Scan tickets continuously with this device's camera
+                  </p>
+                  <Button onClick={() => setCameraOn(true)}>
+                    <Camera className="w-4 h-4 mr-2" />
+                    Start Camera
+                  </Button>
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -199,17 +652,57 @@ export default function CheckInInterface() {
                   <div className={`flex items-center gap-2 p-4 rounded-lg ${
                     checkInResult.success 
                       ? 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200' 
-                      : 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200'
+                      : checkInResult.awaitingSeats
+                        ? 'bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200'
+                        : 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200'
                   }`}>
                     {checkInResult.success ? (
                       <CheckCircle className="w-5 h-5" />
+                    ) : checkInResult.awaitingSeats ? (
+                      <Users className="w-5 h-5" />
                     ) : (
                       <XCircle className="w-5 h-5" />
                     )}
                     <span className="font-medium">{checkInResult.message}</span>
                   </div>
 
-                  {checkInResult.success && checkInResult.booking && (
+                  {checkInResult.awaitingSeats && checkInResult.booking && (
+                    <div className="space-y-3 p-4 rounded-lg border">
+                      <div className="grid grid-cols-2 gap-2">
+                        {checkInResult.booking.seats.map(seat => {
+                          const admitted = checkInResult.booking!.checked_in_seats.includes(seat)
+                          return (
+                            <div key={seat} className="flex items-center gap-2">
+                              <Checkbox
+                                id={`admit-${seat}`}
+                                checked={admitted || selectedSeats.includes(seat)}
+                                disabled={admitted}
+                                onCheckedChange={(checked) => toggleSeat(seat, checked === true)}
+                              />
+                              <Label htmlFor={`admit-${seat}`} className="font-normal">
+                                {formatSeatLabel(seat)}
+                                {admitted && <span className="text-muted-foreground"> · already in</span>}
+                              </Label>
+                            </div>
+                          )
+                        })}
+                      </div>
+                      <Button className="w-full" onClick={handleAdmitSelected} disabled={loading || selectedSeats.length === 0}>
+                        {loading
+                          ? 'Checking...'
+                          : `Admit ${selectedSeats.length} ${selectedSeats.length === 1 ? 'Seat' : 'Seats'}`}
+                      </Button>
+                    </div>
+                  )}
+
+                  {canOverride && checkInResult.violation?.overridable && (
+                    <Button variant="outline" className="w-full" onClick={() => setOverrideOpen(true)} disabled={loading}>
+                      <ShieldCheck className="w-4 h-4 mr-2" />
+                      Admit Anyway
+                    </Button>
+                  )}
+
+                  {checkInResult.booking && (
                     <div className="space-y-4 p-4 bg-card rounded-lg border">
                       <h3 className="font-semibold text-lg">Booking Details</h3>
                       
@@ -251,16 +744,60 @@ export default function CheckInInterface() {
                         <div className="flex items-center gap-2">
                           <span className="font-medium">Seats:</span>
                           <div className="flex gap-1">
-                            {checkInResult.booking.seats.map((seat, index) => (
-                              <Badge key={index} variant="secondary">{seat}</Badge>
-                            ))}
+                            {checkInResult.booking.seats.map((seat, index) => {
+                              const ticketType = checkInResult.booking!.ticket_types[seat]
+                              const admitted = checkInResult.booking!.checked_in_seats.includes(seat)
+                              return (
+                                <Badge key={index} variant={admitted ? 'secondary' : 'outline'}>
+                                  {admitted && <CheckCircle className="w-3 h-3 mr-1" />}
+                                  {seat}
+                                  {ticketType !== 'adult' && ` · ${getTicketType(ticketType).name}`}
+                                </Badge>
+                              )
+                            })}
                           </div>
                         </div>
                       </div>
+
+                      {checkInResult.booking.unsigned && (
+                        <div className="flex gap-2 p-3 rounded-lg text-sm bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200">
+                          <ShieldAlert className="w-4 h-4 shrink-0 mt-0.5" />
+                          <span>Unsigned ticket from an older booking. Check the customer's ID against the booking name.</span>
+                        </div>
+                      )}
+
+                      {checkInResult.booking.id_checks.length > 0 && (
+                        <div className="flex gap-2 p-3 rounded-lg text-sm bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200">
+                          <IdCard className="w-4 h-4 shrink-0 mt-0.5" />
+                          <span>
+                            Check ID for{' '}
+                            {checkInResult.booking.id_checks
+                              .map(seat => `${getTicketType(checkInResult.booking!.ticket_types[seat]).name} (${seat})`)
+                              .join(', ')}
+                          </span>
+                        </div>
+                      )}
                       
-                      <div className="text-xs text-muted-foreground">
-                        Checked in at: {new Date().toLocaleString()}
-                      </div>
+                      {checkInResult.booking.concessions && (
+                        <div className="space-y-3 p-3 rounded-lg border">
+                          <ConcessionOrderSummary
+                            order={checkInResult.booking.concessions}
+                            seats={checkInResult.booking.seats}
+                          />
+                          {checkInResult.success && checkInResult.booking.concessions.status === 'pending' && (
+                            <Button size="sm" className="w-full" onClick={handleServeOrder} disabled={serving}>
+                              {serving ? 'Saving...' : 'Mark as Served'}
+                            </Button>
+                          )}
+                        </div>
+                      )}
+
+                      {checkInResult.success && (
+                        <div className="text-xs text-muted-foreground">
+                          Checked in at: {new Date().toLocaleString()}
+                          {checkInResult.queued && ' · Saved on this device until it syncs'}
+                        </div>
+                      )}
                     </div>
                   )}
                 </div>
@@ -277,6 +814,61 @@ export default function CheckInInterface() {
           </Card>
         </div>
 
+        {failedCheckIns.length > 0 && (
+          <Card className="mt-8">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <AlertTriangle className="w-5 h-5 text-red-600" />
+                Failed Check-ins
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {failedCheckIns.map(entry => (
+                <div key={entry.id} className="flex items-start justify-between gap-4 p-3 rounded-lg border text-sm">
+                  <div>
+                    <p className="font-medium">{entry.customerName} · {entry.movieTitle}</p>
+                    <p className="text-muted-foreground">
+                      {entry.seats.map(formatSeatLabel).join(', ')} could not be saved after {MAX_SYNC_ATTEMPTS} tries: {entry.error}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => handleRetryFailed(entry.id)} disabled={syncing}>
+                      Retry
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => handleDiscardFailed(entry.id)}>
+                      Discard
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {conflicts.length > 0 && (
+          <Card className="mt-8">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <AlertTriangle className="w-5 h-5 text-yellow-600" />
+                Sync Conflicts
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {conflicts.map(conflict => (
+                <div key={conflict.id} className="flex items-start justify-between gap-4 p-3 rounded-lg border text-sm">
+                  <div>
+                    <p className="font-medium">{conflict.customerName} · {conflict.movieTitle}</p>
+                    <p className="text-muted-foreground">{conflict.message}</p>
+                  </div>
+                  <Button size="sm" variant="ghost" onClick={() => handleDismissConflict(conflict.id)}>
+                    Dismiss
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Instructions */}
         <Card className="mt-8">
           <CardHeader>
@@ -298,6 +890,8 @@ export default function CheckInInterface() {
                 <ul className="space-y-1 text-muted-foreground">
                   <li>• Each QR code can only be used once</li>
                   <li>• Check-in is only valid for confirmed bookings</li>
+                  <li>• Tickets only scan at their own theater and screen, during the check-in window</li>
+                  <li>• If the connection drops, scanning carries on against today's saved bookings and syncs later</li>
                   <li>• Screenshots are not accepted</li>
                   <li>• Contact support for any issues</li>
                 </ul>
@@ -306,6 +900,32 @@ export default function CheckInInterface() {
           </CardContent>
         </Card>
       </div>
+
+      <Dialog open={overrideOpen} onOpenChange={setOverrideOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Admit Anyway</DialogTitle>
+            <DialogDescription>{checkInResult?.message} The reason is saved with the booking.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="override-reason">Reason</Label>
+            <Textarea
+              id="override-reason"
+              placeholder="e.g. Show started late, customer was sent to the wrong screen"
+              value={overrideReason}
+              onChange={(e) => setOverrideReason(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOverrideOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleOverride} disabled={!overrideReason.trim()}>
+              Check In
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,431 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useParams, useNavigate } from 'react-router-dom'
+import { ArrowLeft, CreditCard, Lock, ShieldCheck, AlertTriangle, Timer } from 'lucide-react'
+import { blink } from '../blink/client'
+import { FunctionError } from '../blink/functions'
+import { Button } from '../components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
+import { Input } from '../components/ui/input'
+import { Label } from '../components/ui/label'
+import { Separator } from '../components/ui/separator'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '../components/ui/dialog'
+import { useToast } from '../hooks/use-toast'
+import { useCountdown, formatCountdown } from '../hooks/use-countdown'
+import { formatSeatLabel, parseSeats } from '../lib/seats'
+import { PaymentError, type CardDetails } from '../lib/payment-gateway'
+import { MOCK_TEST_CARDS } from '../lib/mock-payment-provider'
+import { startPayment, submitPayment, completeAuthentication, getAmountDue } from '../lib/payments'
+import { getPaymentDeadline, isPaymentOverdue, type Booking } from '../lib/bookings'
+import { BOOKING_STATUS_LABELS, getBookingStatus, type BookingStatus } from '../lib/booking-state'
+import { getBookingBreakdown } from '../lib/price-breakdown'
+import { PromotionError } from '../lib/promotion-rules'
+import { describeOrderLine, FULFILMENT_LABELS } from '../lib/concessions'
+import { parseConcessionOrder } from '../lib/concession-pricing'
+import PriceBreakdownLines from '../components/booking/PriceBreakdownLines'
+
+interface CheckoutDetails {
+  movie_title: string
+  theater_name: string
+  show_date: string
+  show_time: string
+}
+
+const EMPTY_CARD: CardDetails = { number: '', expiry: '', cvc: '', name: '' }
+
+export default function Checkout() {
+  const { bookingId } = useParams<{ bookingId: string }>()
+  const navigate = useNavigate()
+  const { toast } = useToast()
+
+  const [booking, setBooking] = useState<Booking | null>(null)
+  const [details, setDetails] = useState<CheckoutDetails | null>(null)
+  const [card, setCard] = useState<CardDetails>(EMPTY_CARD)
+  const [loading, setLoading] = useState(true)
+  const [paying, setPaying] = useState(false)
+  const [challengeOpen, setChallengeOpen] = useState(false)
+  const [paymentError, setPaymentError] = useState<string | null>(null)
+  // Set when the booking can no longer be paid for
+  const [closedStatus, setClosedStatus] = useState<BookingStatus | null>(null)
+  const paymentRemaining = useCountdown(booking && !closedStatus ? getPaymentDeadline(booking) : null)
+
+  const fetchCheckout = useCallback(async () => {
+    try {
+      if (!bookingId) return
+
+      const [bookings, user] = await Promise.all([
+        blink.db.bookings.list({ where: { id: bookingId }, limit: 1 }),
+        blink.auth.me()
+      ])
+      if (bookings.length === 0 || bookings[0].user_id !== user.id) return
+
+      const bookingData = bookings[0] as Booking
+      const status = isPaymentOverdue(bookingData) ? 'expired' : getBookingStatus(bookingData)
+      if (status === 'confirmed' || status === 'checked_in') {
+        navigate(`/booking/${bookingData.id}`, { replace: true })
+        return
+      }
+      if (status !== 'pending_payment') {
+        setBooking(bookingData)
+        setClosedStatus(status)
+        return
+      }
+
+      const showtimes = await blink.db.showtimes.list({ where: { id: bookingData.showtime_id }, limit: 1 })
+      const showtime = showtimes[0]
+      if (showtime) {
+        const [movies, theaters] = await Promise.all([
+          blink.db.movies.list({ where: { id: showtime.movie_id }, limit: 1 }),
+          blink.db.theaters.list({ where: { id: showtime.theater_id }, limit: 1 })
+        ])
+        setDetails({
+          movie_title: movies[0]?.title || 'Unknown Movie',
+          theater_name: theaters[0]?.name || 'Unknown Theater',
+          show_date: showtime.show_date,
+          show_time: showtime.show_time
+        })
+      }
+
+      const { intent, booking: priced } = await startPayment(bookingData)
+      setBooking(priced)
+      // Picking up a checkout that was left on the 3-D Secure step
+      if (intent.status === 'requires_action') setChallengeOpen(true)
+    } catch (error) {
+      // The booking could not be priced, e.g. its promo code ran out while the customer was choosing snacks
+      if (error instanceof PromotionError || (error instanceof FunctionError && error.status < 500)) {
+        toast({
+          title: "Checkout Unavailable",
+          description: error.message,
+          variant: "destructive"
+        })
+        return
+      }
+      console.error('Error loading checkout:', error)
+      toast({
+        title: "Error",
+        description: "Could not start checkout. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [bookingId, navigate, toast])
+
+  useEffect(() => {
+    fetchCheckout()
+  }, [fetchCheckout])
+
+  useEffect(() => {
+    if (paymentRemaining === 0 && !paying) setClosedStatus('expired')
+  }, [paymentRemaining, paying])
+
+  const handlePaymentResult = async (pay: () => Promise<{ status: string }>) => {
+    setPaying(true)
+    setPaymentError(null)
+    try {
+      const intent = await pay()
+      if (intent.status === 'requires_action') {
+        setChallengeOpen(true)
+        return
+      }
+
+      toast({
+        title: "Payment Successful",
+        description: "Your tickets are confirmed.",
+      })
+      navigate(`/booking/${bookingId}`)
+    } catch (error) {
+      const message = error instanceof PaymentError
+        ? error.code === 'timeout'
+          ? 'The payment provider took too long to respond. You have not been charged; please try again.'
+          : error.message
+        : 'Something went wrong while processing your payment. Please try again.'
+      if (!(error instanceof PaymentError)) console.error('Error processing payment:', error)
+      setPaymentError(message)
+      toast({
+        title: "Payment Failed",
+        description: message,
+        variant: "destructive"
+      })
+    } finally {
+      setPaying(false)
+    }
+  }
+
+  const handlePay = () => {
+    if (!booking) return
+    if (!card.number || !card.expiry || !card.cvc || !card.name) {
+      setPaymentError('Please fill in all card details')
+      return
+    }
+    handlePaymentResult(() => submitPayment(booking, card))
+  }
+
+  const handleChallenge = (approved: boolean) => {
+    if (!booking) return
+    setChallengeOpen(false)
+    handlePaymentResult(() => completeAuthentication(booking, approved))
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Preparing checkout...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!booking) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-muted-foreground">Booking not found</p>
+          <Button onClick={() => navigate('/')} className="mt-4">
+            Go Back Home
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  if (closedStatus) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center max-w-md">
+          <h1 className="text-2xl font-bold mb-2">Booking {BOOKING_STATUS_LABELS[closedStatus] || closedStatus}</h1>
+          <p className="text-muted-foreground">
+            {closedStatus === 'expired'
+              ? 'The time to pay for this booking ran out and the seats were released. Please select your seats again.'
+              : 'This booking can no longer be paid for.'}
+          </p>
+          <Button onClick={() => navigate('/')} className="mt-4">
+            Go Back Home
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  const seats = parseSeats(booking)
+  const order = parseConcessionOrder(booking)
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex items-center gap-4 mb-8">
+          <Button variant="ghost" onClick={() => navigate(-1)} disabled={paying}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+          <h1 className="text-2xl font-bold">Checkout</h1>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {/* Payment */}
+          <div className="lg:col-span-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <CreditCard className="w-5 h-5" />
+                  Card Payment
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="card-name">Name on Card</Label>
+                  <Input
+                    id="card-name"
+                    value={card.name}
+                    onChange={(e) => setCard({ ...card, name: e.target.value })}
+                    autoComplete="cc-name"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="card-number">Card Number</Label>
+                  <Input
+                    id="card-number"
+                    value={card.number}
+                    onChange={(e) => setCard({ ...card, number: e.target.value })}
+                    placeholder="1234 5678 9012 3456"
+                    inputMode="numeric"
+                    autoComplete="cc-number"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="card-expiry">Expiry</Label>
+                    <Input
+                      id="card-expiry"
+                      value={card.expiry}
+                      onChange={(e) => setCard({ ...card, expiry: e.target.value })}
+                      placeholder="MM/YY"
+                      autoComplete="cc-exp"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="card-cvc">CVC</Label>
+                    <Input
+                      id="card-cvc"
+                      value={card.cvc}
+                      onChange={(e) => setCard({ ...card, cvc: e.target.value })}
+                      placeholder="123"
+                      inputMode="numeric"
+                      autoComplete="cc-csc"
+                    />
+                  </div>
+                </div>
+
+                {paymentError && (
+                  <div className="flex gap-2 rounded-md p-3 text-sm bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200">
+                    <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+                    <span>{paymentError}</span>
+                  </div>
+                )}
+
+                <Button onClick={handlePay} disabled={paying} className="w-full">
+                  <Lock className="w-4 h-4 mr-2" />
+                  {paying ? 'Processing...' : `Pay ₹${getAmountDue(booking)}`}
+                </Button>
+
+                <div className="rounded-md border border-dashed p-3 text-xs text-muted-foreground space-y-2">
+                  <p className="font-medium">Test mode: no real money is charged. Use any future expiry and CVC.</p>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {MOCK_TEST_CARDS.map(test => (
+                      <button
+                        key={test.number}
+                        type="button"
+                        onClick={() => setCard({ ...card, number: test.number })}
+                        className="text-left rounded p-2 hover:bg-muted transition-colors"
+                      >
+                        <span className="font-mono block">{test.number}</span>
+                        <span>{test.label}</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Order Summary */}
+          <div className="lg:col-span-1">
+            <Card className="sticky top-24">
+              <CardHeader>
+                <CardTitle>Order Summary</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4 text-sm">
+                {details && (
+                  <div>
+                    <h3 className="font-semibold">{details.movie_title}</h3>
+                    <p className="text-muted-foreground">{details.theater_name}</p>
+                    <p className="text-muted-foreground">
+                      {new Date(details.show_date).toLocaleDateString()} • {' '}
+                      {new Date(`2000-01-01T${details.show_time}`).toLocaleTimeString('en-US', {
+                        hour: 'numeric',
+                        minute: '2-digit',
+                        hour12: true
+                      })}
+                    </p>
+                  </div>
+                )}
+
+                <Separator />
+
+                <div className="flex justify-between">
+                  <span>Seats</span>
+                  <span className="font-medium">{seats.map(formatSeatLabel).join(', ')}</span>
+                </div>
+
+                {order && (
+                  <div className="space-y-1">
+                    <div className="flex justify-between">
+                      <span>Snacks</span>
+                      <span className="text-muted-foreground">{FULFILMENT_LABELS[order.fulfilment]}</span>
+                    </div>
+                    {order.lines.map(line => (
+                      <p key={`${line.itemId}:${line.sizeId}`} className="text-muted-foreground">
+                        {describeOrderLine(line)}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                {paymentRemaining !== null && (
+                  <div className={`flex items-center justify-between rounded-md p-2 ${
+                    paymentRemaining < 60 * 1000
+                      ? 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200'
+                      : 'bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200'
+                  }`}>
+                    <span className="flex items-center gap-1">
+                      <Timer className="w-4 h-4" />
+                      Complete payment in
+                    </span>
+                    <span className="font-mono font-semibold">{formatCountdown(paymentRemaining)}</span>
+                  </div>
+                )}
+
+                <Separator />
+
+                <PriceBreakdownLines
+                  breakdown={getBookingBreakdown(booking)}
+                  totalLabel={booking.exchanged_from ? 'New Booking Total' : 'Total'}
+                />
+
+                {booking.exchanged_from && (
+                  <div className="space-y-1">
+                    <div className="flex justify-between">
+                      <span>Exchange fee</span>
+                      <span>₹{booking.exchange_fee}</span>
+                    </div>
+                    <div className="flex justify-between text-green-600">
+                      <span>Credit from original booking</span>
+                      <span>-₹{booking.exchange_credit}</span>
+                    </div>
+                    <div className="flex justify-between font-semibold">
+                      <span>To Pay</span>
+                      <span>₹{getAmountDue(booking)}</span>
+                    </div>
+                  </div>
+                )}
+
+                <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <ShieldCheck className="w-4 h-4" />
+                  Payments are processed securely by our payment partner
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+
+      {/* Simulated 3-D Secure challenge from the card issuer */}
+      <Dialog open={challengeOpen} onOpenChange={(open) => !open && !paying && handleChallenge(false)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Verify Your Payment</DialogTitle>
+            <DialogDescription>
+              Your bank needs to confirm this payment of ₹{getAmountDue(booking)}. In test mode you can approve or fail the check.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => handleChallenge(false)}>
+              Fail Verification
+            </Button>
+            <Button onClick={() => handleChallenge(true)}>
+              Approve
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
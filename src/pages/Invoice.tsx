@@ -0,0 +1,202 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useParams, Link } from 'react-router-dom'
+import { ArrowLeft, Printer } from 'lucide-react'
+import { blink } from '../blink/client'
+import { Button } from '../components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
+import { Separator } from '../components/ui/separator'
+import { formatSeatLabel, parseSeats } from '../lib/seats'
+import { getAmountDue } from '../lib/payments'
+import { formatPrice, getBookingBreakdown } from '../lib/price-breakdown'
+import { getTicketType, parseTicketTypes } from '../lib/ticket-types'
+import type { Booking } from '../lib/bookings'
+import { parseConcessionOrder } from '../lib/concession-pricing'
+import PriceBreakdownLines from '../components/booking/PriceBreakdownLines'
+import ConcessionOrderSummary from '../components/booking/ConcessionOrderSummary'
+
+interface InvoiceDetails {
+  booking: Booking
+  customer_name: string
+  customer_email: string
+  movie_title: string
+  theater_name: string
+  theater_location: string
+  show_date: string
+  show_time: string
+}
+
+export default function Invoice() {
+  const { bookingId } = useParams<{ bookingId: string }>()
+  const [details, setDetails] = useState<InvoiceDetails | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const fetchInvoice = useCallback(async () => {
+    try {
+      if (!bookingId) return
+
+      const [bookings, user] = await Promise.all([
+        blink.db.bookings.list({ where: { id: bookingId }, limit: 1 }),
+        blink.auth.me()
+      ])
+      if (bookings.length === 0 || bookings[0].user_id !== user.id) return
+
+      const booking = bookings[0] as Booking
+      const showtimes = await blink.db.showtimes.list({ where: { id: booking.showtime_id }, limit: 1 })
+      if (showtimes.length === 0) return
+
+      const showtime = showtimes[0]
+      const [movies, theaters] = await Promise.all([
+        blink.db.movies.list({ where: { id: showtime.movie_id }, limit: 1 }),
+        blink.db.theaters.list({ where: { id: showtime.theater_id }, limit: 1 })
+      ])
+
+      setDetails({
+        booking,
+        customer_name: user.name || user.email,
+        customer_email: user.email,
+        movie_title: movies[0]?.title || 'Unknown Movie',
+        theater_name: theaters[0]?.name || 'Unknown Theater',
+        theater_location: theaters[0]?.location || 'Unknown Location',
+        show_date: showtime.show_date,
+        show_time: showtime.show_time
+      })
+    } catch (error) {
+      console.error('Error fetching invoice:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [bookingId])
+
+  useEffect(() => {
+    fetchInvoice()
+  }, [fetchInvoice])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading invoice...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!details) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-muted-foreground mb-4">Invoice not found</p>
+          <Link to="/profile">
+            <Button>View All Bookings</Button>
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  const { booking } = details
+  const types = parseTicketTypes(booking)
+  const order = parseConcessionOrder(booking)
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex items-center justify-between mb-6 print:hidden">
+          <Link to={`/booking/${booking.id}`}>
+            <Button variant="ghost">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Booking
+            </Button>
+          </Link>
+          <Button variant="outline" onClick={() => window.print()}>
+            <Printer className="w-4 h-4 mr-2" />
+            Print
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between">
+              <div>
+                <CardTitle>Tax Invoice</CardTitle>
+                <p className="text-sm text-muted-foreground mt-1">{details.theater_name} - {details.theater_location}</p>
+              </div>
+              <div className="text-right text-sm">
+                <p className="font-medium">INV-{booking.id}</p>
+                <p className="text-muted-foreground">{new Date(booking.created_at).toLocaleDateString()}</p>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <span className="text-muted-foreground">Billed to:</span>
+                <p className="font-medium">{details.customer_name}</p>
+                <p className="text-muted-foreground">{details.customer_email}</p>
+              </div>
+              <div>
+                <span className="text-muted-foreground">Show:</span>
+                <p className="font-medium">{details.movie_title}</p>
+                <p className="text-muted-foreground">
+                  {new Date(details.show_date).toLocaleDateString()} at{' '}
+                  {new Date(`2000-01-01T${details.show_time}`).toLocaleTimeString('en-US', {
+                    hour: 'numeric',
+                    minute: '2-digit',
+                    hour12: true
+                  })}
+                </p>
+              </div>
+            </div>
+
+            <Separator />
+
+            <div className="space-y-1 text-sm">
+              {parseSeats(booking).map(seatId => (
+                <div key={seatId} className="flex justify-between text-muted-foreground">
+                  <span>Seat {formatSeatLabel(seatId)}</span>
+                  <span>{getTicketType(types[seatId]).name}</span>
+                </div>
+              ))}
+            </div>
+
+            {order && (
+              <>
+                <Separator />
+                <ConcessionOrderSummary order={order} seats={parseSeats(booking)} showStatus={false} />
+              </>
+            )}
+
+            <Separator />
+
+            <PriceBreakdownLines breakdown={getBookingBreakdown(booking)} />
+
+            {booking.exchanged_from && (
+              <div className="space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span>Exchange fee</span>
+                  <span>{formatPrice(Number(booking.exchange_fee) || 0)}</span>
+                </div>
+                <div className="flex justify-between text-green-600">
+                  <span>Credit from original booking</span>
+                  <span>-{formatPrice(Number(booking.exchange_credit) || 0)}</span>
+                </div>
+                <div className="flex justify-between font-semibold">
+                  <span>Amount Paid</span>
+                  <span>{formatPrice(getAmountDue(booking))}</span>
+                </div>
+              </div>
+            )}
+
+            {Number(booking.amount_refunded) > 0 && (
+              <div className="flex justify-between text-sm text-green-600">
+                <span>Refunded</span>
+                <span>-{formatPrice(Number(booking.amount_refunded))}</span>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -6,6 +6,8 @@ import { Button } from '../components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
 import { Badge } from '../components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs'
+import { parseSeatLayout, DEFAULT_CATEGORIES } from '../lib/seat-layout'
+import { getStartingPrice } from '../lib/seat-pricing'
 
 interface Movie {
   id: string
@@ -32,6 +34,8 @@ interface Showtime {
   price_regular: number
   price_gold: number
   price_platinum: number
+  category_prices?: string
+  starting_price: number
   available_seats: number
   total_seats: number
   theater_name: string
@@ -89,9 +93,17 @@ export default function MovieDetails() {
             blink.db.theaters.list({ where: { id: showtime.theater_id }, limit: 1 }),
             blink.db.screens.list({ where: { id: showtime.screen_id }, limit: 1 })
           ])
+
+          let categories = DEFAULT_CATEGORIES
+          try {
+            categories = parseSeatLayout(screens[0]?.seat_layout)?.categories || DEFAULT_CATEGORIES
+          } catch (error) {
+            console.error('Error reading seat layout:', error)
+          }
           
           return {
             ...showtime,
+            starting_price: getStartingPrice(showtime, categories),
             theater_name: theaters[0]?.name || 'Unknown Theater',
             theater_location: theaters[0]?.location || 'Unknown Location',
             screen_name: screens[0]?.name || 'Unknown Screen',
@@ -295,7 +307,7 @@ export default function MovieDetails() {
                                     <span>{show.available_seats}/{show.total_seats}</span>
                                   </div>
                                   <div className="text-sm font-medium text-primary mt-2">
-                                    ₹{show.price_regular}+
+                                    ₹{show.starting_price}+
                                   </div>
                                 </div>
                               </CardContent>
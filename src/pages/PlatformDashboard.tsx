@@ -5,6 +5,7 @@ import { Button } from '../components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs'
 import { Badge } from '../components/ui/badge'
+import PromotionManager from '../components/promotions/PromotionManager'
 
 export default function PlatformDashboard() {
   const [stats, setStats] = useState({
@@ -107,9 +108,10 @@ export default function PlatformDashboard() {
 
         {/* Main Content */}
         <Tabs defaultValue="theaters" className="w-full">
-          <TabsList className="grid w-full max-w-md grid-cols-3">
+          <TabsList className="grid w-full max-w-lg grid-cols-4">
             <TabsTrigger value="theaters">Theaters</TabsTrigger>
             <TabsTrigger value="movies">Movies</TabsTrigger>
+            <TabsTrigger value="promotions">Promotions</TabsTrigger>
             <TabsTrigger value="analytics">Analytics</TabsTrigger>
           </TabsList>
 
@@ -176,6 +178,10 @@ export default function PlatformDashboard() {
             </Card>
           </TabsContent>
 
+          <TabsContent value="promotions" className="mt-6">
+            <PromotionManager theaterId={null} />
+          </TabsContent>
+
           <TabsContent value="analytics" className="mt-6">
             <Card>
               <CardHeader>
@@ -1,12 +1,72 @@
-import { useState, useEffect, useCallback } from 'react'
-import { useParams, useNavigate } from 'react-router-dom'
-import { ArrowLeft, Users, Clock, MapPin, CreditCard } from 'lucide-react'
+import { useState, useEffect, useCallback, useMemo, useRef, lazy, Suspense } from 'react'
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom'
+import { ArrowLeft, Users, Clock, MapPin, CreditCard, Timer, Accessibility, HeartHandshake, Sofa, Ban, AlertTriangle, Radio, RefreshCw, ArrowRightLeft } from 'lucide-react'
 import { blink } from '../blink/client'
+import { FunctionError } from '../blink/functions'
 import { Button } from '../components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
 import { Badge } from '../components/ui/badge'
 import { Separator } from '../components/ui/separator'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '../components/ui/select'
 import { useToast } from '../hooks/use-toast'
+import { useCountdown, formatCountdown } from '../hooks/use-countdown'
+import { useLiveSeats } from '../hooks/use-live-seats'
+import {
+  holdSeats,
+  releaseSeat,
+  releaseHolds,
+  HoldExpiredError,
+  SeatHoldError,
+  SeatLimitError
+} from '../lib/seat-holds'
+import { createBooking, createIdempotencyKey, SeatConflictError } from '../lib/bookings'
+import { ExchangeError, getExchangeDifference, getExchangeOptions, startExchange, type ExchangeOptions } from '../lib/exchanges'
+import { formatSeatLabel } from '../lib/seats'
+import {
+  parseSeatLayout,
+  listSeats,
+  getRowLabel,
+  getSeatId,
+  getCategory,
+  getCellSeatIds,
+  isCoupleSeat,
+  type SeatKind,
+  type SeatLayout
+} from '../lib/seat-layout'
+import { getCategoryPrices } from '../lib/seat-pricing'
+import { indexSeats, toggleSeat, validateSelection, type SeatIndex } from '../lib/seat-selection'
+import { pickBestSeats } from '../lib/best-seats'
+import { evaluateSeatRules } from '../lib/seat-rules'
+import { calculatePriceBreakdown, parsePricingRules, type DiscountTerms } from '../lib/price-breakdown'
+import { PromotionError } from '../lib/promotion-rules'
+import {
+  applyTicketType,
+  DEFAULT_TICKET_TYPE,
+  getEnabledTicketTypes,
+  getTicketType,
+  getTicketTypeRules,
+  type TicketTypeId
+} from '../lib/ticket-types'
+import BestSeatsPicker from '../components/booking/BestSeatsPicker'
+import PriceBreakdownLines from '../components/booking/PriceBreakdownLines'
+import PromoCodeInput from '../components/booking/PromoCodeInput'
+
+// three.js is only downloaded once the customer has picked a seat
+const SeatViewPreview = lazy(() => import('../components/booking/SeatViewPreview'))
+
+const MAX_SEATS = 10
+
+const SEAT_KIND_LABELS: Record<Exclude<SeatKind, 'standard'>, string> = {
+  wheelchair: 'Wheelchair space',
+  companion: 'Companion seat',
+  couple: 'Couple seat'
+}
 
 interface Showtime {
   id: string
@@ -18,6 +78,7 @@ interface Showtime {
   price_regular: number
   price_gold: number
   price_platinum: number
+  category_prices?: string
   available_seats: number
   total_seats: number
 }
@@ -35,6 +96,8 @@ interface Theater {
   id: string
   name: string
   location: string
+  ticket_types?: string
+  pricing_rules?: string
 }
 
 interface Screen {
@@ -44,16 +107,11 @@ interface Screen {
   seat_layout: string
 }
 
-interface SeatLayout {
-  rows: number
-  seatsPerRow: number
-  premium: number[]
-  gold: number[]
-  regular: number[]
-}
-
 export default function SeatSelection() {
   const { showtimeId } = useParams<{ showtimeId: string }>()
+  // Set when the customer is moving an existing booking to this show
+  const [searchParams] = useSearchParams()
+  const exchangeBookingId = searchParams.get('exchange')
   const navigate = useNavigate()
   const { toast } = useToast()
   
@@ -63,31 +121,36 @@ export default function SeatSelection() {
   const [screen, setScreen] = useState<Screen | null>(null)
   const [seatLayout, setSeatLayout] = useState<SeatLayout | null>(null)
   const [selectedSeats, setSelectedSeats] = useState<string[]>([])
-  const [occupiedSeats, setOccupiedSeats] = useState<string[]>([])
+  const [ticketTypes, setTicketTypes] = useState<Record<string, TicketTypeId>>({})
+  const [holdExpiresAt, setHoldExpiresAt] = useState<string | null>(null)
+  const [userId, setUserId] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+  const [pickingBest, setPickingBest] = useState(false)
+  const [exchange, setExchange] = useState<ExchangeOptions | null>(null)
+  const [promotion, setPromotion] = useState<DiscountTerms | null>(null)
+  const holdRemaining = useCountdown(holdExpiresAt)
+  const {
+    occupiedSeats,
+    heldSeats,
+    changedSeats,
+    live,
+    ready: seatsReady,
+    refresh: refreshSeats
+  } = useLiveSeats(showtimeId, userId)
 
-  const fetchOccupiedSeats = async (showtimeId: string) => {
-    try {
-      const bookings = await blink.db.bookings.list({
-        where: { 
-          showtime_id: showtimeId,
-          booking_status: 'confirmed'
-        }
-      })
-
-      const occupied: string[] = []
-      bookings.forEach((booking: any) => {
-        if (booking.seats) {
-          const seats = JSON.parse(booking.seats)
-          occupied.push(...seats)
-        }
-      })
+  // Kept in a ref so the unmount cleanup can release whatever is held at that point
+  const holdOwnerRef = useRef<{ showtimeId?: string; userId: string | null; seats: string[] }>({
+    userId: null,
+    seats: []
+  })
+  holdOwnerRef.current = { showtimeId, userId, seats: selectedSeats }
 
-      setOccupiedSeats(occupied)
-    } catch (error) {
-      console.error('Error fetching occupied seats:', error)
-    }
-  }
+  // One key per checkout attempt, reset whenever the selection changes
+  const idempotencyKeyRef = useRef(createIdempotencyKey())
+  useEffect(() => {
+    idempotencyKeyRef.current = createIdempotencyKey()
+  }, [selectedSeats])
 
   const fetchShowtimeDetails = useCallback(async () => {
     try {
@@ -123,12 +186,13 @@ export default function SeatSelection() {
         const screenData = screens[0] as Screen
         setScreen(screenData)
         if (screenData.seat_layout) {
-          setSeatLayout(JSON.parse(screenData.seat_layout))
+          setSeatLayout(parseSeatLayout(screenData.seat_layout))
         }
       }
 
-      // Fetch occupied seats
-      await fetchOccupiedSeats(showtimeId)
+      // Occupied and held seats are loaded by useLiveSeats once the user is known
+      const user = await blink.auth.me()
+      setUserId(user.id)
     } catch (error) {
       console.error('Error fetching showtime details:', error)
       toast({
@@ -147,53 +211,275 @@ export default function SeatSelection() {
     }
   }, [showtimeId, fetchShowtimeDetails])
 
-  const getSeatType = (row: number): 'premium' | 'gold' | 'regular' => {
-    if (!seatLayout) return 'regular'
-    
-    if (seatLayout.premium.includes(row)) return 'premium'
-    if (seatLayout.gold.includes(row)) return 'gold'
-    return 'regular'
+  // Release any held seats when the customer leaves the page
+  useEffect(() => {
+    return () => {
+      const { showtimeId, userId, seats } = holdOwnerRef.current
+      if (showtimeId && userId && seats.length > 0) {
+        releaseHolds(showtimeId, userId).catch(error => {
+          console.error('Error releasing seat holds:', error)
+        })
+      }
+    }
+  }, [])
+
+  useEffect(() => {
+    if (holdRemaining !== 0 || !showtimeId || !userId) return
+
+    setSelectedSeats([])
+    setHoldExpiresAt(null)
+    releaseHolds(showtimeId, userId).catch(error => {
+      console.error('Error releasing seat holds:', error)
+    })
+    toast({
+      title: "Seat Hold Expired",
+      description: "Your seats were released. Please select them again.",
+      variant: "destructive"
+    })
+  }, [holdRemaining, showtimeId, userId, toast])
+
+  useEffect(() => {
+    if (!exchangeBookingId || !userId) return
+
+    getExchangeOptions(exchangeBookingId, userId)
+      .then(setExchange)
+      .catch(error => {
+        console.error('Error loading exchange:', error)
+        toast({
+          title: "Exchange Unavailable",
+          description: error instanceof ExchangeError ? error.message : "Could not load the booking to exchange",
+          variant: "destructive"
+        })
+        navigate('/profile')
+      })
+  }, [exchangeBookingId, userId, toast, navigate])
+
+  const layoutSeats = seatLayout ? listSeats(seatLayout) : []
+  const seatIndex: SeatIndex = useMemo(() => (seatLayout ? indexSeats(seatLayout) : new Map()), [seatLayout])
+
+  // Drop seats from the selection as soon as the live seat map shows someone else took them
+  useEffect(() => {
+    if (submitting || !showtimeId || !userId) return
+
+    const taken = selectedSeats.filter(id => occupiedSeats.includes(id) || heldSeats.includes(id))
+    if (taken.length === 0) return
+
+    // Deselect through toggleSeat so couple seats and dependent companion seats go too
+    let remaining = selectedSeats
+    taken.forEach(id => {
+      if (!remaining.includes(id)) return
+      const result = toggleSeat(seatIndex, remaining, id)
+      if (result.ok) remaining = result.selected
+    })
+
+    setSelectedSeats(remaining)
+    if (remaining.length === 0) setHoldExpiresAt(null)
+
+    const stillHeld = selectedSeats.filter(id => !remaining.includes(id) && !taken.includes(id))
+    Promise.all(stillHeld.map(id => releaseSeat(showtimeId, userId, id))).catch(error => {
+      console.error('Error releasing seat:', error)
+    })
+
+    toast({
+      title: "Seats Just Taken",
+      description: `${taken.length === 1 ? 'Seat' : 'Seats'} ${taken.map(formatSeatLabel).join(', ')} ${taken.length === 1 ? 'was' : 'were'} just taken by another customer and removed from your selection.`,
+      variant: "destructive"
+    })
+  }, [occupiedSeats, heldSeats, selectedSeats, seatIndex, submitting, showtimeId, userId, toast])
+  // Special seat types present on this screen, for the legend
+  const specialKinds = new Set<string>(
+    layoutSeats.flatMap(seat => [
+      ...(seat.kind !== 'standard' ? [seat.kind] : []),
+      ...(seat.blocked ? ['blocked'] : [])
+    ])
+  )
+  const seatCategories = new Map(layoutSeats.map(seat => [seat.id, seat.category]))
+
+  const categoryPrices = showtime && seatLayout ? getCategoryPrices(showtime, seatLayout.categories) : {}
+
+  const getSeatType = (seatId: string) =>
+    seatLayout ? getCategory(seatLayout, seatCategories.get(seatId) || '') : undefined
+
+  // Row labels for each category, for the pricing legend
+  const getCategoryRows = (categoryId: string) => {
+    const rows = new Set(layoutSeats.filter(seat => seat.category === categoryId).map(seat => seat.row))
+    return Array.from(rows).map(row => getRowLabel(row - 1)).join(', ')
   }
 
-  const getSeatPrice = (seatType: 'premium' | 'gold' | 'regular'): number => {
-    if (!showtime) return 0
-    
-    switch (seatType) {
-      case 'premium': return showtime.price_platinum
-      case 'gold': return showtime.price_gold
-      case 'regular': return showtime.price_regular
-      default: return showtime.price_regular
-    }
+  const getSeatPrice = (seatId: string): number => {
+    const category = getSeatType(seatId)
+    return category ? categoryPrices[category.id] || 0 : 0
+  }
+
+  const ticketTypeRules = getTicketTypeRules(theater?.ticket_types)
+  const enabledTicketTypes = getEnabledTicketTypes(ticketTypeRules)
+
+  const getSeatTicketType = (seatId: string) => {
+    const type = ticketTypes[seatId]
+    return type && ticketTypeRules[type].enabled ? type : DEFAULT_TICKET_TYPE
   }
 
-  const handleSeatClick = (seatId: string) => {
-    if (occupiedSeats.includes(seatId)) return
+  // What the customer pays for the seat once its ticket type's discount is applied
+  const getTicketPrice = (seatId: string) =>
+    applyTicketType(getSeatPrice(seatId), ticketTypeRules[getSeatTicketType(seatId)])
+
+  const idCheckedTypes = Array.from(new Set(selectedSeats.map(getSeatTicketType)))
+    .filter(type => ticketTypeRules[type].requiresId)
 
-    if (selectedSeats.includes(seatId)) {
-      setSelectedSeats(selectedSeats.filter(id => id !== seatId))
-    } else {
-      if (selectedSeats.length < 10) { // Max 10 seats
-        setSelectedSeats([...selectedSeats, seatId])
-      } else {
+  const getRuleViolations = (selected: string[]) =>
+    seatLayout
+      ? evaluateSeatRules(seatLayout, {
+          selected,
+          unavailable: new Set([...occupiedSeats, ...heldSeats])
+        })
+      : []
+
+  const ruleViolations = getRuleViolations(selectedSeats)
+  const flaggedSeats = new Set(ruleViolations.flatMap(violation => violation.seatIds))
+
+  const handleSeatClick = async (seatId: string) => {
+    if (occupiedSeats.includes(seatId) || heldSeats.includes(seatId)) return
+    if (!showtimeId || !userId) return
+
+    const result = toggleSeat(seatIndex, selectedSeats, seatId)
+    if (!result.ok) {
+      toast({
+        title: "Seat Unavailable",
+        description: result.message,
+        variant: "destructive"
+      })
+      return
+    }
+
+    if (result.removed.length > 0) {
+      setSelectedSeats(result.selected)
+      if (result.selected.length === 0) setHoldExpiresAt(null)
+      try {
+        await Promise.all(result.removed.map(id => releaseSeat(showtimeId, userId, id)))
+      } catch (error) {
+        console.error('Error releasing seat:', error)
+      }
+      return
+    }
+
+    if (result.selected.length > MAX_SEATS) {
+      toast({
+        title: "Limit Reached",
+        description: `You can select maximum ${MAX_SEATS} seats`,
+        variant: "destructive"
+      })
+      return
+    }
+
+    try {
+      const holds = await holdSeats(showtimeId, userId, result.added, {
+        expiresAt: holdExpiresAt || undefined,
+        maxSeats: MAX_SEATS
+      })
+      setSelectedSeats(prev => [...prev, ...result.added])
+      setHoldExpiresAt(holds[0].expires_at)
+
+      // Point out a stranded seat as soon as it appears; it is only enforced at payment
+      const [violation] = getRuleViolations(result.selected)
+      if (violation && !ruleViolations.some(existing => existing.rule === violation.rule)) {
+        toast({
+          title: violation.mode === 'block' ? "Single Seat Left Empty" : "Heads Up",
+          description: violation.message,
+          variant: violation.mode === 'block' ? "destructive" : "default"
+        })
+      }
+    } catch (error) {
+      if (error instanceof SeatLimitError) {
         toast({
           title: "Limit Reached",
-          description: "You can select maximum 10 seats",
+          description: error.message,
           variant: "destructive"
         })
+        return
+      }
+      if (error instanceof SeatHoldError) {
+        refreshSeats()
+        toast({
+          title: "Seat Unavailable",
+          description: error.message,
+          variant: "destructive"
+        })
+        return
       }
+      console.error('Error holding seat:', error)
+      toast({
+        title: "Error",
+        description: "Could not reserve this seat. Please try again.",
+        variant: "destructive"
+      })
     }
   }
 
-  const calculateTotal = () => {
-    let total = 0
-    selectedSeats.forEach(seatId => {
-      const [row] = seatId.split('-').map(Number)
-      const seatType = getSeatType(row)
-      total += getSeatPrice(seatType)
+  const handlePickBestSeats = async (count: number, categoryId: string) => {
+    if (!seatLayout || !showtimeId || !userId) return
+
+    const result = pickBestSeats(seatLayout, {
+      count,
+      categoryId,
+      // Our own selection is about to be released, so those seats are fair game
+      unavailable: new Set([...occupiedSeats, ...heldSeats])
     })
-    return total
+
+    if (!result) {
+      toast({
+        title: "Not Enough Seats",
+        description: `There are not ${count} seats left in this category`,
+        variant: "destructive"
+      })
+      return
+    }
+
+    setPickingBest(true)
+    try {
+      setSelectedSeats([])
+      setHoldExpiresAt(null)
+      await releaseHolds(showtimeId, userId)
+
+      const holds = await holdSeats(showtimeId, userId, result.seats, { maxSeats: MAX_SEATS })
+      setSelectedSeats(result.seats)
+      setHoldExpiresAt(holds[0].expires_at)
+
+      if (result.split) {
+        toast({
+          title: "Seats Not Together",
+          description: `No block of ${count} seats is free, so your party has been split: ${result.seats.map(formatSeatLabel).join(', ')}`,
+          variant: "destructive"
+        })
+      }
+    } catch (error) {
+      if (error instanceof SeatHoldError) {
+        await refreshSeats()
+        toast({
+          title: "Seats Just Taken",
+          description: "Someone else grabbed those seats. Please try again.",
+          variant: "destructive"
+        })
+        return
+      }
+      console.error('Error picking best seats:', error)
+      toast({
+        title: "Error",
+        description: "Could not reserve seats. Please try again.",
+        variant: "destructive"
+      })
+    } finally {
+      setPickingBest(false)
+    }
   }
 
+  // Promo discount, fees, taxes and rounding on top of the ticket prices, itemized for the summary and the booking
+  const calculateTotal = () =>
+    calculatePriceBreakdown(
+      selectedSeats.map(getTicketPrice),
+      parsePricingRules(theater?.pricing_rules),
+      { discountTerms: promotion ?? undefined }
+    )
+
   const handleProceedToPayment = async () => {
     if (selectedSeats.length === 0) {
       toast({
@@ -203,41 +489,134 @@ export default function SeatSelection() {
       })
       return
     }
+    if (submitting) return
+
+    const issues = validateSelection(seatIndex, selectedSeats)
+    if (issues.length > 0) {
+      toast({
+        title: "Check Your Seats",
+        description: issues[0].message,
+        variant: "destructive"
+      })
+      return
+    }
+
+    const blockingViolation = ruleViolations.find(violation => violation.mode === 'block')
+    if (blockingViolation) {
+      toast({
+        title: "Single Seat Left Empty",
+        description: blockingViolation.message,
+        variant: "destructive"
+      })
+      return
+    }
 
+    setSubmitting(true)
     try {
       const user = await blink.auth.me()
-      const total = calculateTotal()
-
-      // Create booking
-      const booking = await blink.db.bookings.create({
-        id: `booking_${Date.now()}`,
-        user_id: user.id,
-        showtime_id: showtimeId!,
-        seats: JSON.stringify(selectedSeats),
-        total_amount: total,
-        booking_status: 'confirmed',
-        payment_status: 'pending',
-        qr_code: `QR_${Date.now()}_${user.id}`,
-        checked_in: false
-      })
+
+      const bookingInput = {
+        userId: user.id,
+        showtimeId: showtimeId!,
+        seats: selectedSeats,
+        ticketTypes: Object.fromEntries(selectedSeats.map(seatId => [seatId, getSeatTicketType(seatId)])),
+        promoCode: promotion?.code,
+        idempotencyKey: idempotencyKeyRef.current
+      }
+
+      if (exchangeBookingId) {
+        const { booking, amountDue } = await startExchange({ ...bookingInput, bookingId: exchangeBookingId })
+
+        setSelectedSeats([])
+        setHoldExpiresAt(null)
+        await releaseHolds(showtimeId!, user.id)
+
+        if (amountDue > 0) {
+          toast({
+            title: "New Seats Reserved",
+            description: `Pay the ₹${amountDue} difference to complete your exchange`
+          })
+          navigate(`/checkout/${booking.id}`)
+        } else {
+          toast({
+            title: "Exchange Complete",
+            description: "Your booking has been moved to the new show"
+          })
+          navigate(`/booking/${booking.id}`)
+        }
+        return
+      }
+
+      const booking = await createBooking(bookingInput)
+
+      setSelectedSeats([])
+      setHoldExpiresAt(null)
+      await releaseHolds(showtimeId!, user.id)
 
       toast({
         title: "Booking Created",
-        description: "Redirecting to payment...",
+        description: "Your seats are reserved. Add snacks or go straight to payment.",
       })
 
-      navigate(`/booking/${booking.id}`)
+      navigate(`/booking/${booking.id}/snacks`)
     } catch (error) {
+      if (error instanceof ExchangeError) {
+        toast({
+          title: "Exchange Failed",
+          description: error.message,
+          variant: "destructive"
+        })
+        return
+      }
+      if (error instanceof PromotionError) {
+        setPromotion(null)
+        toast({
+          title: "Promo Code Removed",
+          description: error.message,
+          variant: "destructive"
+        })
+        return
+      }
+      if (error instanceof HoldExpiredError) {
+        setSelectedSeats(selectedSeats.filter(id => !error.seats.includes(id)))
+        await refreshSeats()
+        toast({
+          title: "Seat Hold Expired",
+          description: error.message,
+          variant: "destructive"
+        })
+        return
+      }
+      if (error instanceof SeatConflictError) {
+        setSelectedSeats(selectedSeats.filter(id => !error.seats.includes(id)))
+        await refreshSeats()
+        toast({
+          title: "Seats No Longer Available",
+          description: error.message,
+          variant: "destructive"
+        })
+        return
+      }
+      if (error instanceof FunctionError && error.status < 500) {
+        toast({
+          title: "Booking Failed",
+          description: error.message,
+          variant: "destructive"
+        })
+        return
+      }
       console.error('Error creating booking:', error)
       toast({
         title: "Booking Failed",
         description: "Please try again",
         variant: "destructive"
       })
+    } finally {
+      setSubmitting(false)
     }
   }
 
-  if (loading) {
+  if (loading || (userId && !seatsReady)) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
@@ -261,6 +640,20 @@ export default function SeatSelection() {
     )
   }
 
+  const exchangeDifference = exchange
+    ? getExchangeDifference(exchange.credit, calculateTotal().total, exchange.policy.fee)
+    : 0
+
+  const screenIndicator = (
+    <div className="text-center">
+      <div className={`inline-block bg-gradient-to-b from-gray-300 to-gray-500 text-black px-8 py-2 text-sm font-medium ${
+        seatLayout.screen.position === 'top' ? 'rounded-t-3xl' : 'rounded-b-3xl'
+      }`}>
+        SCREEN
+      </div>
+    </div>
+  )
+
   return (
     <div className="min-h-screen bg-background">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -286,6 +679,12 @@ export default function SeatSelection() {
                 })}
               </span>
               <Badge>{screen.format}</Badge>
+              {exchangeBookingId && (
+                <Badge variant="outline" className="flex items-center gap-1">
+                  <ArrowRightLeft className="w-3 h-3" />
+                  Exchange
+                </Badge>
+              )}
             </div>
           </div>
         </div>
@@ -296,13 +695,17 @@ export default function SeatSelection() {
             <Card>
               <CardHeader>
                 <CardTitle className="text-center">Select Your Seats</CardTitle>
-                <div className="text-center">
-                  <div className="inline-block bg-gradient-to-b from-gray-300 to-gray-500 text-black px-8 py-2 rounded-t-3xl text-sm font-medium">
-                    SCREEN
-                  </div>
-                </div>
+                {seatLayout.screen.position === 'top' && screenIndicator}
               </CardHeader>
               <CardContent className="p-6">
+                <BestSeatsPicker
+                  categories={seatLayout.categories.filter(category => getCategoryRows(category.id))}
+                  prices={categoryPrices}
+                  maxSeats={MAX_SEATS}
+                  picking={pickingBest}
+                  onPick={handlePickBestSeats}
+                />
+
                 {/* Seat Legend */}
                 <div className="flex justify-center gap-6 mb-6 text-sm">
                   <div className="flex items-center gap-2">
@@ -313,47 +716,128 @@ export default function SeatSelection() {
                     <div className="w-4 h-4 bg-yellow-500 rounded"></div>
                     <span>Selected</span>
                   </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-4 h-4 bg-orange-500/60 rounded"></div>
+                    <span>Held</span>
+                  </div>
                   <div className="flex items-center gap-2">
                     <div className="w-4 h-4 bg-red-600 rounded"></div>
                     <span>Occupied</span>
                   </div>
                 </div>
+                {specialKinds.size > 0 && (
+                  <div className="flex flex-wrap justify-center gap-6 -mt-3 mb-6 text-sm text-muted-foreground">
+                    {specialKinds.has('wheelchair') && (
+                      <div className="flex items-center gap-2">
+                        <Accessibility className="w-4 h-4" />
+                        <span>Wheelchair space</span>
+                      </div>
+                    )}
+                    {specialKinds.has('companion') && (
+                      <div className="flex items-center gap-2">
+                        <HeartHandshake className="w-4 h-4" />
+                        <span>Companion (with wheelchair space only)</span>
+                      </div>
+                    )}
+                    {specialKinds.has('couple') && (
+                      <div className="flex items-center gap-2">
+                        <Sofa className="w-4 h-4" />
+                        <span>Couple seat (books 2)</span>
+                      </div>
+                    )}
+                    {specialKinds.has('blocked') && (
+                      <div className="flex items-center gap-2">
+                        <Ban className="w-4 h-4" />
+                        <span>Unavailable</span>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <div className="flex items-center justify-center gap-1 -mt-3 mb-6 text-xs text-muted-foreground">
+                  {live ? (
+                    <>
+                      <Radio className="w-3 h-3 text-green-500" />
+                      <span>Live seat updates</span>
+                    </>
+                  ) : (
+                    <>
+                      <RefreshCw className="w-3 h-3" />
+                      <span>Seat map refreshes every few seconds</span>
+                    </>
+                  )}
+                </div>
 
                 {/* Seat Grid */}
-                <div className="space-y-2">
-                  {Array.from({ length: seatLayout.rows }, (_, rowIndex) => {
-                    const row = rowIndex + 1
-                    const seatType = getSeatType(row)
-                    
+                <div className="space-y-2 overflow-x-auto">
+                  {seatLayout.rows.map((layoutRow, rowIndex) => {
                     return (
-                      <div key={row} className="flex items-center justify-center gap-1">
+                      <div key={rowIndex} className="flex items-center justify-center gap-1">
                         <div className="w-8 text-center text-sm font-medium text-muted-foreground">
-                          {String.fromCharCode(65 + rowIndex)}
+                          {getRowLabel(rowIndex)}
                         </div>
                         <div className="flex gap-1">
-                          {Array.from({ length: seatLayout.seatsPerRow }, (_, seatIndex) => {
-                            const seat = seatIndex + 1
-                            const seatId = `${row}-${seat}`
-                            const isOccupied = occupiedSeats.includes(seatId)
+                          {layoutRow.cells.map((cell, cellIndex) => {
+                            if (cell.type === 'stairs') {
+                              return <div key={cellIndex} className="w-8 h-8 rounded seat-stairs" />
+                            }
+                            if (cell.type !== 'seat') {
+                              return <div key={cellIndex} className="w-8 h-8" />
+                            }
+
+                            const seat = cell.number
+                            const seatId = getSeatId(rowIndex, seat)
+                            const unit = getCellSeatIds(rowIndex, cell)
+                            const seatType = getCategory(seatLayout, cell.category)
+                            const isBlocked = !!cell.blocked
+                            const isOccupied = unit.some(id => occupiedSeats.includes(id))
+                            const isHeld = unit.some(id => heldSeats.includes(id))
                             const isSelected = selectedSeats.includes(seatId)
+                            const isFlagged = unit.some(id => flaggedSeats.has(id))
+                            const justTaken = (isOccupied || isHeld) && unit.some(id => changedSeats.has(id))
+                            const kindLabel = cell.kind && cell.kind !== 'standard' ? SEAT_KIND_LABELS[cell.kind] : null
                             
                             return (
                               <button
                                 key={seatId}
                                 onClick={() => handleSeatClick(seatId)}
-                                disabled={isOccupied}
+                                disabled={isBlocked || isOccupied || isHeld}
+                                title={
+                                  isBlocked
+                                    ? 'Not available'
+                                    : isHeld
+                                      ? 'Held by another customer'
+                                      : `${kindLabel ? `${kindLabel} • ` : ''}${seatType.name} • ₹${(categoryPrices[seatType.id] || 0) * unit.length}`
+                                }
+                                style={!isOccupied && !isBlocked ? { borderColor: seatType.color } : undefined}
                                 className={`
-                                  w-8 h-8 rounded text-xs font-medium transition-colors
-                                  ${isOccupied 
-                                    ? 'seat-occupied' 
-                                    : isSelected 
-                                      ? 'seat-selected' 
-                                      : 'seat-available'
+                                  ${isCoupleSeat(cell) ? 'w-[68px]' : 'w-8'} h-8 rounded text-xs font-medium transition-colors border-2
+                                  flex items-center justify-center
+                                  ${isBlocked
+                                    ? 'seat-blocked'
+                                    : isOccupied 
+                                      ? 'seat-occupied' 
+                                      : isHeld
+                                        ? 'seat-held'
+                                        : isSelected 
+                                          ? 'seat-selected' 
+                                          : 'seat-available'
                                   }
-                                  ${seatType === 'premium' ? 'seat-premium' : ''}
+                                  ${isFlagged ? 'seat-flagged' : ''}
+                                  ${justTaken ? 'seat-just-taken' : ''}
                                 `}
                               >
-                                {seat}
+                                {isBlocked ? (
+                                  <Ban className="w-3 h-3" />
+                                ) : cell.kind === 'wheelchair' ? (
+                                  <Accessibility className="w-4 h-4" />
+                                ) : cell.kind === 'companion' ? (
+                                  <HeartHandshake className="w-4 h-4" />
+                                ) : isCoupleSeat(cell) ? (
+                                  <span className="flex items-center gap-1"><Sofa className="w-3 h-3" />{seat}-{seat + 1}</span>
+                                ) : (
+                                  seat
+                                )}
                               </button>
                             )
                           })}
@@ -363,26 +847,40 @@ export default function SeatSelection() {
                   })}
                 </div>
 
+                {seatLayout.screen.position === 'bottom' && <div className="mt-6">{screenIndicator}</div>}
+
                 {/* Pricing Info */}
-                <div className="mt-8 grid grid-cols-3 gap-4 text-center">
-                  <div className="p-3 bg-card rounded-lg border-2 border-yellow-400">
-                    <div className="text-sm font-medium text-yellow-400">Premium</div>
-                    <div className="text-lg font-bold">₹{showtime.price_platinum}</div>
-                    <div className="text-xs text-muted-foreground">Rows {seatLayout.premium.join(', ')}</div>
-                  </div>
-                  <div className="p-3 bg-card rounded-lg">
-                    <div className="text-sm font-medium text-yellow-600">Gold</div>
-                    <div className="text-lg font-bold">₹{showtime.price_gold}</div>
-                    <div className="text-xs text-muted-foreground">Rows {seatLayout.gold.join(', ')}</div>
-                  </div>
-                  <div className="p-3 bg-card rounded-lg">
-                    <div className="text-sm font-medium">Regular</div>
-                    <div className="text-lg font-bold">₹{showtime.price_regular}</div>
-                    <div className="text-xs text-muted-foreground">Rows {seatLayout.regular.join(', ')}</div>
-                  </div>
+                <div className="mt-8 grid grid-cols-2 md:grid-cols-3 gap-4 text-center">
+                  {seatLayout.categories
+                    .filter(category => getCategoryRows(category.id))
+                    .map(category => (
+                      <div
+                        key={category.id}
+                        className="p-3 bg-card rounded-lg border-2"
+                        style={{ borderColor: category.color }}
+                      >
+                        <div className="text-sm font-medium" style={{ color: category.color }}>{category.name}</div>
+                        <div className="text-lg font-bold">₹{categoryPrices[category.id] || 0}</div>
+                        <div className="text-xs text-muted-foreground">Rows {getCategoryRows(category.id)}</div>
+                      </div>
+                    ))}
                 </div>
               </CardContent>
             </Card>
+
+            {/* View From Seat */}
+            {selectedSeats.length > 0 && (
+              <Card className="mt-6">
+                <CardHeader>
+                  <CardTitle>View From Your Seat</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Suspense fallback={<div className="h-72 rounded-lg bg-muted animate-pulse" />}>
+                    <SeatViewPreview layout={seatLayout} seatIds={selectedSeats} />
+                  </Suspense>
+                </CardContent>
+              </Card>
+            )}
           </div>
 
           {/* Booking Summary */}
@@ -432,14 +930,31 @@ export default function SeatSelection() {
                   {selectedSeats.length > 0 ? (
                     <div className="space-y-1">
                       {selectedSeats.map(seatId => {
-                        const [row, seat] = seatId.split('-').map(Number)
-                        const seatType = getSeatType(row)
-                        const price = getSeatPrice(seatType)
+                        const seatType = getSeatType(seatId)
+                        const price = getTicketPrice(seatId)
                         
                         return (
-                          <div key={seatId} className="flex justify-between text-xs">
-                            <span>{String.fromCharCode(64 + row)}{seat} ({seatType})</span>
-                            <span>₹{price}</span>
+                          <div key={seatId} className="flex items-center justify-between gap-2 text-xs">
+                            <span className="flex-1">{formatSeatLabel(seatId)} ({seatType?.name})</span>
+                            {enabledTicketTypes.length > 1 && (
+                              <Select
+                                value={getSeatTicketType(seatId)}
+                                onValueChange={(value) => setTicketTypes({ ...ticketTypes, [seatId]: value as TicketTypeId })}
+                              >
+                                <SelectTrigger className="h-7 w-24 text-xs">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {enabledTicketTypes.map(type => (
+                                    <SelectItem key={type.id} value={type.id}>
+                                      {type.name}
+                                      {ticketTypeRules[type.id].discountPercent > 0 && ` (-${ticketTypeRules[type.id].discountPercent}%)`}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            )}
+                            <span className="w-12 text-right">₹{price}</span>
                           </div>
                         )
                       })}
@@ -449,20 +964,84 @@ export default function SeatSelection() {
                   )}
                 </div>
 
+                {idCheckedTypes.length > 0 && (
+                  <div className="flex gap-2 rounded-md p-2 text-xs bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200">
+                    <AlertTriangle className="w-4 h-4 shrink-0" />
+                    <span>
+                      Bring proof for {idCheckedTypes.map(type => getTicketType(type).name.toLowerCase()).join(' and ')} tickets.
+                      It is checked at entry.
+                    </span>
+                  </div>
+                )}
+
+                {holdRemaining !== null && selectedSeats.length > 0 && (
+                  <div className={`flex items-center justify-between rounded-md p-2 text-sm ${
+                    holdRemaining < 60 * 1000
+                      ? 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200'
+                      : 'bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200'
+                  }`}>
+                    <span className="flex items-center gap-1">
+                      <Timer className="w-4 h-4" />
+                      Seats held for
+                    </span>
+                    <span className="font-mono font-semibold">{formatCountdown(holdRemaining)}</span>
+                  </div>
+                )}
+
+                {ruleViolations.map(violation => (
+                  <div
+                    key={violation.rule}
+                    className={`flex gap-2 rounded-md p-2 text-xs ${
+                      violation.mode === 'block'
+                        ? 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200'
+                        : 'bg-yellow-50 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200'
+                    }`}
+                  >
+                    <AlertTriangle className="w-4 h-4 shrink-0" />
+                    <span>{violation.message}</span>
+                  </div>
+                ))}
+
                 <Separator />
 
-                <div className="flex justify-between font-semibold">
-                  <span>Total Amount</span>
-                  <span>₹{calculateTotal()}</span>
-                </div>
+                {!exchangeBookingId && (
+                  <PromoCodeInput
+                    showtimeId={showtimeId!}
+                    userId={userId}
+                    ticketCount={selectedSeats.length}
+                    applied={promotion}
+                    onChange={setPromotion}
+                  />
+                )}
+
+                <PriceBreakdownLines breakdown={calculateTotal()} />
+
+                {exchange && (
+                  <div className="space-y-1 text-sm">
+                    <div className="flex justify-between">
+                      <span>Exchange fee</span>
+                      <span>₹{exchange.policy.fee}</span>
+                    </div>
+                    <div className="flex justify-between text-green-600">
+                      <span>Credit from original booking</span>
+                      <span>-₹{exchange.credit}</span>
+                    </div>
+                    {selectedSeats.length > 0 && (
+                      <div className="flex justify-between font-semibold">
+                        <span>{exchangeDifference >= 0 ? 'To Pay' : 'Refund'}</span>
+                        <span>₹{Math.abs(exchangeDifference)}</span>
+                      </div>
+                    )}
+                  </div>
+                )}
 
                 <Button 
                   onClick={handleProceedToPayment}
-                  disabled={selectedSeats.length === 0}
+                  disabled={selectedSeats.length === 0 || submitting}
                   className="w-full"
                 >
                   <CreditCard className="w-4 h-4 mr-2" />
-                  Proceed to Payment
+                  {submitting ? 'Booking...' : exchangeBookingId ? 'Confirm Exchange' : 'Proceed to Payment'}
                 </Button>
               </CardContent>
             </Card>
@@ -1,9 +1,22 @@
 import { useState, useEffect } from 'react'
-import { BarChart3, Calendar, Users, DollarSign, Plus, Settings } from 'lucide-react'
+import { BarChart3, Calendar, Users, DollarSign, Plus } from 'lucide-react'
 import { blink } from '../blink/client'
 import { Button } from '../components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs'
+import PromotionManager from '../components/promotions/PromotionManager'
+import BoxOfficeLookup from '../components/theater/BoxOfficeLookup'
+import CheckInPolicySettings from '../components/theater/CheckInPolicySettings'
+import ConcessionCatalog from '../components/theater/ConcessionCatalog'
+import ExchangePolicySettings from '../components/theater/ExchangePolicySettings'
+import InventoryReconciliation from '../components/theater/InventoryReconciliation'
+import PricingRulesSettings from '../components/theater/PricingRulesSettings'
+import RefundPolicySettings from '../components/theater/RefundPolicySettings'
+import ScreenManager from '../components/theater/ScreenManager'
+import ShowtimePricing from '../components/theater/ShowtimePricing'
+import TicketKeySettings from '../components/theater/TicketKeySettings'
+import TicketTypeReport from '../components/theater/TicketTypeReport'
+import TicketTypeSettings from '../components/theater/TicketTypeSettings'
 
 interface User {
   id: string
@@ -101,13 +114,18 @@ export default function TheaterDashboard({ user }: TheaterDashboardProps) {
 
         {/* Main Content */}
         <Tabs defaultValue="shows" className="w-full">
-          <TabsList className="grid w-full max-w-md grid-cols-3">
+          <TabsList className="grid w-full max-w-5xl grid-cols-8">
             <TabsTrigger value="shows">Shows</TabsTrigger>
             <TabsTrigger value="screens">Screens</TabsTrigger>
+            <TabsTrigger value="box-office">Box Office</TabsTrigger>
+            <TabsTrigger value="concessions">Concessions</TabsTrigger>
+            <TabsTrigger value="inventory">Inventory</TabsTrigger>
+            <TabsTrigger value="policies">Policies</TabsTrigger>
+            <TabsTrigger value="promotions">Promotions</TabsTrigger>
             <TabsTrigger value="analytics">Analytics</TabsTrigger>
           </TabsList>
 
-          <TabsContent value="shows" className="mt-6">
+          <TabsContent value="shows" className="mt-6 space-y-6">
             <Card>
               <CardHeader>
                 <div className="flex items-center justify-between">
@@ -128,32 +146,42 @@ export default function TheaterDashboard({ user }: TheaterDashboardProps) {
                 </div>
               </CardContent>
             </Card>
+            <ShowtimePricing theaterId={user.theater_id} />
           </TabsContent>
 
           <TabsContent value="screens" className="mt-6">
-            <Card>
-              <CardHeader>
-                <div className="flex items-center justify-between">
-                  <CardTitle>Screen Management</CardTitle>
-                  <Button>
-                    <Plus className="w-4 h-4 mr-2" />
-                    Add Screen
-                  </Button>
-                </div>
-              </CardHeader>
-              <CardContent>
-                <div className="text-center py-12">
-                  <Settings className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
-                  <p className="text-muted-foreground">Screen management interface coming soon</p>
-                  <p className="text-sm text-muted-foreground mt-2">
-                    Configure screens, seat layouts, and technical specifications
-                  </p>
-                </div>
-              </CardContent>
-            </Card>
+            <ScreenManager theaterId={user.theater_id} />
+          </TabsContent>
+
+          <TabsContent value="box-office" className="mt-6">
+            <BoxOfficeLookup theaterId={user.theater_id} />
+          </TabsContent>
+
+          <TabsContent value="concessions" className="mt-6">
+            <ConcessionCatalog theaterId={user.theater_id} />
+          </TabsContent>
+
+          <TabsContent value="inventory" className="mt-6">
+            <InventoryReconciliation theaterId={user.theater_id} />
+          </TabsContent>
+
+          <TabsContent value="policies" className="mt-6">
+            <div className="space-y-6">
+              <TicketTypeSettings theaterId={user.theater_id} />
+              <PricingRulesSettings theaterId={user.theater_id} />
+              <RefundPolicySettings theaterId={user.theater_id} />
+              <ExchangePolicySettings theaterId={user.theater_id} />
+              <CheckInPolicySettings theaterId={user.theater_id} />
+              <TicketKeySettings theaterId={user.theater_id} />
+            </div>
+          </TabsContent>
+
+          <TabsContent value="promotions" className="mt-6">
+            <PromotionManager theaterId={user.theater_id} />
           </TabsContent>
 
-          <TabsContent value="analytics" className="mt-6">
+          <TabsContent value="analytics" className="mt-6 space-y-6">
+            <TicketTypeReport theaterId={user.theater_id} />
             <Card>
               <CardHeader>
                 <CardTitle>Analytics & Reports</CardTitle>
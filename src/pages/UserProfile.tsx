@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react'
-import { User, Mail, Phone, Calendar, Download, RotateCcw } from 'lucide-react'
+import { Link } from 'react-router-dom'
+import { User, Mail, Phone, Calendar, Download, RotateCcw, CreditCard } from 'lucide-react'
 import { blink } from '../blink/client'
 import { Button } from '../components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
@@ -8,6 +9,12 @@ import { Label } from '../components/ui/label'
 import { Badge } from '../components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs'
 import { useToast } from '../hooks/use-toast'
+import CancelBookingDialog from '../components/booking/CancelBookingDialog'
+import ExchangeBookingDialog from '../components/booking/ExchangeBookingDialog'
+import RemoveSeatsDialog from '../components/booking/RemoveSeatsDialog'
+import { BOOKING_STATUS_LABELS, getBookingStatus, type BookingStatus } from '../lib/booking-state'
+import { isPaymentOverdue } from '../lib/bookings'
+import { getShowStart } from '../lib/refund-policy'
 
 interface User {
   id: string
@@ -26,6 +33,7 @@ interface Booking {
   payment_status: string
   qr_code: string
   checked_in: boolean
+  refund_amount?: number
   created_at: string
   movie_title: string
   theater_name: string
@@ -131,9 +139,11 @@ export default function UserProfile({ user }: UserProfileProps) {
     })
   }
 
-  const getStatusColor = (status: string) => {
+  const getStatusColor = (status: BookingStatus) => {
     switch (status) {
       case 'confirmed': return 'bg-green-500'
+      case 'checked_in': return 'bg-blue-500'
+      case 'pending_payment': return 'bg-orange-500'
       case 'cancelled': return 'bg-red-500'
       case 'refunded': return 'bg-yellow-500'
       default: return 'bg-gray-500'
@@ -230,71 +240,105 @@ export default function UserProfile({ user }: UserProfileProps) {
                   </div>
                 ) : bookings.length > 0 ? (
                   <div className="space-y-4">
-                    {bookings.map((booking) => (
-                      <Card key={booking.id} className="border-l-4 border-l-primary">
-                        <CardContent className="p-4">
-                          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
-                            <div className="flex-1">
-                              <div className="flex items-center gap-2 mb-2">
-                                <h3 className="font-semibold">{booking.movie_title}</h3>
-                                <Badge 
-                                  className={`${getStatusColor(booking.booking_status)} text-white`}
-                                >
-                                  {booking.booking_status}
-                                </Badge>
-                              </div>
-                              
-                              <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm text-muted-foreground">
-                                <div className="flex items-center gap-1">
-                                  <Mail className="w-4 h-4" />
-                                  <span>{booking.theater_name}</span>
-                                </div>
-                                <div className="flex items-center gap-1">
-                                  <Calendar className="w-4 h-4" />
-                                  <span>
-                                    {new Date(booking.show_date).toLocaleDateString()} • {' '}
-                                    {new Date(`2000-01-01T${booking.show_time}`).toLocaleTimeString('en-US', {
-                                      hour: 'numeric',
-                                      minute: '2-digit',
-                                      hour12: true
-                                    })}
-                                  </span>
+                    {bookings.map((booking) => {
+                      const status = isPaymentOverdue(booking) ? 'expired' : getBookingStatus(booking)
+                      const upcoming = !!booking.show_date && getShowStart(booking) > new Date()
+                      return (
+                        <Card key={booking.id} className="border-l-4 border-l-primary">
+                          <CardContent className="p-4">
+                            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                              <div className="flex-1">
+                                <div className="flex items-center gap-2 mb-2">
+                                  <h3 className="font-semibold">{booking.movie_title}</h3>
+                                  <Badge 
+                                    className={`${getStatusColor(status)} text-white`}
+                                  >
+                                    {BOOKING_STATUS_LABELS[status] || status}
+                                  </Badge>
                                 </div>
-                                <div>
-                                  <span>Seats: {JSON.parse(booking.seats).join(', ')}</span>
+                                
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm text-muted-foreground">
+                                  <div className="flex items-center gap-1">
+                                    <Mail className="w-4 h-4" />
+                                    <span>{booking.theater_name}</span>
+                                  </div>
+                                  <div className="flex items-center gap-1">
+                                    <Calendar className="w-4 h-4" />
+                                    <span>
+                                      {new Date(booking.show_date).toLocaleDateString()} • {' '}
+                                      {new Date(`2000-01-01T${booking.show_time}`).toLocaleTimeString('en-US', {
+                                        hour: 'numeric',
+                                        minute: '2-digit',
+                                        hour12: true
+                                      })}
+                                    </span>
+                                  </div>
+                                  <div>
+                                    <span>Seats: {JSON.parse(booking.seats).join(', ')}</span>
+                                  </div>
+                                  <div>
+                                    <span className="font-medium">₹{booking.total_amount}</span>
+                                  </div>
                                 </div>
-                                <div>
-                                  <span className="font-medium">₹{booking.total_amount}</span>
+                                
+                                <div className="mt-2 text-xs text-muted-foreground">
+                                  Booked on {new Date(booking.created_at).toLocaleDateString()}
+                                  {booking.refund_amount != null && (status === 'cancelled' || status === 'refunded') && (
+                                    <> • Refund ₹{booking.refund_amount}</>
+                                  )}
                                 </div>
                               </div>
                               
-                              <div className="mt-2 text-xs text-muted-foreground">
-                                Booked on {new Date(booking.created_at).toLocaleDateString()}
+                              <div className="flex flex-col gap-2">
+                                {status === 'pending_payment' && (
+                                  <Link to={`/checkout/${booking.id}`}>
+                                    <Button size="sm">
+                                      <CreditCard className="w-4 h-4 mr-2" />
+                                      Complete Payment
+                                    </Button>
+                                  </Link>
+                                )}
+                                {status === 'confirmed' && (
+                                  <>
+                                    <Button size="sm" variant="outline">
+                                      <Download className="w-4 h-4 mr-2" />
+                                      Download Ticket
+                                    </Button>
+                                    <Button 
+                                      size="sm" 
+                                      variant="outline"
+                                      onClick={() => handleRebook(booking)}
+                                    >
+                                      <RotateCcw className="w-4 h-4 mr-2" />
+                                      Rebook
+                                    </Button>
+                                  </>
+                                )}
+                                {status === 'confirmed' && upcoming && (
+                                  <ExchangeBookingDialog bookingId={booking.id} userId={user.id} />
+                                )}
+                                {status === 'confirmed' && upcoming && JSON.parse(booking.seats).length > 1 && (
+                                  <RemoveSeatsDialog
+                                    bookingId={booking.id}
+                                    seats={JSON.parse(booking.seats)}
+                                    actor={{ userId: user.id }}
+                                    onRemoved={fetchBookings}
+                                  />
+                                )}
+                                {(status === 'pending_payment' || status === 'confirmed') && upcoming && (
+                                  <CancelBookingDialog
+                                    bookingId={booking.id}
+                                    actor={{ userId: user.id }}
+                                    movieTitle={booking.movie_title}
+                                    onCancelled={fetchBookings}
+                                  />
+                                )}
                               </div>
                             </div>
-                            
-                            <div className="flex flex-col gap-2">
-                              {booking.booking_status === 'confirmed' && (
-                                <>
-                                  <Button size="sm" variant="outline">
-                                    <Download className="w-4 h-4 mr-2" />
-                                    Download Ticket
-                                  </Button>
-                                  <Button 
-                                    size="sm" 
-                                    variant="outline"
-                                    onClick={() => handleRebook(booking)}
-                                  >
-                                    <RotateCcw className="w-4 h-4 mr-2" />
-                                    Rebook
-                                  </Button>
-                                </>
-                              )}
-                            </div>
-                          </div>
-                        </CardContent>
-                      </Card>
-                    ))}
+                          </CardContent>
+                        </Card>
+                      )
+                    })}
                   </div>
                 ) : (
                   <div className="text-center py-12">
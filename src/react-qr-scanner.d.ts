@@ -0,0 +1,21 @@
+// react-qr-scanner ships without type definitions; this covers the props used here
+declare module 'react-qr-scanner' {
+  import type { ComponentType, VideoHTMLAttributes } from 'react'
+
+  // A decoded code, or null for a frame with no code in it
+  export interface QrScanResult {
+    text: string
+  }
+
+  export interface QrReaderProps extends Omit<VideoHTMLAttributes<HTMLVideoElement>, 'onError' | 'onLoad'> {
+    constraints?: MediaStreamConstraints
+    onScan: (result: QrScanResult | null) => void
+    onError: (error: Error) => void
+    onLoad?: () => void
+    // Longest side, in pixels, of the frames passed to the decoder
+    resolution?: number
+  }
+
+  const QrReader: ComponentType<QrReaderProps>
+  export default QrReader
+}
@@ -77,12 +77,17 @@ module.exports = {
           from: { transform: "translateX(-100%)" },
           to: { transform: "translateX(0)" },
         },
+        "seat-taken": {
+          "0%": { transform: "scale(1.3)", boxShadow: "0 0 0 4px rgb(239 68 68 / 0.7)" },
+          "100%": { transform: "scale(1)", boxShadow: "0 0 0 0 rgb(239 68 68 / 0)" },
+        },
       },
       animation: {
         "accordion-down": "accordion-down 0.2s ease-out",
         "accordion-up": "accordion-up 0.2s ease-out",
         "fade-in": "fade-in 0.3s ease-out",
         "slide-in": "slide-in 0.3s ease-out",
+        "seat-taken": "seat-taken 1.2s ease-out",
       },
     },
   },